@@ -1,29 +1,40 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import TrainingMode from './components/TrainingMode';
+import CountingMode from './components/CountingMode';
 import PlayingMode from './components/PlayingMode';
 import MultiplayerMode from './components/MultiplayerMode';
 import AuthScreen from './components/AuthScreen';
 import ProfilePage from './components/ProfilePage';
 import Leaderboard from './components/Leaderboard';
+import RulesSettings from './components/RulesSettings';
+import StrategyChart from './components/StrategyChart';
 import { UserProfile, fetchMe, getToken, setToken, clearToken } from './utils/api';
+import { loadRules, saveRules, describeRules } from './utils/rules';
+import { TableRules } from './types';
 
-type Mode = 'menu' | 'auth' | 'training' | 'playing' | 'multiplayer' | 'profile' | 'leaderboard';
+type Mode = 'menu' | 'auth' | 'training' | 'counting' | 'playing' | 'multiplayer' | 'profile' | 'leaderboard' | 'rules' | 'chart';
 
 const App: React.FC = () => {
   const [mode, setModeRaw] = useState<Mode>(() => {
     const saved = sessionStorage.getItem('bj_mode');
-    if (saved === 'training' || saved === 'playing' || saved === 'multiplayer') return saved;
+    if (saved === 'training' || saved === 'counting' || saved === 'playing' || saved === 'multiplayer') return saved;
     return 'menu';
   });
 
   const [user, setUser] = useState<UserProfile | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
+  const [rules, setRulesRaw] = useState<TableRules>(loadRules);
 
   const setMode = useCallback((m: Mode) => {
     sessionStorage.setItem('bj_mode', m);
     setModeRaw(m);
   }, []);
 
+  const setRules = useCallback((r: TableRules) => {
+    saveRules(r);
+    setRulesRaw(r);
+  }, []);
+
   // Auto-login from stored JWT on mount
   useEffect(() => {
     const token = getToken();
@@ -73,16 +84,28 @@ const App: React.FC = () => {
     return <Leaderboard onBack={() => setMode('menu')} myUserId={user?.id} />;
   }
 
+  if (mode === 'rules') {
+    return <RulesSettings rules={rules} onChange={setRules} onBack={() => setMode('menu')} />;
+  }
+
+  if (mode === 'chart') {
+    return <StrategyChart rules={rules} user={user} onBack={() => setMode('menu')} />;
+  }
+
   if (mode === 'training') {
-    return <TrainingMode onBack={() => setMode('menu')} user={user} />;
+    return <TrainingMode onBack={() => setMode('menu')} user={user} rules={rules} />;
+  }
+
+  if (mode === 'counting') {
+    return <CountingMode onBack={() => setMode('menu')} rules={rules} />;
   }
 
   if (mode === 'playing') {
-    return <PlayingMode onBack={() => { refreshUser(); setMode('menu'); }} user={user} />;
+    return <PlayingMode onBack={() => { refreshUser(); setMode('menu'); }} user={user} rules={rules} />;
   }
 
   if (mode === 'multiplayer') {
-    return <MultiplayerMode onBack={() => { refreshUser(); setMode('menu'); }} user={user} />;
+    return <MultiplayerMode onBack={() => { refreshUser(); setMode('menu'); }} user={user} rules={rules} />;
   }
 
   return (
@@ -132,6 +155,20 @@ const App: React.FC = () => {
             </div>
           </button>
 
+          <button
+            onClick={() => setMode('counting')}
+            className="w-full group relative bg-amber-600 hover:bg-amber-500 text-white p-6 rounded-xl shadow-lg transition-all hover:-translate-y-1 overflow-hidden"
+          >
+            <div className="absolute inset-0 bg-white/10 opacity-0 group-hover:opacity-100 transition-opacity"></div>
+            <div className="flex items-center justify-between">
+              <div className="text-left">
+                <div className="text-2xl font-bold">Counting Mode</div>
+                <div className="text-amber-200 text-sm">Practice Card Counting</div>
+              </div>
+              <span className="text-4xl opacity-50 group-hover:opacity-100 transition-opacity">🧮</span>
+            </div>
+          </button>
+
           <button
             onClick={() => setMode('playing')}
             className="w-full group relative bg-blue-600 hover:bg-blue-500 text-white p-6 rounded-xl shadow-lg transition-all hover:-translate-y-1 overflow-hidden"
@@ -161,9 +198,19 @@ const App: React.FC = () => {
           </button>
         </div>
 
-        <div className="mt-8 text-center text-slate-500 text-xs">
-          v2.0 • H17 • 6 Decks • No Surrender
-        </div>
+        <button
+          onClick={() => setMode('chart')}
+          className="mt-6 w-full bg-slate-700/40 hover:bg-slate-700/60 text-slate-300 hover:text-white text-sm font-bold py-3 rounded-xl transition-colors"
+        >
+          📖 Strategy Chart
+        </button>
+
+        <button
+          onClick={() => setMode('rules')}
+          className="mt-6 w-full text-center text-slate-500 hover:text-slate-300 text-xs transition-colors"
+        >
+          v2.0 • {describeRules(rules)} • ⚙️ Rules
+        </button>
       </div>
     </div>
   );
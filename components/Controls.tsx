@@ -6,10 +6,11 @@ interface ControlsProps {
   onAction: (action: Action) => void;
   canDouble: boolean;
   canSplit: boolean;
+  canSurrender?: boolean; // only shown at tables that offer surrender
   disabled: boolean;
 }
 
-const Controls: React.FC<ControlsProps> = ({ onAction, canDouble, canSplit, disabled }) => {
+const Controls: React.FC<ControlsProps> = ({ onAction, canDouble, canSplit, canSurrender = false, disabled }) => {
   return (
     <div className="flex flex-wrap gap-3 sm:gap-4 justify-center w-full max-w-2xl px-4">
       <button
@@ -50,6 +51,16 @@ const Controls: React.FC<ControlsProps> = ({ onAction, canDouble, canSplit, disa
       >
         Split
       </button>
+
+      {canSurrender && (
+        <button
+          onClick={() => { playSound('click'); onAction(Action.Surrender); }}
+          disabled={disabled}
+          className="flex-1 min-w-[100px] bg-slate-500 hover:bg-slate-400 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl shadow-[0_4px_0_rgb(51,65,85)] active:shadow-[0_2px_0_rgb(51,65,85)] active:translate-y-[2px] transition-all text-lg tracking-wide uppercase"
+        >
+          Surrender
+        </button>
+      )}
     </div>
   );
 };
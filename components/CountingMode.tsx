@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Card from './Card';
+import ShoeIndicator from './ShoeIndicator';
+import { playSound } from '../utils/sound';
+import { createShoe, discardCards, drawCard, shoeInfo, isCutCardOut } from '../utils/shoe';
+import {
+  COUNT_SYSTEMS, COUNT_SYSTEM_IDS, CountSystemId, CountingSession,
+  estimateDecksRemaining, initialRunningCount, isTrueCountAnswerCorrect, loadCountingHistory,
+  runningCount, saveCountingSession, trueCount,
+} from '../utils/counting';
+import { DEFAULT_RULES } from '../utils/rules';
+import { Card as CardType, Rank, TableRules } from '../types';
+
+interface CountingModeProps {
+  onBack: () => void;
+  rules?: TableRules;
+}
+
+type Phase = 'setup' | 'dealing' | 'running_count' | 'true_count' | 'feedback' | 'summary';
+
+interface CheckpointAnswer {
+  question: 'Running Count' | 'True Count';
+  answer: number;
+  expected: number;
+  isCorrect: boolean;
+  ms: number;
+}
+
+const SPEED_OPTIONS = [
+  { label: 'Slow', ms: 1500 },
+  { label: 'Normal', ms: 1000 },
+  { label: 'Fast', ms: 600 },
+  { label: 'Pro', ms: 350 },
+] as const;
+
+const TAG_RANKS = [Rank.Two, Rank.Three, Rank.Four, Rank.Five, Rank.Six, Rank.Seven, Rank.Eight, Rank.Nine, Rank.Ten, Rank.Ace];
+
+const CHECKPOINT_MIN = 8;                 // cards between count checks
+const CHECKPOINT_MAX = 20;
+
+const nextCheckpointGap = () => CHECKPOINT_MIN + Math.floor(Math.random() * (CHECKPOINT_MAX - CHECKPOINT_MIN + 1));
+
+const formatSigned = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+const CountingMode: React.FC<CountingModeProps> = ({ onBack, rules = DEFAULT_RULES }) => {
+  const [systemId, setSystemId] = useState<CountSystemId>('hilo');
+  const [cardMs, setCardMs] = useState<number>(1000);
+  const system = COUNT_SYSTEMS[systemId];
+  const decks = rules.decks;
+
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [dealt, setDealt] = useState<CardType[]>([]);
+  const [answers, setAnswers] = useState<CheckpointAnswer[]>([]);
+  const [checkpointAnswers, setCheckpointAnswers] = useState<CheckpointAnswer[]>([]);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<CountingSession[]>(loadCountingHistory);
+
+  const shoeRef = useRef(createShoe(rules)); // the session ends at the cut card
+  const dealtRef = useRef<CardType[]>([]);
+  const nextCheckpointRef = useRef<number>(0);
+  const promptedAtRef = useRef<number>(0);
+
+  const rc = runningCount(dealt, system, decks);
+  const decksRemaining = estimateDecksRemaining(shoeRef.current.cards.length);
+
+  // ── Session control ─────────────────────────────────────────────────────────
+  const startSession = () => {
+    playSound('click');
+    shoeRef.current = createShoe(rules);
+    dealtRef.current = [];
+    nextCheckpointRef.current = nextCheckpointGap();
+    setDealt([]);
+    setAnswers([]);
+    setCheckpointAnswers([]);
+    setPhase('dealing');
+  };
+
+  const finishSession = (sessionAnswers: CheckpointAnswer[]) => {
+    setPhase('summary');
+    if (sessionAnswers.length === 0) return;
+    const correct = sessionAnswers.filter(a => a.isCorrect).length;
+    setHistory(saveCountingSession({
+      date: new Date().toISOString(),
+      system: systemId,
+      decks,
+      cardMs,
+      checkpoints: sessionAnswers.length,
+      correct,
+      avgAnswerMs: Math.round(sessionAnswers.reduce((s, a) => s + a.ms, 0) / sessionAnswers.length),
+    }));
+  };
+
+  // ── Dealing loop ────────────────────────────────────────────────────────────
+  useEffect(() => {
+    if (phase !== 'dealing') return;
+    let prompt: ReturnType<typeof setTimeout> | undefined;
+    const timer = setInterval(() => {
+      if (isCutCardOut(shoeRef.current)) {
+        clearInterval(timer);
+        finishSession(answers);
+        return;
+      }
+      const card = drawCard(shoeRef.current);
+      discardCards(shoeRef.current, [card]); // shown once, then straight to the tray
+      dealtRef.current = [...dealtRef.current, card];
+      setDealt(dealtRef.current);
+      playSound('deal');
+
+      if (dealtRef.current.length >= nextCheckpointRef.current) {
+        clearInterval(timer);
+        nextCheckpointRef.current = dealtRef.current.length + nextCheckpointGap();
+        // Let the last card register before asking
+        prompt = setTimeout(() => {
+          setInput('');
+          setCheckpointAnswers([]);
+          promptedAtRef.current = Date.now();
+          setPhase('running_count');
+        }, cardMs);
+      }
+    }, cardMs);
+    return () => {
+      clearInterval(timer);
+      clearTimeout(prompt);
+    };
+    // answers only change between dealing runs, so the closure above is always current
+  }, [phase, cardMs]);
+
+  // ── Answers ─────────────────────────────────────────────────────────────────
+  const submitAnswer = () => {
+    const answer = parseInt(input, 10);
+    if (isNaN(answer)) return;
+    const ms = Date.now() - promptedAtRef.current;
+
+    let result: CheckpointAnswer;
+    if (phase === 'running_count') {
+      result = { question: 'Running Count', answer, expected: rc, isCorrect: answer === rc, ms };
+    } else {
+      const exact = trueCount(rc, decksRemaining);
+      result = {
+        question: 'True Count', answer, expected: Math.trunc(exact),
+        isCorrect: isTrueCountAnswerCorrect(answer, rc, decksRemaining), ms,
+      };
+    }
+    playSound(result.isCorrect ? 'win' : 'loss');
+
+    const newCheckpoint = [...checkpointAnswers, result];
+    setCheckpointAnswers(newCheckpoint);
+    setAnswers(prev => [...prev, result]);
+    setInput('');
+
+    if (phase === 'running_count' && system.balanced) {
+      promptedAtRef.current = Date.now();
+      setPhase('true_count');
+    } else {
+      setPhase('feedback');
+    }
+  };
+
+  // ── Derived display ─────────────────────────────────────────────────────────
+  const correctCount = answers.filter(a => a.isCorrect).length;
+  const accuracy = answers.length === 0 ? 0 : Math.round((correctCount / answers.length) * 100);
+  const avgSeconds = answers.length === 0 ? 0 : answers.reduce((s, a) => s + a.ms, 0) / answers.length / 1000;
+  const lastCard = dealt[dealt.length - 1];
+
+  return (
+    <div className="flex flex-col min-h-screen w-full">
+      <header className="w-full bg-slate-800 border-b border-slate-700 p-4 flex justify-between items-center z-10 shadow-md">
+        <div className="flex items-center gap-4">
+          <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" /></svg>
+          </button>
+          <h1 className="text-xl font-bold text-amber-400 tracking-wider hidden sm:block">COUNTING <span className="text-white font-normal">MODE</span></h1>
+        </div>
+
+        {phase !== 'setup' && (
+          <div className="flex gap-4 text-sm sm:text-base font-mono">
+            <div className="flex flex-col items-end">
+              <span className="text-slate-400 text-xs uppercase">Accuracy</span>
+              <span className={answers.length > 0 && accuracy > 90 ? 'text-emerald-400' : 'text-white'}>{accuracy}%</span>
+            </div>
+            <div className="flex flex-col items-end">
+              <span className="text-slate-400 text-xs uppercase">Avg Time</span>
+              <span className="text-sky-300">{avgSeconds.toFixed(1)}s</span>
+            </div>
+          </div>
+        )}
+      </header>
+
+      <main className="flex-1 w-full max-w-3xl mx-auto flex flex-col items-center justify-center p-4 gap-8">
+        {phase === 'setup' ? (
+          <div className="w-full space-y-6">
+            <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-6 space-y-5">
+              <div>
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Count System</div>
+                <div className="flex gap-2 flex-wrap">
+                  {COUNT_SYSTEM_IDS.map(id => (
+                    <button
+                      key={id}
+                      onClick={() => { playSound('click'); setSystemId(id); }}
+                      className={`px-4 py-2 rounded-xl text-sm font-bold transition-all active:scale-95
+                        ${systemId === id ? 'bg-amber-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+                    >
+                      {COUNT_SYSTEMS[id].name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Deal Speed</div>
+                <div className="flex gap-2 flex-wrap">
+                  {SPEED_OPTIONS.map(s => (
+                    <button
+                      key={s.ms}
+                      onClick={() => { playSound('click'); setCardMs(s.ms); }}
+                      className={`px-4 py-2 rounded-xl text-sm font-bold transition-all active:scale-95
+                        ${cardMs === s.ms ? 'bg-amber-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+                    >
+                      {s.label} ({(s.ms / 1000).toFixed(s.ms % 1000 === 0 ? 0 : 2)}s)
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {/* Tag table for the chosen system */}
+              <div>
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Tags</div>
+                <div className="grid grid-cols-10 gap-1 text-center font-mono text-xs">
+                  {TAG_RANKS.map(rank => (
+                    <div key={rank} className="bg-slate-900/60 rounded-lg py-1">
+                      <div className="text-slate-400">{rank}</div>
+                      <div className="text-white font-bold">{formatSigned(system.tags[rank])}</div>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-slate-500 text-xs mt-2">
+                  {system.balanced
+                    ? `Balanced — convert to a true count by dividing by decks remaining.`
+                    : `Unbalanced — start at ${formatSigned(initialRunningCount(system, decks))} for ${decks} deck${decks === 1 ? '' : 's'} and play off the running count.`}
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={startSession}
+              className="w-full bg-amber-600 hover:bg-amber-500 active:scale-95 text-white font-bold py-4 rounded-xl text-xl shadow-lg transition-all"
+            >
+              Start Counting ({decks} Deck{decks === 1 ? '' : 's'})
+            </button>
+
+            {history.length > 0 && (
+              <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-6">
+                <h3 className="text-white font-bold mb-4">📈 Recent Sessions</h3>
+                <div className="space-y-2">
+                  {history.slice(0, 10).map(s => (
+                    <div key={s.date} className="flex items-center justify-between bg-slate-900/40 rounded-xl px-4 py-2 text-sm">
+                      <div className="flex flex-col">
+                        <span className="text-white font-bold">{COUNT_SYSTEMS[s.system]?.name ?? s.system}</span>
+                        <span className="text-slate-500 text-xs">{new Date(s.date).toLocaleDateString()} • {(s.cardMs / 1000).toFixed(2)}s/card</span>
+                      </div>
+                      <div className="flex gap-4 font-mono">
+                        <span className={s.correct / s.checkpoints >= 0.9 ? 'text-emerald-400' : 'text-yellow-400'}>
+                          {Math.round((s.correct / s.checkpoints) * 100)}%
+                        </span>
+                        <span className="text-sky-300">{(s.avgAnswerMs / 1000).toFixed(1)}s</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : phase === 'summary' ? (
+          <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-8 text-center w-full max-w-md">
+            <div className="text-5xl mb-4">✂️</div>
+            <h2 className="text-2xl font-bold text-white mb-2">Shoe Complete</h2>
+            <p className="text-slate-400 text-sm mb-6">{dealt.length} cards dealt • final running count {formatSigned(rc)}</p>
+            <div className="grid grid-cols-2 gap-4 mb-6">
+              <div className="bg-slate-900/50 rounded-xl p-4">
+                <div className="text-slate-400 text-xs uppercase">Accuracy</div>
+                <div className="text-2xl font-bold text-white">{correctCount}/{answers.length}</div>
+              </div>
+              <div className="bg-slate-900/50 rounded-xl p-4">
+                <div className="text-slate-400 text-xs uppercase">Avg Answer</div>
+                <div className="text-2xl font-bold text-sky-300">{avgSeconds.toFixed(1)}s</div>
+              </div>
+            </div>
+            <button
+              onClick={() => { playSound('click'); setPhase('setup'); }}
+              className="w-full bg-amber-600 hover:bg-amber-500 active:scale-95 text-white font-bold py-3 rounded-xl text-lg transition-all"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <>
+            {/* Current card */}
+            <div className="flex flex-col items-center">
+              <div className="text-slate-400 text-sm uppercase tracking-widest mb-4">
+                {system.name} • Card {dealt.length}
+              </div>
+              <div className="h-36 sm:h-44 flex items-center">
+                {lastCard && phase === 'dealing' && (
+                  <div key={lastCard.id} className="animate-[dealCard_0.3s_ease-out]">
+                    <Card card={lastCard} />
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Shoe / discard tray */}
+            <ShoeIndicator shoe={shoeInfo(shoeRef.current)} />
+
+            {(phase === 'running_count' || phase === 'true_count') && (
+              <form
+                onSubmit={e => { e.preventDefault(); submitAnswer(); }}
+                className="flex flex-col items-center gap-4"
+              >
+                <div className="text-white text-lg font-bold">
+                  {phase === 'running_count' ? 'What is the running count?' : 'What is the true count?'}
+                </div>
+                {phase === 'true_count' && (
+                  <div className="text-slate-400 text-sm">About {decksRemaining} deck{decksRemaining === 1 ? '' : 's'} remaining</div>
+                )}
+                <div className="flex gap-3">
+                  <input
+                    autoFocus
+                    type="number"
+                    value={input}
+                    onChange={e => setInput(e.target.value)}
+                    className="w-32 bg-slate-900 border border-slate-600 rounded-xl px-4 py-3 text-white text-2xl font-mono text-center focus:outline-none focus:border-amber-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={input.trim() === '' || isNaN(parseInt(input, 10))}
+                    className="bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 disabled:text-slate-500 active:scale-95 text-white font-bold px-6 rounded-xl transition-all"
+                  >
+                    Check
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {phase === 'feedback' && (
+              <div className="flex flex-col items-center gap-4 w-full max-w-md">
+                {checkpointAnswers.map(a => (
+                  <div
+                    key={a.question}
+                    className={`w-full rounded-xl px-4 py-3 flex justify-between items-center border-2
+                      ${a.isCorrect ? 'bg-emerald-900/60 border-emerald-500' : 'bg-red-900/60 border-red-500'}`}
+                  >
+                    <span className="text-white font-bold">{a.isCorrect ? '✅' : '❌'} {a.question}</span>
+                    <span className="font-mono text-white/80 text-sm">
+                      you {formatSigned(a.answer)} • actual {formatSigned(a.expected)} • {(a.ms / 1000).toFixed(1)}s
+                    </span>
+                  </div>
+                ))}
+                <div className="flex gap-3 w-full">
+                  <button
+                    onClick={() => { playSound('click'); finishSession(answers); }}
+                    className="flex-1 bg-slate-600 hover:bg-slate-500 active:scale-95 text-white font-bold py-3 rounded-xl transition-all"
+                  >
+                    End Session
+                  </button>
+                  <button
+                    onClick={() => { playSound('click'); setPhase('dealing'); }}
+                    className="flex-1 bg-amber-600 hover:bg-amber-500 active:scale-95 text-white font-bold py-3 rounded-xl transition-all"
+                  >
+                    Keep Dealing
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      <footer className="w-full text-center p-4 text-slate-600 text-xs">
+        Card Counting • {system.name} • {decks} Deck{decks === 1 ? '' : 's'}
+      </footer>
+    </div>
+  );
+};
+
+export default CountingMode;
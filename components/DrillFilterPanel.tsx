@@ -0,0 +1,124 @@
+import React from 'react';
+import { HandCategory } from '../types';
+import { CATEGORY_TOTALS, DRILL_PRESETS, DrillFilter, filterCells } from '../utils/drill';
+import { DEALER_UPCARDS } from '../utils/strategy';
+import { playSound } from '../utils/sound';
+
+interface DrillFilterPanelProps {
+  filter: DrillFilter;
+  onChange: (filter: DrillFilter) => void;
+  onClose: () => void;
+}
+
+const CATEGORY_LABELS: Record<HandCategory, string> = { hard: 'Hard Totals', soft: 'Soft Totals', pair: 'Pairs' };
+
+const upcardLabel = (up: number) => (up === 11 ? 'A' : String(up));
+
+const totalLabel = (category: HandCategory, total: number): string => {
+  if (category === 'pair') return `${upcardLabel(total)},${upcardLabel(total)}`;
+  if (category === 'soft') return `A,${total - 11}`;
+  return String(total);
+};
+
+const toggle = (values: number[], value: number): number[] =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value].sort((a, b) => a - b);
+
+// Which hands and upcards the drill deals; hands are built to order, not drawn from a shoe
+const DrillFilterPanel: React.FC<DrillFilterPanelProps> = ({ filter, onChange, onClose }) => {
+  const cellCount = filterCells(filter).length;
+
+  const update = (next: DrillFilter) => {
+    playSound('click');
+    onChange(next);
+  };
+
+  const sameAs = (other: DrillFilter) => JSON.stringify(other) === JSON.stringify(filter);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={cellCount > 0 ? onClose : undefined}>
+      <div
+        className="max-w-lg w-full max-h-[90vh] overflow-auto bg-slate-800 rounded-3xl border border-slate-700 p-6 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-white">🎯 Drill Hands</h2>
+          <span className="text-slate-400 text-sm font-mono">{cellCount} hand{cellCount === 1 ? '' : 's'}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-5">
+          {DRILL_PRESETS.map(p => (
+            <button
+              key={p.label}
+              onClick={() => update(p.filter)}
+              className={`text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${sameAs(p.filter) ? 'bg-emerald-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {(Object.keys(CATEGORY_LABELS) as HandCategory[]).map(category => {
+          const all = CATEGORY_TOTALS[category];
+          const selected = filter[category];
+          return (
+            <div key={category} className="mb-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-slate-400 text-xs uppercase tracking-widest">{CATEGORY_LABELS[category]}</span>
+                <button
+                  onClick={() => update({ ...filter, [category]: selected.length === all.length ? [] : [...all] })}
+                  className="text-slate-400 hover:text-white text-xs transition-colors"
+                >
+                  {selected.length === all.length ? 'None' : 'All'}
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {all.map(total => (
+                  <button
+                    key={total}
+                    onClick={() => update({ ...filter, [category]: toggle(selected, total) })}
+                    className={`min-w-[2.5rem] text-xs font-mono font-bold px-2 py-1 rounded-lg transition-colors ${selected.includes(total) ? 'bg-blue-600 text-white' : 'bg-slate-700/60 text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {totalLabel(category, total)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="mb-5">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-slate-400 text-xs uppercase tracking-widest">Dealer Upcards</span>
+            <button
+              onClick={() => update({ ...filter, upcards: filter.upcards.length === DEALER_UPCARDS.length ? [] : [...DEALER_UPCARDS] })}
+              className="text-slate-400 hover:text-white text-xs transition-colors"
+            >
+              {filter.upcards.length === DEALER_UPCARDS.length ? 'None' : 'All'}
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {DEALER_UPCARDS.map(up => (
+              <button
+                key={up}
+                onClick={() => update({ ...filter, upcards: toggle(filter.upcards, up) })}
+                className={`w-9 text-xs font-mono font-bold py-1 rounded-lg transition-colors ${filter.upcards.includes(up) ? 'bg-blue-600 text-white' : 'bg-slate-700/60 text-slate-500 hover:text-slate-300'}`}
+              >
+                {upcardLabel(up)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={onClose}
+          disabled={cellCount === 0}
+          className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold py-3 rounded-xl transition-colors"
+        >
+          {cellCount === 0 ? 'Pick at least one hand and upcard' : 'Drill These Hands'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DrillFilterPanel;
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { RevealedShoe, ShoeCommitment } from '../types';
+import { ObservedShoe, verifyShoe } from '../utils/fairness';
+
+interface FairnessPanelProps {
+    fairness: ShoeCommitment;
+    myClientSeed: string;
+    onClientSeedChange: (seed: string) => void;
+    onRequestReveal: (shoeNumber: number) => void;
+    revealed: RevealedShoe | null; // filled in by the server's 'shoe-reveal'
+    observed: ObservedShoe | undefined; // what this client saw of the revealed shoe
+    onClose: () => void;
+}
+
+// Commitment for the current shoe, and a verifier that rebuilds the last finished shoe
+const FairnessPanel: React.FC<FairnessPanelProps> = ({
+    fairness, myClientSeed, onClientSeedChange, onRequestReveal, revealed, observed, onClose,
+}) => {
+    const [seedInput, setSeedInput] = useState(myClientSeed);
+    const result = useMemo(() => (revealed ? verifyShoe(revealed, observed) : null), [revealed, observed]);
+
+    const failed = result && (!result.hashMatches || !result.traysValid || result.seedIncluded === false || result.mismatchRound !== null);
+    const verified = result && !failed && result.roundsChecked > 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div
+                className="max-w-lg w-full max-h-[90vh] overflow-auto bg-slate-800 rounded-3xl border border-slate-700 p-6 shadow-2xl"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-white">🔒 Provably Fair</h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white text-2xl leading-none">×</button>
+                </div>
+
+                {/* Current shoe */}
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-1">Shoe #{fairness.shoeNumber} commitment</div>
+                <div className="font-mono text-[11px] text-emerald-300 break-all bg-slate-900/60 rounded-lg px-3 py-2 mb-3 select-all">
+                    sha256(server seed) = {fairness.serverSeedHash}
+                </div>
+                <div className="text-slate-400 text-xs uppercase tracking-widest mb-1">Client seeds</div>
+                {fairness.clientSeeds ? (
+                    <ul className="text-xs text-slate-300 font-mono mb-3 space-y-0.5">
+                        {fairness.clientSeeds.map(c => <li key={c.seatId}>{c.name}: {c.seed}</li>)}
+                    </ul>
+                ) : (
+                    <div className="text-xs text-slate-400 mb-3">Locked in when this shoe is shuffled at its first deal.</div>
+                )}
+
+                <form
+                    onSubmit={e => { e.preventDefault(); onClientSeedChange(seedInput.trim()); }}
+                    className="flex gap-2 mb-6"
+                >
+                    <input
+                        value={seedInput}
+                        onChange={e => setSeedInput(e.target.value)}
+                        maxLength={64}
+                        placeholder="Your client seed"
+                        className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm font-mono focus:outline-none focus:border-emerald-500"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!seedInput.trim() || seedInput.trim() === myClientSeed}
+                        className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-bold px-4 rounded-lg transition-all"
+                    >
+                        Use for next shoe
+                    </button>
+                </form>
+
+                {/* Verifier */}
+                <div className="border-t border-slate-700 pt-4">
+                    {fairness.revealedShoe === null ? (
+                        <div className="text-sm text-slate-400">
+                            No finished shoe yet — the server seed is revealed once the cut card comes out.
+                        </div>
+                    ) : (
+                        <>
+                            <button
+                                onClick={() => onRequestReveal(fairness.revealedShoe!)}
+                                className="w-full bg-blue-600 hover:bg-blue-500 active:scale-95 text-white font-bold py-3 rounded-xl transition-all mb-3"
+                            >
+                                Verify Shoe #{fairness.revealedShoe}
+                            </button>
+                            {revealed && (
+                                <div className="text-xs space-y-2">
+                                    <div className="font-mono text-slate-300 break-all">Server seed: {revealed.serverSeed}</div>
+                                    {result && (
+                                        <>
+                                            <div className={result.hashMatches ? 'text-emerald-400' : 'text-red-400'}>
+                                                {result.hashMatches ? '✓' : '✗'} Server seed matches the published commitment
+                                            </div>
+                                            {result.seedIncluded !== null && (
+                                                <div className={result.seedIncluded ? 'text-emerald-400' : 'text-red-400'}>
+                                                    {result.seedIncluded ? '✓ Your client seed was mixed into the shuffle' : '✗ Your client seed is missing from the shuffle'}
+                                                </div>
+                                            )}
+                                            {!result.traysValid && (
+                                                <div className="text-red-400">✗ A reshuffled discard tray holds cards this shoe never dealt</div>
+                                            )}
+                                            {result.roundsChecked === 0 ? (
+                                                <div className="text-amber-400">You saw no rounds of this shoe here, so there is nothing to check the cards against</div>
+                                            ) : (
+                                                <div className={result.mismatchRound === null ? 'text-emerald-400' : 'text-red-400'}>
+                                                    {result.mismatchRound === null
+                                                        ? `✓ All ${result.cardsChecked} cards you saw in ${result.roundsChecked} rounds follow the rebuilt shoe order`
+                                                        : `✗ Round ${result.mismatchRound + 1} you saw does not match the rebuilt shoe`}
+                                                </div>
+                                            )}
+                                            <div className={`text-sm font-bold ${verified ? 'text-emerald-300' : failed ? 'text-red-300' : 'text-amber-300'}`}>
+                                                {verified ? 'Shoe verified' : failed ? 'Shoe failed verification' : 'Shoe not verified'}
+                                            </div>
+                                            <div className="flex flex-wrap gap-1 font-mono text-[10px] text-slate-400">
+                                                {result.rebuilt.slice(0, 52).map((c, i) => (
+                                                    <span key={i} className={result.seen.has(i) ? 'text-white' : ''}>
+                                                        {c.rank}{c.suit}
+                                                    </span>
+                                                ))}
+                                                {result.rebuilt.length > 52 && <span>… {result.rebuilt.length - 52} more</span>}
+                                            </div>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default FairnessPanel;
@@ -5,9 +5,11 @@ import { playSound } from '../utils/sound';
 interface FeedbackProps {
   result: HandResult | null;
   onNext: () => void;
+  nextLabel?: string;
+  children?: React.ReactNode; // extra panel above the button (e.g. a played-out hand's result)
 }
 
-const Feedback: React.FC<FeedbackProps> = ({ result, onNext }) => {
+const Feedback: React.FC<FeedbackProps> = ({ result, onNext, nextLabel = 'Next Hand', children }) => {
   if (!result) return null;
 
   return (
@@ -49,6 +51,25 @@ const Feedback: React.FC<FeedbackProps> = ({ result, onNext }) => {
           </div>
         </div>
 
+        {/* Count index */}
+        {result.indexPlay && (
+          <div className="bg-black/30 p-4 rounded-lg mb-4 text-left border-l-4 border-amber-400/60">
+            <div className="flex gap-2 text-white font-semibold mb-1 items-center">
+              <span>📊</span>
+              <span>Index Play</span>
+              {result.trueCount !== undefined && (
+                <span className="ml-auto text-xs font-mono bg-amber-500/20 text-amber-300 px-2 py-0.5 rounded">
+                  TC {result.trueCount > 0 ? '+' : ''}{result.trueCount}
+                </span>
+              )}
+            </div>
+            <div className="text-gray-200 text-sm leading-relaxed">
+              {result.indexPlay}
+              {result.isDeviation ? ' The count overrides basic strategy here.' : ' Basic strategy applies at this count.'}
+            </div>
+          </div>
+        )}
+
         {/* Detailed Analysis */}
         {result.analysis && (
           <div className="bg-black/20 p-4 rounded-lg mb-4 text-left">
@@ -71,11 +92,13 @@ const Feedback: React.FC<FeedbackProps> = ({ result, onNext }) => {
           </div>
         )}
 
+        {children}
+
         <button
           onClick={() => { playSound('click'); onNext(); }}
           className="w-full bg-white text-slate-900 hover:bg-gray-100 font-bold py-3.5 px-6 rounded-xl text-lg shadow-xl hover:shadow-2xl active:scale-[0.98] transition-all focus:ring-4 focus:ring-white/30 outline-none"
         >
-          Next Hand
+          {nextLabel}
         </button>
       </div>
     </div>
@@ -1,23 +1,62 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { RoomListing, RoomSettings, TableLimits, TableTimers } from '../types';
+import { describeRules } from '../utils/rules';
+import {
+    BET_TIMER_OPTIONS, DEFAULT_LIMITS, DEFAULT_TIMERS, MAX_BET_OPTIONS, MIN_BET_OPTIONS, STARTING_CHIP_OPTIONS, TURN_TIMER_OPTIONS,
+} from '../core/round';
 
 interface MultiplayerLobbyProps {
-    onCreateRoom: (name: string) => void;
-    onJoinRoom: (name: string, code: string) => void;
+    onCreateRoom: (name: string, settings: RoomSettings) => void;
+    onJoinRoom: (name: string, code: string, spectate: boolean, password: string) => void; // spectate = watch without joining the wait-list
+    onQuickJoin: (name: string) => void;
+    rooms: RoomListing[];  // open public tables, refreshed by onListRooms
+    onListRooms: () => void;
     roomCode: string | null;
     error: string | null;
     connected: boolean;
     onBack: () => void;
     userName?: string;  // pre-filled from logged-in user
+    rulesLabel?: string; // rules a newly created room will use
+    clientSeed: string;  // contributed to every shoe shuffled while seated
+    onClientSeedChange: (seed: string) => void;
 }
 
 const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
-    onCreateRoom, onJoinRoom, roomCode, error, connected, onBack, userName,
+    onCreateRoom, onJoinRoom, onQuickJoin, rooms, onListRooms, roomCode, error, connected, onBack, userName, rulesLabel, clientSeed,
+    onClientSeedChange,
 }) => {
     const [name, setName] = useState(userName || '');
     const [code, setCode] = useState('');
-    const [mode, setMode] = useState<'choose' | 'create' | 'join'>('choose');
+    const [mode, setMode] = useState<'choose' | 'create' | 'join' | 'browse'>('choose');
+    const [settings, setSettings] = useState<RoomSettings>({
+        timers: DEFAULT_TIMERS, limits: DEFAULT_LIMITS, password: '', isPublic: false,
+    });
+    const [joinPassword, setJoinPassword] = useState('');
+
+    const setTimer = (key: keyof TableTimers, seconds: number) =>
+        setSettings(s => ({ ...s, timers: { ...s.timers, [key]: seconds } }));
+    const setLimit = (key: keyof TableLimits, chips: number) =>
+        setSettings(s => ({ ...s, limits: { ...s.limits, [key]: chips } }));
 
     const nameValid = name.trim().length >= 1 && connected;
+
+    // The browser refreshes itself while it is open
+    useEffect(() => {
+        if (mode !== 'browse' || !connected) return;
+        onListRooms();
+        const timer = setInterval(onListRooms, 5000);
+        return () => clearInterval(timer);
+    }, [mode, connected, onListRooms]);
+
+    const joinListed = (listing: RoomListing, spectate: boolean) => {
+        if (listing.hasPassword) {
+            // The password goes in on the join form
+            setCode(listing.code);
+            setMode('join');
+            return;
+        }
+        onJoinRoom(name.trim(), listing.code, spectate, '');
+    };
     const isLoggedIn = !!userName;
 
     return (
@@ -58,6 +97,22 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
                     )}
                 </div>
 
+                {/* Client seed — mixed into the server seed for a provably fair shuffle */}
+                {mode !== 'choose' && !roomCode && (
+                    <div className="mb-6">
+                        <label className="text-slate-400 text-xs uppercase tracking-widest mb-2 block">Client Seed 🔒</label>
+                        <input
+                            type="text"
+                            value={clientSeed}
+                            onChange={e => onClientSeedChange(e.target.value)}
+                            maxLength={64}
+                            className="w-full bg-slate-700/60 border border-slate-600 rounded-xl px-4 py-2 text-white font-mono text-sm
+                  focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all"
+                        />
+                        <div className="text-slate-500 text-xs mt-1">Every seated player's seed goes into each shuffle, so the server can't pick the shoe alone.</div>
+                    </div>
+                )}
+
                 {error && (
                     <div className="bg-red-600/20 border border-red-500/40 rounded-xl px-4 py-3 mb-4 text-red-300 text-sm">
                         {error}
@@ -76,6 +131,7 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
                                 <div className="text-left">
                                     <div className="text-xl font-bold">Create Room</div>
                                     <div className="text-emerald-200 text-sm">Get a code for friends</div>
+                                    {rulesLabel && <div className="text-emerald-200/60 text-xs mt-1">{rulesLabel}</div>}
                                 </div>
                                 <span className="text-3xl opacity-60 group-hover:opacity-100 transition-opacity">🏠</span>
                             </div>
@@ -95,6 +151,84 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
                                 <span className="text-3xl opacity-60 group-hover:opacity-100 transition-opacity">🔗</span>
                             </div>
                         </button>
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => onQuickJoin(name.trim())}
+                                disabled={!nameValid}
+                                className="flex-1 bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 disabled:text-slate-500
+                  active:scale-95 text-white font-bold py-3 rounded-xl shadow-lg transition-all"
+                            >
+                                Quick Join ⚡
+                            </button>
+                            <button
+                                onClick={() => setMode('browse')}
+                                disabled={!nameValid}
+                                className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600
+                  active:scale-95 text-white font-bold py-3 rounded-xl shadow-lg transition-all"
+                            >
+                                Browse Tables 🗂️
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {mode === 'browse' && (
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-slate-400 text-xs uppercase tracking-widest">Public Tables ({rooms.length})</span>
+                            <button onClick={onListRooms} className="text-slate-400 hover:text-white text-xs transition-colors">↻ Refresh</button>
+                        </div>
+                        {rooms.length === 0 && (
+                            <div className="text-center text-slate-500 text-sm py-6">
+                                No open tables right now — create one or use Quick Join.
+                            </div>
+                        )}
+                        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                            {rooms.map(listing => (
+                                <div key={listing.code} className="bg-slate-700/40 rounded-xl px-4 py-3">
+                                    <div className="flex items-center justify-between mb-1">
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-emerald-400 font-mono font-bold tracking-widest">{listing.code}</span>
+                                            <span className="text-slate-300 text-sm">{listing.hostName}</span>
+                                            {listing.hasPassword && <span className="text-xs" title="Password protected">🔑</span>}
+                                        </div>
+                                        <span className="text-slate-400 text-xs">
+                                            {listing.phase === 'lobby' ? 'Not started' : listing.phase === 'betting' ? 'Betting' : 'In play'}
+                                        </span>
+                                    </div>
+                                    <div className="text-slate-500 text-[11px] mb-2">{describeRules(listing.rules)}</div>
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-slate-400 text-xs">
+                                            🪑 {listing.seated}/{listing.seats}
+                                            {listing.waiting > 0 && ` · ${listing.waiting} waiting`}
+                                            {' · '}🪙 {listing.limits.minBet}–{listing.limits.maxBet ? listing.limits.maxBet.toLocaleString() : '∞'}
+                                        </span>
+                                        <div className="flex gap-2">
+                                            <button
+                                                onClick={() => joinListed(listing, true)}
+                                                className="bg-slate-600 hover:bg-slate-500 text-white text-xs font-bold px-3 py-1 rounded-lg transition-colors"
+                                            >
+                                                Watch
+                                            </button>
+                                            <button
+                                                onClick={() => joinListed(listing, false)}
+                                                disabled={listing.seated + listing.waiting >= listing.seats}
+                                                className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white text-xs font-bold px-3 py-1 rounded-lg transition-colors"
+                                            >
+                                                Join
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setMode('choose')}
+                            className="w-full text-slate-400 hover:text-white text-sm transition-colors py-2"
+                        >
+                            ← Back
+                        </button>
                     </div>
                 )}
 
@@ -109,14 +243,83 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
                                 <div className="text-slate-400 text-sm">Share this code with friends to join</div>
                             </div>
                         ) : (
-                            <button
-                                onClick={() => onCreateRoom(name.trim())}
-                                disabled={!nameValid}
-                                className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500
-                  active:scale-95 text-white font-bold py-4 px-8 rounded-xl text-lg shadow-lg transition-all"
-                            >
-                                Create Room 🚀
-                            </button>
+                            <>
+                                <div>
+                                    <label className="text-slate-400 text-xs uppercase tracking-widest mb-2 block">Visibility</label>
+                                    <div className="flex gap-2">
+                                        {[false, true].map(isPublic => (
+                                            <button
+                                                key={String(isPublic)}
+                                                onClick={() => setSettings(s => ({ ...s, isPublic }))}
+                                                className={`flex-1 py-2 rounded-xl text-sm font-bold transition-all ${settings.isPublic === isPublic
+                                                    ? 'bg-emerald-600 text-white'
+                                                    : 'bg-slate-700/60 text-slate-400 hover:bg-slate-700'}`}
+                                            >
+                                                {isPublic ? 'Public — listed' : 'Private — code only'}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                {/* Clocks — idle players are stood, or sat out of the deal */}
+                                <ChoiceRow
+                                    label="Turn Timer"
+                                    options={TURN_TIMER_OPTIONS}
+                                    value={settings.timers.turnSeconds}
+                                    format={formatSeconds}
+                                    onChange={v => setTimer('turnSeconds', v)}
+                                />
+                                <ChoiceRow
+                                    label="Betting Timer"
+                                    options={BET_TIMER_OPTIONS}
+                                    value={settings.timers.betSeconds}
+                                    format={formatSeconds}
+                                    onChange={v => setTimer('betSeconds', v)}
+                                />
+
+                                {/* Table limits — enforced by the server on every bet */}
+                                <ChoiceRow
+                                    label="Minimum Bet"
+                                    options={MIN_BET_OPTIONS}
+                                    value={settings.limits.minBet}
+                                    onChange={v => setLimit('minBet', v)}
+                                />
+                                <ChoiceRow
+                                    label="Maximum Bet"
+                                    options={MAX_BET_OPTIONS}
+                                    value={settings.limits.maxBet}
+                                    format={v => (v ? v.toLocaleString() : 'None')}
+                                    onChange={v => setLimit('maxBet', v)}
+                                />
+                                <ChoiceRow
+                                    label="Starting Chips (guests)"
+                                    options={STARTING_CHIP_OPTIONS}
+                                    value={settings.limits.startingChips}
+                                    format={v => v.toLocaleString()}
+                                    onChange={v => setLimit('startingChips', v)}
+                                />
+
+                                <div>
+                                    <label className="text-slate-400 text-xs uppercase tracking-widest mb-2 block">Room Password</label>
+                                    <input
+                                        type="text"
+                                        value={settings.password}
+                                        onChange={e => setSettings(s => ({ ...s, password: e.target.value }))}
+                                        placeholder="Optional"
+                                        maxLength={32}
+                                        className="w-full bg-slate-700/60 border border-slate-600 rounded-xl px-4 py-2 text-white text-sm
+                      placeholder-slate-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all"
+                                    />
+                                </div>
+                                <button
+                                    onClick={() => onCreateRoom(name.trim(), settings)}
+                                    disabled={!nameValid}
+                                    className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500
+                      active:scale-95 text-white font-bold py-4 px-8 rounded-xl text-lg shadow-lg transition-all"
+                                >
+                                    Create Room 🚀
+                                </button>
+                            </>
                         )}
                         <button
                             onClick={() => { setMode('choose'); }}
@@ -142,14 +345,34 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
                   focus:ring-1 focus:ring-blue-500 transition-all"
                             />
                         </div>
+                        <input
+                            type="text"
+                            value={joinPassword}
+                            onChange={e => setJoinPassword(e.target.value)}
+                            placeholder="Password (if the room has one)"
+                            maxLength={32}
+                            className="w-full bg-slate-700/60 border border-slate-600 rounded-xl px-4 py-2 text-white text-sm
+                placeholder-slate-500 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-all"
+                        />
                         <button
-                            onClick={() => onJoinRoom(name.trim(), code)}
+                            onClick={() => onJoinRoom(name.trim(), code, false, joinPassword)}
                             disabled={!nameValid || code.length !== 4}
                             className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500
                 active:scale-95 text-white font-bold py-4 px-8 rounded-xl text-lg shadow-lg transition-all"
                         >
                             Join Room 🔗
                         </button>
+                        <button
+                            onClick={() => onJoinRoom(name.trim(), code, true, joinPassword)}
+                            disabled={!nameValid || code.length !== 4}
+                            className="w-full bg-slate-700 hover:bg-slate-600 disabled:bg-slate-800 disabled:text-slate-600
+                active:scale-95 text-white font-bold py-3 px-8 rounded-xl shadow-lg transition-all"
+                        >
+                            Watch 👀
+                        </button>
+                        <div className="text-slate-500 text-xs text-center">
+                            Tables in play or full seat you at the next betting round — until then you watch from the wait-list.
+                        </div>
                         <button
                             onClick={() => { setMode('choose'); setCode(''); }}
                             className="w-full text-slate-400 hover:text-white text-sm transition-colors py-2"
@@ -163,4 +386,31 @@ const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({
     );
 };
 
+const formatSeconds = (s: number) => (s ? `${s}s` : 'Off');
+
+const ChoiceRow: React.FC<{
+    label: string;
+    options: readonly number[];
+    value: number;
+    format?: (option: number) => string;
+    onChange: (option: number) => void;
+}> = ({ label, options, value, format = String, onChange }) => (
+    <div>
+        <label className="text-slate-400 text-xs uppercase tracking-widest mb-2 block">{label}</label>
+        <div className="flex gap-2">
+            {options.map(option => (
+                <button
+                    key={option}
+                    onClick={() => onChange(option)}
+                    className={`flex-1 py-2 rounded-xl text-sm font-bold transition-all ${value === option
+                        ? 'bg-emerald-600 text-white'
+                        : 'bg-slate-700/60 text-slate-400 hover:bg-slate-700'}`}
+                >
+                    {format(option)}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
 export default MultiplayerLobby;
@@ -1,18 +1,38 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { io, Socket } from 'socket.io-client';
 import Card from './Card';
 import MultiplayerLobby from './MultiplayerLobby';
+import ShoeIndicator from './ShoeIndicator';
+import FairnessPanel from './FairnessPanel';
+import TableChat from './TableChat';
 import { playSound, speak } from '../utils/sound';
-import { calculateHandValue, isStrictPair } from '../utils/deck';
-import { SerializedRoom, SerializedPlayer, Card as CardType } from '../types';
-import { UserProfile } from '../utils/api';
+import { calculateHandValue } from '../utils/deck';
+import { randomSeed } from '../utils/random';
+import { ObservedShoe } from '../utils/fairness';
+import { seatIdFor } from '../core/random';
+import { DEFAULT_RULES, describeRules, isDoubleAllowed, isSplitAllowed, isSurrenderAllowed, maxInsuranceBet } from '../utils/rules';
+import {
+    SerializedRoom, SerializedPlayer, Card as CardType, ChatMessage, ChatReaction, Reaction, RevealedShoe, RoomListing, RoomSettings, RoundRejection, TableLimits,
+    TableRules, TableTimers,
+} from '../types';
+import { UserProfile, getToken } from '../utils/api';
+import { CHAT_HISTORY_SIZE } from '../core/chat';
 
 interface MultiplayerModeProps {
     onBack: () => void;
     user?: UserProfile | null;
+    rules?: TableRules; // used when this player creates a room
 }
 
 const CHIP_VALUES = [10, 25, 100, 500] as const;
+const REACTION_MS = 3000;
+const OBSERVED_SHOE_LIMIT = 5; // the server keeps its last five shoes revealed
+
+const describeTimers = (t: TableTimers): string =>
+    `${t.turnSeconds ? `${t.turnSeconds}s turns` : 'Untimed turns'} · ${t.betSeconds ? `${t.betSeconds}s betting` : 'Untimed betting'}`;
+
+const describeLimits = (l: TableLimits): string =>
+    `Bets ${l.minBet}–${l.maxBet ? l.maxBet.toLocaleString() : 'no limit'} · guests start with ${l.startingChips.toLocaleString()}`;
 // In dev, Socket.IO goes through Vite's proxy (same origin, port 3000).
 // In production, set VITE_MP_SERVER to the deployed server URL.
 const SERVER_URL = (import.meta as any).env?.VITE_MP_SERVER ?? '';
@@ -35,6 +55,16 @@ function getOrCreatePlayerId(): string {
     return id;
 }
 
+// Client seed mixed into every shoe this player is seated for; kept for the session
+function getOrCreateClientSeed(): string {
+    let seed = sessionStorage.getItem('bj_clientSeed');
+    if (!seed) {
+        seed = randomSeed();
+        sessionStorage.setItem('bj_clientSeed', seed);
+    }
+    return seed;
+}
+
 function saveSession(roomCode: string, playerName: string) {
     sessionStorage.setItem('bj_roomCode', roomCode);
     sessionStorage.setItem('bj_playerName', playerName);
@@ -44,15 +74,27 @@ function getSession() {
     return {
         roomCode: sessionStorage.getItem('bj_roomCode'),
         playerName: sessionStorage.getItem('bj_playerName'),
+        rejoinToken: getRejoinToken(),
     };
 }
 
+// The server hands each seat a secret on arrival; a guest needs it to take the seat back.
+// It is kept across tables and tabs and shown on every arrival, so it is also how the
+// server knows a guest the host has removed.
+function getRejoinToken(): string | null {
+    return localStorage.getItem('bj_rejoinToken');
+}
+
+function saveRejoinToken(rejoinToken: string) {
+    localStorage.setItem('bj_rejoinToken', rejoinToken);
+}
+
 function clearSession() {
     sessionStorage.removeItem('bj_roomCode');
     sessionStorage.removeItem('bj_playerName');
 }
 
-const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
+const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user, rules = DEFAULT_RULES }) => {
     const socketRef = useRef<Socket | null>(null);
     const [connected, setConnected] = useState(false);
     const [room, setRoom] = useState<SerializedRoom | null>(null);
@@ -61,9 +103,20 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
     const [betAmount, setBetAmount] = useState(0);
     const [message, setMessage] = useState('');
     const [rejoining, setRejoining] = useState(false);
+    const [clientSeed, setClientSeed] = useState(getOrCreateClientSeed);
+    const [showFairness, setShowFairness] = useState(false);
+    const [revealedShoe, setRevealedShoe] = useState<RevealedShoe | null>(null);
+    const [rejection, setRejection] = useState<string | null>(null); // last command the table refused
+    const [secondsLeft, setSecondsLeft] = useState<number | null>(null); // betting / turn clock
+    const [roomPassword, setRoomPassword] = useState(''); // host's next password for the room
+    const [roomList, setRoomList] = useState<RoomListing[]>([]); // public tables for the lobby browser
+    const [chat, setChat] = useState<ChatMessage[]>([]);
+    const [reactions, setReactions] = useState<(ChatReaction & { key: number })[]>([]); // on screen for REACTION_MS
 
     // Stable player identity
     const myPlayerId = useRef(getOrCreatePlayerId()).current;
+    // What the rest of the table knows us by; the playerId itself is only ever sent to the server
+    const mySeatId = useMemo(() => seatIdFor(myPlayerId), [myPlayerId]);
 
     // Deal animation state: -1 = no animation, 0+ = current step in reveal sequence
     const [dealStep, setDealStep] = useState(-1);
@@ -82,7 +135,9 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
             const session = getSession();
             if (session.roomCode) {
                 setRejoining(true);
-                socket.emit('rejoin-room', { playerId: myPlayerId, code: session.roomCode });
+                socket.emit('rejoin-room', {
+                    playerId: myPlayerId, code: session.roomCode, rejoinToken: session.rejoinToken, token: getToken(),
+                });
             }
         });
         socket.on('disconnect', () => setConnected(false));
@@ -90,14 +145,36 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
             setError('Cannot connect to server. Check your network.');
         });
 
-        socket.on('room-created', ({ code }: { code: string }) => {
+        socket.on('room-created', ({ code, rejoinToken }: { code: string; rejoinToken: string }) => {
+            saveRejoinToken(rejoinToken);
             setRoomCode(code);
+            setChat([]);
         });
-        socket.on('room-joined', ({ code }: { code: string }) => {
+        socket.on('room-joined', ({ code, rejoinToken }: { code: string; rejoinToken: string }) => {
+            saveRejoinToken(rejoinToken);
             setRoomCode(code);
         });
         socket.on('room-update', (data: SerializedRoom) => setRoom(data));
         socket.on('error-msg', (msg: string) => setError(msg));
+        socket.on('room-closed', (msg: string) => {
+            clearSession();
+            setRoom(null);
+            setRoomCode(null);
+            setChat([]);
+            setError(msg);
+        });
+        socket.on('room-list', (list: RoomListing[]) => setRoomList(list));
+        socket.on('shoe-reveal', (data: RevealedShoe) => setRevealedShoe(data));
+        socket.on('action-rejected', (r: RoundRejection) => setRejection(r.message));
+
+        // Chat: the history arrives on joining (or rejoining), then messages one at a time
+        socket.on('chat-history', (history: ChatMessage[]) => setChat(history));
+        socket.on('chat-message', (message: ChatMessage) => setChat(prev => [...prev, message].slice(-CHAT_HISTORY_SIZE)));
+        socket.on('chat-reaction', (reaction: ChatReaction) => {
+            const key = Date.now() + Math.random();
+            setReactions(prev => [...prev, { ...reaction, key }]);
+            setTimeout(() => setReactions(prev => prev.filter(r => r.key !== key)), REACTION_MS);
+        });
 
         // Rejoin results
         socket.on('rejoin-success', ({ code }: { code: string }) => {
@@ -112,6 +189,48 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         return () => { socket.disconnect(); };
     }, [myPlayerId]);
 
+    useEffect(() => {
+        if (!rejection) return;
+        const timer = setTimeout(() => setRejection(null), 3000);
+        return () => clearTimeout(timer);
+    }, [rejection]);
+
+    // ── What this client saw of each shoe, checked by the verifier once it is revealed ──
+    const observedShoesRef = useRef(new Map<string, ObservedShoe>()); // by `${room code}#${shoe number}`
+    const recordedPhaseRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!room) return;
+        const shoes = observedShoesRef.current;
+        const key = `${room.code}#${room.fairness.shoeNumber}`;
+        const observed = shoes.get(key) ?? { clientSeed: null, rounds: [] };
+        shoes.set(key, observed);
+        // Seated before the shuffle: the seed we sent has to be mixed into this shoe
+        const me = room.players.find(p => p.seatId === mySeatId);
+        if (room.fairness.clientSeeds === null && me && !me.disconnected) observed.clientSeed = clientSeed;
+        const prev = recordedPhaseRef.current;
+        recordedPhaseRef.current = room.phase;
+        if (room.phase === 'results' && prev !== 'results') {
+            observed.rounds.push([...room.dealerHand, ...room.players.flatMap(p => p.hands.flatMap(h => h.cards))]);
+        }
+        for (const k of shoes.keys()) {
+            const [code, number] = k.split('#');
+            if (code !== room.code || Number(number) <= room.fairness.shoeNumber - OBSERVED_SHOE_LIMIT) shoes.delete(k);
+        }
+    }, [room, clientSeed, mySeatId]);
+
+    // ── Betting / turn clock (the server sends the time left with each update) ──
+    useEffect(() => {
+        if (!room || room.countdownMs === null) {
+            setSecondsLeft(null);
+            return;
+        }
+        const endsAt = Date.now() + room.countdownMs;
+        const tick = () => setSecondsLeft(Math.max(0, Math.ceil((endsAt - Date.now()) / 1000)));
+        tick();
+        const timer = setInterval(tick, 250);
+        return () => clearInterval(timer);
+    }, [room]);
+
     // ── Sound effects based on phase transitions + deal animation ──
     const prevPhaseRef = useRef<string | null>(null);
     const prevActiveRef = useRef<string | null>(null);
@@ -122,7 +241,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
 
         if (prev !== room.phase) {
             // Initial deal → start card-by-card animation
-            if (room.phase === 'player_turns' && prev === 'betting') {
+            if ((room.phase === 'player_turns' || room.phase === 'insurance' || room.phase === 'early_surrender') && prev === 'betting') {
                 const connectedPlayers = room.players.filter(p => !p.disconnected);
                 const totalSteps = connectedPlayers.length * 2 + 2; // 2 cards per player + 2 dealer
                 setDealStep(0);
@@ -135,7 +254,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                         dealTimerRef.current = null;
                         setDealStep(-1);
                         // Announce only my total after deal completes
-                        const mePlayer = room.players.find(p => p.playerId === myPlayerId);
+                        const mePlayer = room.players.find(p => p.seatId === mySeatId);
                         if (mePlayer && mePlayer.hands[0]?.cards.length >= 2) {
                             const { total } = calculateHandValue(mePlayer.hands[0].cards);
                             if (total === 21) {
@@ -157,7 +276,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                 speak(`${dTotal}`, 1.3, 1.0);
             }
             if (room.phase === 'results') {
-                const me = room.players.find(p => p.playerId === myPlayerId);
+                const me = room.players.find(p => p.seatId === mySeatId);
                 if (me) {
                     const wins = me.hands.filter(h => h.result === 'win').length;
                     const losses = me.hands.filter(h => h.result === 'loss').length;
@@ -172,22 +291,22 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         }
 
         // Announce when active player changes to someone else
-        if (room.phase === 'player_turns' && room.activePlayerId && room.activePlayerId !== myPlayerId) {
+        if (room.phase === 'player_turns' && room.activeSeatId && room.activeSeatId !== mySeatId) {
             const prevActive = prevActiveRef.current;
-            if (room.activePlayerId !== prevActive) {
-                const activePlayer = room.players.find(p => p.playerId === room.activePlayerId);
+            if (room.activeSeatId !== prevActive) {
+                const activePlayer = room.players.find(p => p.seatId === room.activeSeatId);
                 if (activePlayer && activePlayer.hands.length > 0) {
                     const { total } = calculateHandValue(activePlayer.hands[0].cards);
                     speak(`${activePlayer.name}, ${total}`, 1.0, 1.0);
                 }
             }
         }
-        prevActiveRef.current = room.activePlayerId;
+        prevActiveRef.current = room.activeSeatId;
 
         return () => {
             if (dealTimerRef.current) clearInterval(dealTimerRef.current);
         };
-    }, [room, myPlayerId]);
+    }, [room, mySeatId]);
 
     // Helper: compute deal order index for a given card
     // Real blackjack order: round 1 (card 0) to all players then dealer, round 2 (card 1) to all players then dealer
@@ -208,7 +327,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
             // Still update counts so we don't false-trigger after animation ends
             const newCounts: Record<string, number> = {};
             for (const player of room.players) {
-                newCounts[player.playerId] = player.hands.reduce((sum, h) => sum + h.cards.length, 0);
+                newCounts[player.seatId] = player.hands.reduce((sum, h) => sum + h.cards.length, 0);
             }
             newCounts['__dealer__'] = room.dealerHand.length;
             prevCardCountsRef.current = newCounts;
@@ -222,9 +341,9 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         // Check each player's hands
         for (const player of room.players) {
             const totalCards = player.hands.reduce((sum, h) => sum + h.cards.length, 0);
-            newCounts[player.playerId] = totalCards;
+            newCounts[player.seatId] = totalCards;
 
-            if (prev[player.playerId] !== undefined && totalCards > prev[player.playerId]) {
+            if (prev[player.seatId] !== undefined && totalCards > prev[player.seatId]) {
                 for (const hand of player.hands) {
                     if (hand.cards.length > 0) {
                         const { total } = calculateHandValue(hand.cards);
@@ -260,25 +379,35 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         announcements.forEach(({ text, rate, pitch }, i) => {
             setTimeout(() => speak(text, rate, pitch), i * 700);
         });
-    }, [room, myPlayerId, dealStep]);
+    }, [room, mySeatId, dealStep]);
 
     // ── Actions ──
     const emit = useCallback((event: string, data: Record<string, unknown>) => {
         socketRef.current?.emit(event, data);
     }, []);
 
-    const handleCreateRoom = (name: string) => {
+    const handleCreateRoom = (name: string, settings: RoomSettings) => {
         setError(null);
         saveSession('', name); // save name now, code comes from server
-        emit('create-room', { name, playerId: myPlayerId });
+        emit('create-room', { name, playerId: myPlayerId, rules, ...settings, clientSeed, token: getToken(), rejoinToken: getRejoinToken() });
     };
 
-    const handleJoinRoom = (name: string, code: string) => {
+    const handleJoinRoom = (name: string, code: string, spectate: boolean, password: string) => {
         setError(null);
         saveSession(code, name);
-        emit('join-room', { code, name, playerId: myPlayerId });
+        emit('join-room', {
+            code, name, playerId: myPlayerId, clientSeed, token: getToken(), rejoinToken: getRejoinToken(), spectate, password,
+        });
+    };
+
+    const handleQuickJoin = (name: string) => {
+        setError(null);
+        saveSession('', name); // the server picks the table
+        emit('quick-join', { name, playerId: myPlayerId, rules, clientSeed, token: getToken(), rejoinToken: getRejoinToken() });
     };
 
+    const handleListRooms = useCallback(() => emit('list-rooms', {}), [emit]);
+
     // Save room code when we get it from server
     useEffect(() => {
         if (roomCode) {
@@ -287,6 +416,13 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         }
     }, [roomCode]);
 
+    const handleClientSeedChange = (seed: string) => {
+        setClientSeed(seed);
+        if (!seed.trim()) return; // the server picks one for an empty seed
+        sessionStorage.setItem('bj_clientSeed', seed);
+        if (room) emit('client-seed', { code: room.code, seed });
+    };
+
     const handleStartGame = () => {
         if (!roomCode) return;
         emit('start-game', { code: roomCode });
@@ -304,6 +440,51 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
         emit('player-action', { code: roomCode, action, handIndex: handIndex ?? 0 });
     };
 
+    const handleInsurance = (take: boolean) => {
+        if (!roomCode) return;
+        playSound('click');
+        emit('insurance', { code: roomCode, take });
+    };
+
+    const handleEarlySurrender = (surrender: boolean) => {
+        if (!roomCode) return;
+        playSound('click');
+        emit('early-surrender', { code: roomCode, surrender });
+    };
+
+    // ── Host controls ──
+    const handleKick = (seatId: string) => {
+        if (!roomCode) return;
+        emit('kick-player', { code: roomCode, seatId });
+    };
+
+    const handleTransferHost = (seatId: string) => {
+        if (!roomCode) return;
+        emit('transfer-host', { code: roomCode, seatId });
+    };
+
+    const handleRoomAccess = (access: { locked?: boolean; password?: string }) => {
+        if (!roomCode) return;
+        playSound('click');
+        emit('room-access', { code: roomCode, ...access });
+    };
+
+    const handleRequestSeat = () => {
+        if (!roomCode) return;
+        playSound('click');
+        emit('request-seat', { code: roomCode });
+    };
+
+    const handleSendChat = (text: string) => {
+        if (!roomCode) return;
+        emit('chat-message', { code: roomCode, text });
+    };
+
+    const handleReact = (emoji: Reaction) => {
+        if (!roomCode) return;
+        emit('chat-reaction', { code: roomCode, emoji });
+    };
+
     const handleNextRound = () => {
         if (!roomCode) return;
         playSound('click');
@@ -335,23 +516,96 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
             <MultiplayerLobby
                 onCreateRoom={handleCreateRoom}
                 onJoinRoom={handleJoinRoom}
+                onQuickJoin={handleQuickJoin}
+                rooms={roomList}
+                onListRooms={handleListRooms}
                 roomCode={roomCode}
                 error={error}
                 connected={connected}
                 onBack={handleLeave}
                 userName={user?.display_name}
+                rulesLabel={describeRules(rules)}
+                clientSeed={clientSeed}
+                onClientSeedChange={handleClientSeedChange}
             />
         );
     }
 
     // ── Derived state ──
-    const me = room.players.find(p => p.playerId === myPlayerId);
-    const isHost = room.hostId === myPlayerId;
-    const isMyTurn = room.activePlayerId === myPlayerId;
+    const me = room.players.find(p => p.seatId === mySeatId);
+    const isHost = room.hostSeatId === mySeatId;
+    const isMyTurn = room.activeSeatId === mySeatId;
     const connectedPlayers = room.players.filter(p => !p.disconnected);
+    const betCap = me ? (room.limits.maxBet ? Math.min(me.chips, room.limits.maxBet) : me.chips) : 0; // most the chips can add up to
     const dealerTotal = room.dealerHand.length > 0 ? calculateHandValue(room.dealerHand).total : 0;
     const dealerUpTotal = room.dealerHand.length > 0 ? calculateHandValue([room.dealerHand[0]]).total : 0;
-    const showDealerHole = room.phase !== 'player_turns';
+    // The server sends a face-down placeholder until the dealer turn
+    const showDealerHole = !room.dealerHand.some(c => c.faceDown);
+
+    // Spectators watch without a seat; the waiting ones are seated, in order, when bets open
+    const mySpectator = room.spectators.find(s => s.seatId === mySeatId);
+    const waitList = room.spectators.filter(s => s.waiting);
+    const watchers = room.spectators.filter(s => !s.waiting);
+
+    const spectatorBar = (mySpectator || room.spectators.length > 0) && (
+        <div className="bg-slate-800/60 border border-slate-700 rounded-xl px-4 py-2 mb-4 text-xs text-slate-400 flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
+            {mySpectator && (
+                <span className="flex items-center gap-2 text-slate-200">
+                    👀 You are watching
+                    {mySpectator.waiting ? (
+                        <span className="text-amber-300">· #{waitList.indexOf(mySpectator) + 1} on the wait-list, seated when bets open</span>
+                    ) : (
+                        <button
+                            onClick={handleRequestSeat}
+                            className="bg-emerald-600 hover:bg-emerald-500 active:scale-95 text-white font-bold px-3 py-1 rounded-lg transition-all"
+                        >
+                            Take a Seat
+                        </button>
+                    )}
+                </span>
+            )}
+            {waitList.length > 0 && (
+                <span>🪑 Wait-list: {waitList.map((s, i) => `${i + 1}. ${s.name}`).join(' · ')}</span>
+            )}
+            {watchers.length > 0 && (
+                <span>👀 Watching: {watchers.map(s => s.name).join(', ')}</span>
+            )}
+        </div>
+    );
+
+    const tableChat = (
+        <TableChat
+            messages={chat}
+            reactions={reactions}
+            mySeatId={mySeatId}
+            onSend={handleSendChat}
+            onReact={handleReact}
+        />
+    );
+
+    // A seated player's latest reaction also pops up by their name
+    const seatReaction = (seatId: string) => {
+        const latest = reactions.filter(r => r.seatId === seatId).pop();
+        return latest && <span key={latest.key} className="text-lg animate-bounce">{latest.emoji}</span>;
+    };
+
+    const rejectionToast = rejection && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 bg-red-900/90 border border-red-600 text-red-100 text-sm px-4 py-2 rounded-xl shadow-lg z-40">
+            {rejection}
+        </div>
+    );
+
+    const fairnessPanel = showFairness && (
+        <FairnessPanel
+            fairness={room.fairness}
+            myClientSeed={me?.clientSeed ?? clientSeed}
+            onClientSeedChange={handleClientSeedChange}
+            onRequestReveal={shoeNumber => emit('get-shoe-reveal', { code: room.code, shoeNumber })}
+            revealed={revealedShoe}
+            observed={revealedShoe ? observedShoesRef.current.get(`${room.code}#${revealedShoe.shoeNumber}`) : undefined}
+            onClose={() => setShowFairness(false)}
+        />
+    );
 
     // ── Lobby phase ──
     if (room.phase === 'lobby') {
@@ -366,30 +620,107 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                         </div>
                     </div>
 
+                    <div className="bg-slate-700/30 rounded-xl px-4 py-2 mb-6 text-center text-slate-400 text-xs">
+                        {describeRules(room.rules)}
+                        <div className="mt-1">⏱ {describeTimers(room.timers)}</div>
+                        <div className="mt-1">🪙 {describeLimits(room.limits)}</div>
+                        <div className="mt-1">{room.isPublic ? '🌐 Listed in the public lobby' : '🔗 Private — join by code'}</div>
+                        {(room.locked || room.hasPassword) && (
+                            <div className="mt-1 text-amber-300">
+                                {room.locked ? '🔒 Locked to new players' : '🔑 Password protected'}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Host: who may come in */}
+                    {isHost && (
+                        <div className="bg-slate-700/30 rounded-xl px-4 py-3 mb-6 space-y-2">
+                            <div className="flex items-center justify-between">
+                                <span className="text-slate-400 text-xs uppercase tracking-widest">Room Access</span>
+                                <button
+                                    onClick={() => handleRoomAccess({ locked: !room.locked })}
+                                    className={`text-xs font-bold px-3 py-1 rounded-lg transition-colors ${room.locked ? 'bg-amber-600 hover:bg-amber-500 text-white' : 'bg-slate-600 hover:bg-slate-500 text-slate-200'}`}
+                                >
+                                    {room.locked ? '🔒 Locked' : '🔓 Open'}
+                                </button>
+                            </div>
+                            <div className="flex gap-2">
+                                <input
+                                    type="text"
+                                    value={roomPassword}
+                                    onChange={e => setRoomPassword(e.target.value)}
+                                    placeholder={room.hasPassword ? 'New password' : 'Set a password'}
+                                    maxLength={32}
+                                    className="flex-1 bg-slate-700/60 border border-slate-600 rounded-lg px-3 py-1 text-white text-sm
+                      placeholder-slate-500 focus:outline-none focus:border-blue-500 transition-all"
+                                />
+                                <button
+                                    onClick={() => { handleRoomAccess({ password: roomPassword }); setRoomPassword(''); }}
+                                    disabled={!roomPassword && !room.hasPassword}
+                                    className="bg-slate-600 hover:bg-slate-500 disabled:bg-slate-800 disabled:text-slate-600 text-white text-xs font-bold px-3 py-1 rounded-lg transition-colors"
+                                >
+                                    {roomPassword || !room.hasPassword ? 'Set' : 'Remove'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    <button
+                        onClick={() => setShowFairness(true)}
+                        className="w-full bg-slate-700/30 hover:bg-slate-700/60 rounded-xl px-4 py-2 mb-6 text-left transition-colors"
+                    >
+                        <div className="text-slate-400 text-xs uppercase tracking-widest">🔒 Shoe commitment · your seed {me?.clientSeed ?? clientSeed}</div>
+                        <div className="font-mono text-[10px] text-emerald-300/80 truncate">{room.fairness.serverSeedHash}</div>
+                    </button>
+
                     <div className="mb-6">
                         <div className="text-slate-400 text-xs uppercase tracking-widest mb-3">Players ({room.players.length})</div>
                         <div className="space-y-2">
                             {room.players.map(p => (
-                                <div key={p.playerId} className="flex items-center justify-between bg-slate-700/40 px-4 py-3 rounded-xl">
+                                <div key={p.seatId} className="flex items-center justify-between bg-slate-700/40 px-4 py-3 rounded-xl">
                                     <div className="flex items-center gap-3">
-                                        <div className={`w-3 h-3 rounded-full ${p.disconnected ? 'bg-red-400 animate-pulse' : p.playerId === room.hostId ? 'bg-amber-400' : 'bg-emerald-400'}`} />
+                                        <div className={`w-3 h-3 rounded-full ${p.disconnected ? 'bg-red-400 animate-pulse' : p.seatId === room.hostSeatId ? 'bg-amber-400' : 'bg-emerald-400'}`} />
                                         <span className={`text-white font-medium ${p.disconnected ? 'opacity-50' : ''}`}>{p.name}</span>
-                                        {p.playerId === room.hostId && (
+                                        {p.seatId === room.hostSeatId && (
                                             <span className="text-amber-400 text-xs font-bold uppercase">Host</span>
                                         )}
-                                        {p.playerId === myPlayerId && (
+                                        {p.seatId === mySeatId && (
                                             <span className="text-blue-400 text-xs font-bold uppercase">You</span>
                                         )}
                                         {p.disconnected && (
                                             <span className="text-red-400 text-xs font-bold uppercase animate-pulse">Offline</span>
                                         )}
+                                        {seatReaction(p.seatId)}
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-slate-400 font-mono text-sm">💰 {p.chips}</span>
+                                        {isHost && p.seatId !== mySeatId && (
+                                            <>
+                                                <button
+                                                    onClick={() => handleTransferHost(p.seatId)}
+                                                    disabled={p.disconnected}
+                                                    title="Make host"
+                                                    className="text-amber-400 hover:text-amber-300 disabled:opacity-30 text-sm transition-colors"
+                                                >
+                                                    👑
+                                                </button>
+                                                <button
+                                                    onClick={() => handleKick(p.seatId)}
+                                                    title="Remove from room"
+                                                    className="text-slate-500 hover:text-red-400 text-sm font-bold transition-colors"
+                                                >
+                                                    ✕
+                                                </button>
+                                            </>
+                                        )}
                                     </div>
-                                    <span className="text-slate-400 font-mono text-sm">💰 {p.chips}</span>
                                 </div>
                             ))}
                         </div>
                     </div>
 
+                    {spectatorBar}
+
                     <div className="space-y-3">
                         {isHost && room.players.length >= 1 && (
                             <button
@@ -412,6 +743,9 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                         </button>
                     </div>
                 </div>
+                {fairnessPanel}
+                {tableChat}
+                {rejectionToast}
             </div>
         );
     }
@@ -431,6 +765,13 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                         <span className="text-slate-400 text-xs">Room </span>
                         <span className="text-emerald-400 font-mono font-bold tracking-wider">{room.code}</span>
                     </div>
+                    <button
+                        onClick={() => setShowFairness(true)}
+                        className="text-slate-400 hover:text-emerald-400 text-sm transition-colors"
+                        title="Provably fair shoe"
+                    >
+                        🔒{room.fairness.revealedShoe !== null && <span className="text-xs ml-1">Verify</span>}
+                    </button>
                 </div>
                 <div className="flex gap-4 items-center">
                     {me && (
@@ -441,10 +782,20 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                             </span>
                         </div>
                     )}
+                    {secondsLeft !== null && (
+                        <div className="flex flex-col items-end">
+                            <span className="text-slate-400 text-xs uppercase tracking-wider">Clock</span>
+                            <span className={`text-lg font-bold font-mono ${secondsLeft <= 5 ? 'text-red-400 animate-pulse' : 'text-slate-200'}`}>
+                                ⏱ {secondsLeft}s
+                            </span>
+                        </div>
+                    )}
                     <div className="flex flex-col items-end">
                         <span className="text-slate-400 text-xs uppercase tracking-wider">Phase</span>
                         <span className="text-blue-400 text-sm font-bold uppercase">
                             {room.phase === 'betting' ? 'Betting' :
+                                room.phase === 'insurance' ? 'Insurance?' :
+                                room.phase === 'early_surrender' ? 'Surrender?' :
                                 room.phase === 'player_turns' ? 'Playing' :
                                     room.phase === 'dealer_turn' ? 'Dealer' :
                                         room.phase === 'results' ? 'Results' : room.phase}
@@ -454,6 +805,13 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
             </header>
 
             <main className="flex-1 w-full max-w-7xl mx-auto flex flex-col p-2 sm:p-4 overflow-auto">
+                {spectatorBar}
+
+                {/* Shoe */}
+                <div className="flex justify-center mb-2 shrink-0">
+                    <ShoeIndicator shoe={room.shoe} />
+                </div>
+
                 {/* Dealer Area */}
                 {room.dealerHand.length > 0 && (
                     <div className="flex flex-col items-center mb-3 shrink-0">
@@ -468,7 +826,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                     <div key={card.id} className={`${justDealt ? 'animate-[dealCard_0.6s_ease-out]' : ''} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
                                         <Card
                                             card={card}
-                                            faceDown={i === 1 && !showDealerHole}
+                                            faceDown={card.faceDown}
                                             className="w-12 h-16 sm:w-16 sm:h-24"
                                         />
                                     </div>
@@ -492,7 +850,12 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                 {/* ── Betting UI ── */}
                 {room.phase === 'betting' && me && !me.hasBet && (
                     <div className="flex flex-col items-center gap-5 my-4">
-                        <div className="text-slate-300 text-lg font-semibold tracking-wide">Place Your Bet</div>
+                        <div className="text-center">
+                            <div className="text-slate-300 text-lg font-semibold tracking-wide">Place Your Bet</div>
+                            <div className="text-slate-500 text-xs">
+                                Table limits {room.limits.minBet}–{room.limits.maxBet ? room.limits.maxBet.toLocaleString() : 'no limit'}
+                            </div>
+                        </div>
                         <div className="flex gap-4 justify-center flex-wrap">
                             <div className="bg-slate-800/80 border border-slate-600 rounded-2xl px-8 py-5 text-center">
                                 <div className="text-slate-400 text-xs uppercase tracking-widest mb-1">Balance</div>
@@ -507,10 +870,10 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                             {CHIP_VALUES.map(val => (
                                 <button
                                     key={val}
-                                    onClick={() => { playSound('click'); setBetAmount(prev => Math.min(prev + val, me.chips)); }}
-                                    disabled={betAmount + val > me.chips}
+                                    onClick={() => { playSound('click'); setBetAmount(prev => Math.min(prev + val, betCap)); }}
+                                    disabled={betAmount + val > betCap}
                                     className={`relative w-16 h-16 rounded-full font-bold text-sm shadow-lg transition-all active:scale-90
-                    ${betAmount + val > me.chips
+                    ${betAmount + val > betCap
                                             ? 'bg-slate-700 text-slate-500 cursor-not-allowed'
                                             : val === 500
                                                 ? 'bg-purple-600 hover:bg-purple-500 text-white border-2 border-purple-400'
@@ -535,7 +898,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                             </button>
                             <button
                                 onClick={() => { playSound('click'); handlePlaceBet(); }}
-                                disabled={betAmount === 0}
+                                disabled={betAmount < room.limits.minBet}
                                 className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-600 active:scale-95 text-white font-bold py-3 px-10 rounded-xl text-lg transition-all"
                             >
                                 Deal 🃏
@@ -550,16 +913,22 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                     </div>
                 )}
 
+                {room.phase === 'betting' && !me && (
+                    <div className="text-center text-slate-400 text-sm animate-pulse my-6">
+                        Players are placing their bets…
+                    </div>
+                )}
+
                 {/* ── All Player Hands ── */}
-                {(room.phase === 'player_turns' || room.phase === 'dealer_turn' || room.phase === 'results') && (
+                {(room.phase === 'insurance' || room.phase === 'early_surrender' || room.phase === 'player_turns' || room.phase === 'dealer_turn' || room.phase === 'results') && (
                     <div className="flex flex-wrap gap-3 sm:gap-4 justify-center">
                         {room.players.filter(p => !p.disconnected || p.hands.length > 0).map(player => {
-                            const isMe = player.playerId === myPlayerId;
-                            const isActive = room.activePlayerId === player.playerId && room.phase === 'player_turns';
+                            const isMe = player.seatId === mySeatId;
+                            const isActive = room.activeSeatId === player.seatId && room.phase === 'player_turns';
 
                             return (
                                 <div
-                                    key={player.playerId}
+                                    key={player.seatId}
                                     className={`flex flex-col items-center rounded-2xl p-3 sm:p-4 border-2 transition-all w-[260px] sm:w-[420px] min-h-[180px] sm:min-h-[300px] relative
                     ${isMe
                                             ? 'bg-blue-950/60 border-blue-400 shadow-[0_0_20px_rgba(96,165,250,0.4),0_0_40px_rgba(96,165,250,0.15)] ring-2 ring-blue-400/50 border-[3px]'
@@ -577,11 +946,33 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                         {player.disconnected && (
                                             <span className="text-red-400 text-[10px] font-bold uppercase animate-pulse">Offline</span>
                                         )}
+                                        {seatReaction(player.seatId)}
                                         {isActive && (
                                             <span className={`w-2.5 h-2.5 rounded-full animate-bounce ${isMe ? 'bg-blue-400' : 'bg-amber-400'}`} />
                                         )}
+                                        {isActive && secondsLeft !== null && (
+                                            <span className={`text-xs font-mono ${secondsLeft <= 5 ? 'text-red-400' : 'text-slate-400'}`}>{secondsLeft}s</span>
+                                        )}
+                                        {player.sittingOut && (
+                                            <span className="text-slate-500 text-[10px] font-bold uppercase">Sitting out</span>
+                                        )}
+                                        {player.seatId === room.hostSeatId && (
+                                            <span className="text-amber-400 text-[10px] font-bold uppercase">Host</span>
+                                        )}
+                                        {isHost && !isMe && (
+                                            <button
+                                                onClick={() => handleKick(player.seatId)}
+                                                title="Remove from room"
+                                                className="text-slate-500 hover:text-red-400 text-xs font-bold transition-colors"
+                                            >
+                                                ✕
+                                            </button>
+                                        )}
                                     </div>
-                                    <span className={`text-xs font-mono mb-3 ${isMe ? 'text-blue-300/80' : 'text-slate-400'}`}>💰 {player.chips.toLocaleString()}</span>
+                                    <span className={`text-xs font-mono mb-3 ${isMe ? 'text-blue-300/80' : 'text-slate-400'}`}>
+                                        💰 {player.chips.toLocaleString()}
+                                        {player.insuranceBet > 0 && <span className="text-sky-300"> • 🛡️ {player.insuranceBet}</span>}
+                                    </span>
 
                                     {/* Hands */}
                                     {player.hands.map((hand, hi) => {
@@ -592,7 +983,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                             <div key={hand.id} className="flex flex-col items-center mb-2">
                                                 <div className="flex relative min-h-[80px] sm:min-h-[88px] items-start">
                                                     {hand.cards.map((card, ci) => {
-                                                        const playerIdx = connectedPlayers.findIndex(p => p.playerId === player.playerId);
+                                                        const playerIdx = connectedPlayers.findIndex(p => p.seatId === player.seatId);
                                                         const dealOrder = getDealOrderIndex(playerIdx, ci, connectedPlayers.length);
                                                         const isHidden = dealStep >= 0 && ci < 2 && dealOrder > dealStep;
                                                         const justDealt = dealStep >= 0 && ci < 2 && dealOrder === dealStep;
@@ -610,7 +1001,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                                 {(() => {
                                                     // During deal animation, check if all initial cards are visible
                                                     if (dealStep >= 0) {
-                                                        const playerIdx = connectedPlayers.findIndex(p => p.playerId === player.playerId);
+                                                        const playerIdx = connectedPlayers.findIndex(p => p.seatId === player.seatId);
                                                         const lastCardOrder = getDealOrderIndex(playerIdx, 1, connectedPlayers.length);
                                                         if (dealStep < lastCardOrder) return null;
                                                     }
@@ -636,7 +1027,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                                 {/* Action buttons — only for my active hand */}
                                                 {isMe && isMyTurn && hand.status === 'playing' && room.phase === 'player_turns' && (
                                                     <div className="flex gap-3 sm:gap-4 mt-3 justify-center">
-                                                        {hand.cards.length === 2 && me!.chips >= hand.bet && (
+                                                        {isDoubleAllowed(hand.cards, room.rules, hand.isSplit) && !hand.splitAces && me!.chips >= hand.bet && (
                                                             <button onClick={() => handleAction('double', hi)} className="flex flex-col items-center gap-1">
                                                                 <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-yellow-500 hover:bg-yellow-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
                                                                     <span className="text-white font-black text-lg sm:text-xl">×2</span>
@@ -644,19 +1035,21 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                                                 <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Double</span>
                                                             </button>
                                                         )}
-                                                        <button onClick={() => handleAction('hit', hi)} className="flex flex-col items-center gap-1">
-                                                            <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-emerald-500 hover:bg-emerald-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
-                                                                <span className="text-white text-2xl sm:text-3xl font-bold leading-none">+</span>
-                                                            </div>
-                                                            <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Hit</span>
-                                                        </button>
+                                                        {!hand.splitAces && (
+                                                            <button onClick={() => handleAction('hit', hi)} className="flex flex-col items-center gap-1">
+                                                                <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-emerald-500 hover:bg-emerald-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
+                                                                    <span className="text-white text-2xl sm:text-3xl font-bold leading-none">+</span>
+                                                                </div>
+                                                                <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Hit</span>
+                                                            </button>
+                                                        )}
                                                         <button onClick={() => handleAction('stand', hi)} className="flex flex-col items-center gap-1">
                                                             <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-red-500 hover:bg-red-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
                                                                 <svg className="w-6 h-6 sm:w-7 sm:h-7 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M10 2a1.5 1.5 0 0 1 1.5 1.5V9h1V4.5a1.5 1.5 0 0 1 3 0V9h1V5.5a1.5 1.5 0 0 1 3 0V15a7 7 0 0 1-7 7H11a7 7 0 0 1-7-7v-3.5a1.5 1.5 0 0 1 3 0V13h1V3.5A1.5 1.5 0 0 1 10 2Z" /></svg>
                                                             </div>
                                                             <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Stand</span>
                                                         </button>
-                                                        {isStrictPair(hand.cards) && player.hands.length < 4 && me!.chips >= hand.bet && (
+                                                        {isSplitAllowed(hand.cards, player.hands.length, room.rules, hand.splitAces) && me!.chips >= hand.bet && (
                                                             <button onClick={() => handleAction('split', hi)} className="flex flex-col items-center gap-1">
                                                                 <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-purple-500 hover:bg-purple-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
                                                                     <span className="text-white font-black text-lg sm:text-xl">↔</span>
@@ -664,6 +1057,14 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                                                                 <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Split</span>
                                                             </button>
                                                         )}
+                                                        {isSurrenderAllowed(hand.cards, room.rules, hand.isSplit, player.hands.length) && (
+                                                            <button onClick={() => handleAction('surrender', hi)} className="flex flex-col items-center gap-1">
+                                                                <div className="w-12 h-12 sm:w-14 sm:h-14 rounded-full bg-slate-500 hover:bg-slate-400 active:scale-90 flex items-center justify-center shadow-lg transition-all">
+                                                                    <span className="text-white font-black text-lg sm:text-xl">½</span>
+                                                                </div>
+                                                                <span className="text-[9px] sm:text-[10px] font-bold text-slate-400 uppercase">Surrender</span>
+                                                            </button>
+                                                        )}
                                                     </div>
                                                 )}
                                             </div>
@@ -675,11 +1076,73 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                     </div>
                 )}
 
+                {/* Insurance — every seated player answers before the dealer peeks under the Ace */}
+                {room.phase === 'insurance' && dealStep < 0 && (
+                    me?.awaitingDecision ? (() => {
+                        const hand = me.hands[0];
+                        const evenMoney = hand?.status === 'blackjack';
+                        const stake = hand ? maxInsuranceBet(hand.bet) : 0;
+                        return (
+                            <div className="flex flex-col items-center gap-3 mt-4">
+                                <div className="text-slate-300 text-sm">
+                                    {evenMoney ? 'Take even money on your blackjack?' : `Dealer shows an Ace — insure for ${stake}? (pays 2:1)`}
+                                </div>
+                                <div className="flex gap-4">
+                                    <button
+                                        onClick={() => handleInsurance(true)}
+                                        disabled={!evenMoney && (stake === 0 || me.chips < stake)}
+                                        className="bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 active:scale-95 text-white font-bold py-3 px-8 rounded-xl transition-all"
+                                    >
+                                        {evenMoney ? 'Even Money' : 'Insure'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleInsurance(false)}
+                                        className="bg-slate-600 hover:bg-slate-500 active:scale-95 text-white font-bold py-3 px-8 rounded-xl transition-all"
+                                    >
+                                        No Thanks
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })() : (
+                        <div className="text-center text-slate-400 text-sm animate-pulse mt-4">
+                            Waiting for insurance decisions…
+                        </div>
+                    )
+                )}
+
+                {/* Early surrender — every player decides before the dealer checks for blackjack */}
+                {room.phase === 'early_surrender' && dealStep < 0 && (
+                    me?.awaitingDecision ? (
+                        <div className="flex flex-col items-center gap-3 mt-4">
+                            <div className="text-slate-300 text-sm">Surrender half your bet before the dealer checks for blackjack?</div>
+                            <div className="flex gap-4">
+                                <button
+                                    onClick={() => handleEarlySurrender(true)}
+                                    className="bg-slate-500 hover:bg-slate-400 active:scale-95 text-white font-bold py-3 px-8 rounded-xl transition-all"
+                                >
+                                    Surrender
+                                </button>
+                                <button
+                                    onClick={() => handleEarlySurrender(false)}
+                                    className="bg-emerald-600 hover:bg-emerald-500 active:scale-95 text-white font-bold py-3 px-8 rounded-xl transition-all"
+                                >
+                                    Play On
+                                </button>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="text-center text-slate-400 text-sm animate-pulse mt-4">
+                            Waiting for surrender decisions…
+                        </div>
+                    )
+                )}
+
                 {/* Waiting indicator during someone else's turn */}
                 {room.phase === 'player_turns' && !isMyTurn && (
                     <div className="text-center text-slate-400 text-sm animate-pulse mt-4">
                         {(() => {
-                            const active = room.players.find(p => p.playerId === room.activePlayerId);
+                            const active = room.players.find(p => p.seatId === room.activeSeatId);
                             return active ? `Waiting for ${active.name} to play…` : 'Waiting…';
                         })()}
                     </div>
@@ -695,7 +1158,7 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                 {/* Results footer */}
                 {room.phase === 'results' && (
                     <div className="flex flex-col items-center gap-3 mt-6">
-                        {me && (() => {
+                        {me && me.hands.length > 0 && (() => {
                             const wins = me.hands.filter(h => h.result === 'win').length;
                             const losses = me.hands.filter(h => h.result === 'loss').length;
                             if (wins > losses) return <div className="text-2xl font-bold text-emerald-400">🎉 You Win!</div>;
@@ -720,7 +1183,9 @@ const MultiplayerMode: React.FC<MultiplayerModeProps> = ({ onBack, user }) => {
                 )}
             </main>
 
-
+            {fairnessPanel}
+            {tableChat}
+            {rejectionToast}
         </div>
     );
 };
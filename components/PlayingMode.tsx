@@ -1,168 +1,146 @@
-import React, { useState, useRef } from 'react';
-import { io } from 'socket.io-client';
+import React, { useState, useEffect, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
 import Card from './Card';
+import ShoeIndicator from './ShoeIndicator';
 import { playSound, speak } from '../utils/sound';
-import { createDeck, shuffleDeck, calculateHandValue, isStrictPair } from '../utils/deck';
-import { Card as CardType, PlayerHand, GameState } from '../types';
+import { calculateHandValue } from '../utils/deck';
+import { DEFAULT_RULES, describeRules, isDoubleAllowed, isSplitAllowed, isSurrenderAllowed, maxInsuranceBet } from '../utils/rules';
+import { GameState, RoomPhase, RoundRejection, SerializedRoom, TableRules } from '../types';
 import { UserProfile, getToken } from '../utils/api';
 
 interface PlayingModeProps {
   onBack: () => void;
   user?: UserProfile | null;
+  rules?: TableRules;
 }
 
-// ─── Helper: sync ref + state together ───────────────────────────────────────
-// All mutable game state is stored in both a ref (for synchronous reads in
-// handlers/async functions) AND React state (for re-renders).  We ONLY ever
-// read from refs inside handlers; state is only used for rendering.
+const STARTING_CHIPS = 1000;
+const CHIP_VALUES = [10, 25, 100, 500] as const;
+// Same server as multiplayer: in dev through Vite's proxy, in production VITE_MP_SERVER
+const SERVER_URL = (import.meta as any).env?.VITE_MP_SERVER ?? '';
+
+// ─── Server-dealt table ──────────────────────────────────────────────────────
+// The server deals, draws for the dealer and settles every round in a room of
+// one; this screen only sends intents (bet, hit, stand…) and renders the room
+// it gets back. Logged-in players' chips and history come from that settlement.
+
+const VIEW_STATES: Record<RoomPhase, GameState> = {
+  lobby: 'idle',
+  betting: 'betting',
+  insurance: 'insurance',
+  early_surrender: 'early_surrender',
+  player_turns: 'player_turn',
+  dealer_turn: 'dealer_turn',
+  results: 'game_over',
+};
 
-const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
-  // ── Deck ──────────────────────────────────────────────────────────────────
-  const deckRef = useRef<CardType[]>(shuffleDeck(createDeck(6)));
+// Guests keep their practice chips for the session
+const savedGuestChips = (): number => {
+  const val = parseInt(sessionStorage.getItem('bj_sp_chips') ?? '', 10);
+  return isNaN(val) || val <= 0 ? STARTING_CHIPS : val;
+};
 
-  const drawCard = (): CardType => {
-    if (deckRef.current.length < 20) {
-      deckRef.current = shuffleDeck(createDeck(6));
-    }
-    return deckRef.current.pop()!;
+const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user, rules = DEFAULT_RULES }) => {
+  const socketRef = useRef<Socket | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null); // last command the table refused
+  const [seedInput, setSeedInput] = useState('');
+
+  // Latest room: the ref is read by the deal animation timer, the state renders
+  const roomRef = useRef<SerializedRoom | null>(null);
+  const [room, setRoom] = useState<SerializedRoom | null>(null);
+
+  const syncRoom = (data: SerializedRoom | null) => {
+    roomRef.current = data;
+    setRoom(data);
+    const me = data?.players[0];
+    if (me && data?.solo && !data.solo.ranked) sessionStorage.setItem('bj_sp_chips', String(me.chips));
   };
 
-  // ── Live game state: refs (truth) + state (display) ──────────────────────
-  const dealerHandRef = useRef<CardType[]>([]);
-  const [dealerHand, setDealerHand] = useState<CardType[]>([]);
-
-  const playerHandsRef = useRef<PlayerHand[]>([]);
-  const [playerHands, setPlayerHands] = useState<PlayerHand[]>([]);
-
-  const activeIdxRef = useRef<number>(0);
-  const [activeHandIndex, setActiveHandIndex] = useState<number>(0);
-
-  const gameStateRef = useRef<GameState>('idle');
-  const [gameState, setGameState] = useState<GameState>('idle');
+  // Chips stacked on the betting circle before the bet is sent
+  const [currentBet, setCurrentBet] = useState<number>(0);
+  const [message, setMessage] = useState<string>('');
+  const evenMoneyRef = useRef(false); // the server settles even money as a plain win
 
   // Deal animation state: -1 = no animation, 0+ = current card reveal step
   const [dealStep, setDealStep] = useState(-1);
   const dealTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
-  const [message, setMessage] = useState<string>('');
-
-  // ── Chips & Betting ───────────────────────────────────────────────────────
-  const STARTING_CHIPS = 1000;
-  const CHIP_VALUES = [10, 25, 100, 500] as const;
-
-  // Restore chips: from user profile if logged in, else sessionStorage
-  const savedChips = (() => {
-    if (user && user.chips > 0) return user.chips;
-    const stored = sessionStorage.getItem('bj_sp_chips');
-    if (stored) {
-      const val = parseInt(stored, 10);
-      return isNaN(val) || val <= 0 ? STARTING_CHIPS : val;
-    }
-    return STARTING_CHIPS;
-  })();
-
-  const chipsRef = useRef<number>(savedChips);
-  const [chips, setChips] = useState<number>(savedChips);
-  const currentBetRef = useRef<number>(0);
-  const [currentBet, setCurrentBet] = useState<number>(0);
-
-  // Socket ref for sending results to server
-  const socketRef = useRef((() => {
-    try { return io(undefined as any, { transports: ['websocket', 'polling'] }); }
-    catch { return null; }
-  })());
-
-  // ── Helpers ───────────────────────────────────────────────────────────────
-  const syncDealerHand = (hand: CardType[]) => {
-    dealerHandRef.current = hand;
-    setDealerHand(hand);
-  };
-
-  const syncPlayerHands = (hands: PlayerHand[]) => {
-    playerHandsRef.current = hands;
-    setPlayerHands(hands);
-  };
-
-  const syncActiveIdx = (idx: number) => {
-    activeIdxRef.current = idx;
-    setActiveHandIndex(idx);
-  };
+  // ── Socket ────────────────────────────────────────────────────────────────
+  useEffect(() => {
+    const socket = io(SERVER_URL || undefined, { transports: ['websocket', 'polling'] });
+    socketRef.current = socket;
 
-  const syncGameState = (gs: GameState) => {
-    gameStateRef.current = gs;
-    setGameState(gs);
-  };
-
-  const syncChips = (val: number) => {
-    chipsRef.current = val;
-    setChips(val);
-    sessionStorage.setItem('bj_sp_chips', String(val));
-  };
-
-  const syncCurrentBet = (val: number) => {
-    currentBetRef.current = val;
-    setCurrentBet(val);
-  };
-
-  const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
-
-  // ── Betting ────────────────────────────────────────────────────────────────
-  const startBetting = () => {
-    syncDealerHand([]);
-    syncPlayerHands([]);
-    syncCurrentBet(0);
-    syncGameState('betting');
-    setMessage('');
-  };
+    socket.on('connect', () => {
+      setConnected(true);
+      setError(null);
+    });
+    // The table belongs to this connection — a new one starts from the idle screen
+    socket.on('disconnect', () => {
+      setConnected(false);
+      syncRoom(null);
+    });
+    socket.on('connect_error', () => {
+      setError('Cannot connect to server. Check your network.');
+    });
+    socket.on('room-update', (data: SerializedRoom) => syncRoom(data));
+    socket.on('error-msg', (msg: string) => setError(msg));
+    socket.on('action-rejected', (r: RoundRejection) => setRejection(r.message));
 
-  const addChipToBet = (value: number) => {
-    if (currentBetRef.current + value > chipsRef.current) return;
-    syncCurrentBet(currentBetRef.current + value);
-  };
+    return () => {
+      if (dealTimerRef.current) clearInterval(dealTimerRef.current);
+      socket.disconnect();
+    };
+  }, []);
 
-  const removeLastChip = () => {
-    // Remove the last chip added — since we don't track individual chips,
-    // just clear the whole bet for simplicity
-    syncCurrentBet(0);
-  };
+  useEffect(() => {
+    if (!rejection) return;
+    const timer = setTimeout(() => setRejection(null), 3000);
+    return () => clearTimeout(timer);
+  }, [rejection]);
 
-  const confirmBet = () => {
-    if (currentBetRef.current <= 0) return;
-    // Deduct bet from balance
-    syncChips(chipsRef.current - currentBetRef.current);
-    dealGame();
+  const emit = (event: string, data: Record<string, unknown> = {}) => {
+    socketRef.current?.emit(event, { code: roomRef.current?.code, ...data });
   };
 
-  // Deal order: player card 0, dealer card 0, player card 1, dealer card 1
-  const getDealOrder = (isDealer: boolean, cardIndex: number): number => {
-    // card 0: player=0, dealer=1; card 1: player=2, dealer=3
-    return cardIndex * 2 + (isDealer ? 1 : 0);
+  // ── Results ───────────────────────────────────────────────────────────────
+  const announceResults = (r: SerializedRoom) => {
+    const hands = r.players[0]?.hands ?? [];
+    const { total: dTotal } = calculateHandValue(r.dealerHand);
+    const dealerBust = dTotal > 21;
+    const dealerBJ = r.dealerHand.length === 2 && dTotal === 21;
+    const playerBJ = hands.length === 1 && hands[0].status === 'blackjack';
+    const wins = hands.filter(h => h.result === 'win').length;
+    const losses = hands.filter(h => h.result === 'loss').length;
+
+    let text: string;
+    let sound: Parameters<typeof playSound>[0];
+    if (hands.some(h => h.status === 'surrendered')) {
+      [text, sound] = ['🏳️ Surrendered — half your bet returned.', 'loss'];
+    } else if (evenMoneyRef.current) {
+      [text, sound] = ['💵 Even Money! You Win.', 'win'];
+    } else if (dealerBJ && playerBJ) {
+      [text, sound] = ['🤝 Double Blackjack! Push!', 'push'];
+    } else if (dealerBJ) {
+      const insured = (r.players[0]?.insuranceBet ?? 0) > 0;
+      [text, sound] = [insured ? '🛡️ Dealer Blackjack — Insurance Pays 2:1.' : '🤡 Dealer Blackjack! You Lose.', 'loss'];
+    } else if (playerBJ) {
+      [text, sound] = ['🚀 BLACKJACK! You Win! 🌕', 'blackjack'];
+    } else if (wins > losses) {
+      [text, sound] = [dealerBust ? '💥 Dealer Busted! You Win! 🎉' : '🎉 You Win! 💰', 'win'];
+    } else if (losses > wins) {
+      [text, sound] = ['💸 Dealer Wins.', 'loss'];
+    } else {
+      [text, sound] = ['🤝 Push!', 'push'];
+    }
+    setMessage(text);
+    setTimeout(() => playSound(sound), 800);
   };
 
-  // ── Deal ──────────────────────────────────────────────────────────────────
-  const dealGame = () => {
-    const betAmount = currentBetRef.current;
-
-    const p1 = drawCard();
-    const d1 = drawCard();
-    const p2 = drawCard();
-    const d2 = drawCard();
-
-    const initialHand: PlayerHand = {
-      id: `hand-${Date.now()}`,
-      cards: [p1, p2],
-      bet: betAmount,
-      status: 'playing',
-    };
-
-    syncDealerHand([d1, d2]);
-    syncPlayerHands([initialHand]);
-    syncActiveIdx(0);
-    setMessage('');
-    syncGameState('dealing');
-
-    // Card-by-card deal animation (4 cards total)
-    const totalSteps = 4; // p1, d1, p2, d2
+  // ── Deal animation (4 cards: p1, d1, p2, d2) ──────────────────────────────
+  const startDealAnimation = () => {
+    const totalSteps = 4;
     setDealStep(0);
     let step = 0;
     if (dealTimerRef.current) clearInterval(dealTimerRef.current);
@@ -173,33 +151,14 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
         clearInterval(dealTimerRef.current!);
         dealTimerRef.current = null;
         setDealStep(-1);
-        // Animation done — check for special hands
-        const { total: pTotal } = calculateHandValue([p1, p2]);
-        const { total: dTotal } = calculateHandValue([d1, d2]);
-
-        if (pTotal === 21 && dTotal === 21) {
-          const h = { ...initialHand, status: 'blackjack' as const, result: 'push' as const };
-          syncPlayerHands([h]);
-          syncGameState('game_over');
-          setMessage('🤝 Double Blackjack! Push!');
-          syncChips(chipsRef.current + betAmount);
-          setTimeout(() => playSound('push'), 800);
-        } else if (dTotal === 21) {
-          const h = { ...initialHand, result: 'loss' as const };
-          syncPlayerHands([h]);
-          syncGameState('game_over');
-          setMessage('🤡 Dealer Blackjack! You Lose.');
-          setTimeout(() => playSound('loss'), 800);
-        } else if (pTotal === 21) {
-          const h = { ...initialHand, status: 'blackjack' as const, result: 'win' as const };
-          syncPlayerHands([h]);
-          syncGameState('game_over');
-          setMessage('🚀 BLACKJACK! You Win! 🌕');
-          syncChips(chipsRef.current + betAmount + Math.floor(betAmount * 1.5));
-          setTimeout(() => playSound('blackjack'), 800);
-        } else {
-          syncGameState('player_turn');
-          speak(`${pTotal}`, 1.3, 1.05);
+        // Naturals can settle while the cards are still going out
+        const r = roomRef.current;
+        if (!r) return;
+        if (r.phase === 'results') {
+          announceResults(r);
+        } else if (r.phase === 'player_turns') {
+          const hand = r.players[0]?.hands[0];
+          if (hand) speak(`${calculateHandValue(hand.cards).total}`, 1.3, 1.05);
         }
       } else {
         playSound('deal');
@@ -208,277 +167,133 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
     }, 400);
   };
 
-  // ── Dealer turn (async, always reads from refs) ───────────────────────────
-  const runDealerTurn = async () => {
-    syncGameState('dealer_turn');
-
-    // Read live hands from ref
-    const hands = playerHandsRef.current;
-    const liveHands = hands.filter(
-      h => h.status !== 'busted' && h.status !== 'blackjack' && h.status !== 'playing' // 'playing' means no action taken yet — shouldn't happen
-    );
-
-    // If every player hand is already busted → dealer doesn't play
-    if (liveHands.length === 0) {
-      await wait(400);
-      syncGameState('game_over');
-      resolveResults();
-      return;
-    }
-
-    await wait(600);
-
-    // Reveal hole card, then draw until dealer stands (≥17, not soft 17)
-    // dealerHandRef already has both cards
-    let { total, isSoft } = calculateHandValue(dealerHandRef.current);
-
-    // Speak initial dealer total (hole card reveal)
-    speak(`${total}`, 1.3, 1.0);
-
-    while (total < 17 || (total === 17 && isSoft)) {
-      await wait(700);
-      const card = drawCard();
-      const newDHand = [...dealerHandRef.current, card];
-      syncDealerHand(newDHand);
-      ({ total, isSoft } = calculateHandValue(newDHand));
-      speak(`${total}`, 1.3, 1.0);
-    }
-
-    // Wait long enough for the last spoken total to finish before result announcement
-    await wait(1200);
-    syncGameState('game_over');
-    resolveResults();
-  };
-
-  // ── Resolve results (reads from refs — always current) ────────────────────
-  const resolveResults = () => {
-    const finalDealerHand = dealerHandRef.current;
-    const { total: dTotal } = calculateHandValue(finalDealerHand);
-    const dealerBust = dTotal > 21;
-
-    const newHands = playerHandsRef.current.map(hand => {
-      if (hand.result) return hand; // already settled (bust / blackjack at deal)
-
-      const { total: pTotal } = calculateHandValue(hand.cards);
-
-      if (dealerBust) return { ...hand, result: 'win' as const };
-      if (pTotal > dTotal) return { ...hand, result: 'win' as const };
-      if (pTotal < dTotal) return { ...hand, result: 'loss' as const };
-      return { ...hand, result: 'push' as const };
-    });
-
-    syncPlayerHands(newHands);
-
-    // ── Calculate chip payouts ──
-    let totalPayout = 0;
-    for (const hand of newHands) {
-      if (hand.result === 'win') {
-        // Win: return bet + winnings (1:1)
-        totalPayout += hand.bet * 2;
-      } else if (hand.result === 'push') {
-        // Push: return bet
-        totalPayout += hand.bet;
-      }
-      // Loss: nothing returned
-    }
-    if (totalPayout > 0) {
-      syncChips(chipsRef.current + totalPayout);
+  // ── Phase transitions ─────────────────────────────────────────────────────
+  const prevPhaseRef = useRef<RoomPhase | null>(null);
+  useEffect(() => {
+    const prev = prevPhaseRef.current;
+    prevPhaseRef.current = room?.phase ?? null;
+    if (!room || prev === room.phase) return;
+
+    if (room.phase === 'betting') {
+      setCurrentBet(0);
+      setMessage('');
+      evenMoneyRef.current = false;
+    } else if (prev === 'betting') {
+      startDealAnimation();
+    } else if (room.phase === 'results' && !dealTimerRef.current) {
+      announceResults(room);
     }
-
-    const wins = newHands.filter(h => h.result === 'win').length;
-    const losses = newHands.filter(h => h.result === 'loss').length;
-
-    if (wins > losses) {
-      playSound('win');
-      setMessage(dealerBust ? '💥 Dealer Busted! You Win! 🎉' : '🎉 You Win! 💰');
-    } else if (losses > wins) {
-      playSound('loss');
-      setMessage('💸 Dealer Wins.');
-    } else {
-      playSound('push');
-      setMessage('🤝 Push!');
+  }, [room]);
+
+  // ── Announce totals as cards arrive (hits, doubles, splits, dealer draws) ──
+  const prevCountsRef = useRef<{ hands: number[]; dealer: number }>({ hands: [], dealer: 0 });
+  useEffect(() => {
+    if (!room) return;
+    const hands = room.players[0]?.hands ?? [];
+    const counts = { hands: hands.map(h => h.cards.length), dealer: room.dealerHand.filter(c => !c.faceDown).length };
+    const prev = prevCountsRef.current;
+    prevCountsRef.current = counts;
+    if (dealStep >= 0 || prev.hands.length === 0) return;
+
+    const grown = hands.find((h, i) => h.cards.length > (prev.hands[i] ?? 0));
+    if (grown && (room.phase === 'player_turns' || room.phase === 'dealer_turn')) {
+      const { total } = calculateHandValue(grown.cards);
+      if (total > 21) playSound('bust');
+      else speak(`${total}`, 1.0, 1.0);
     }
-
-    // Record result to server if logged in
-    const token = getToken();
-    if (token && socketRef.current) {
-      const pushes = newHands.filter(h => h.result === 'push').length;
-      const blackjacks = newHands.filter(h => h.status === 'blackjack').length;
-      const chipsBefore = chipsRef.current - totalPayout + newHands.reduce((s, h) => s + h.bet, 0);
-      socketRef.current.emit('save-sp-result', {
-        token,
-        handsPlayed: newHands.length,
-        handsWon: wins,
-        handsLost: losses,
-        handsPushed: pushes,
-        blackjacks,
-        chipsDelta: chipsRef.current - chipsBefore,
-        totalChips: chipsRef.current,
-      });
-    }
-  };
-
-  // ── Move to next hand or dealer ───────────────────────────────────────────
-  const advanceHand = () => {
-    const idx = activeIdxRef.current;
-    const hands = playerHandsRef.current;
-
-    if (idx < hands.length - 1) {
-      syncActiveIdx(idx + 1);
-    } else {
-      runDealerTurn();
+    if (counts.dealer > prev.dealer && (room.phase === 'dealer_turn' || room.phase === 'results')) {
+      speak(`${calculateHandValue(room.dealerHand).total}`, 1.3, 1.0);
     }
+  }, [room, dealStep]);
+
+  // ── Intents ───────────────────────────────────────────────────────────────
+  const startTable = () => {
+    setError(null);
+    socketRef.current?.emit('sp-start', {
+      token: getToken(),
+      rules,
+      seed: user ? undefined : seedInput.trim() || undefined, // replays are practice-only
+      chips: savedGuestChips(),
+    });
   };
 
-
-
-  // ── Player actions ────────────────────────────────────────────────────────
-
-  const handleHit = () => {
-    if (gameStateRef.current !== 'player_turn') return;
-
-    const idx = activeIdxRef.current;
-    const hand = playerHandsRef.current[idx];
-    if (!hand) return;
-
-    const newCard = drawCard();
-    const updatedCards = [...hand.cards, newCard];
-    const { total } = calculateHandValue(updatedCards);
-
-    const updatedHand: PlayerHand = {
-      ...hand,
-      cards: updatedCards,
-      status: total > 21 ? 'busted' : 'playing',
-      result: total > 21 ? 'loss' : undefined,
-    };
-
-    const newHands = playerHandsRef.current.map((h, i) => (i === idx ? updatedHand : h));
-    syncPlayerHands(newHands);
-
-    if (total > 21) {
-      playSound('bust');
-      setTimeout(advanceHand, 600);
-    } else {
-      speak(`${total}`, 1.0, 1.0);
-    }
+  const addChipToBet = (value: number) => {
+    if (currentBet + value > chips) return;
+    setCurrentBet(currentBet + value);
   };
 
-  const handleStand = () => {
-    if (gameStateRef.current !== 'player_turn') return;
-
-    const idx = activeIdxRef.current;
-    const hand = playerHandsRef.current[idx];
-    if (!hand) return;
-
-    const updatedHand = { ...hand, status: 'standing' as const };
-    const newHands = playerHandsRef.current.map((h, i) => (i === idx ? updatedHand : h));
-    syncPlayerHands(newHands);
-
-    advanceHand();
+  const confirmBet = () => {
+    if (currentBet <= 0) return;
+    emit('place-bet', { amount: currentBet });
   };
 
-  const handleDouble = () => {
-    if (gameStateRef.current !== 'player_turn') return;
-    const idx = activeIdxRef.current;
-    const hand = playerHandsRef.current[idx];
-    if (!hand || hand.cards.length !== 2) return;
-
-    // Double: deduct extra bet from chips
-    const extraBet = hand.bet;
-    if (chipsRef.current < extraBet) return; // can't afford to double
-    syncChips(chipsRef.current - extraBet);
-
-    const newCard = drawCard();
-    const updatedCards = [...hand.cards, newCard];
-    const { total } = calculateHandValue(updatedCards);
-    const bust = total > 21;
-
-    const updatedHand: PlayerHand = {
-      ...hand,
-      cards: updatedCards,
-      bet: hand.bet * 2, // doubled bet
-      status: bust ? 'busted' : 'standing',
-      result: bust ? 'loss' : undefined,
-    };
-
-    const newHands = playerHandsRef.current.map((h, i) => (i === idx ? updatedHand : h));
-    syncPlayerHands(newHands);
-
-    if (bust) {
-      playSound('bust');
-    } else {
-      speak(`${total}`, 1.0, 1.0);
-    }
-    setTimeout(advanceHand, 600);
+  const handleAction = (action: 'hit' | 'stand' | 'double' | 'split' | 'surrender') => {
+    emit('player-action', { action, handIndex: activeHandIndex });
   };
 
-  const handleSplit = () => {
-    if (gameStateRef.current !== 'player_turn') return;
-    const idx = activeIdxRef.current;
-    const hand = playerHandsRef.current[idx];
-    if (!hand || !isStrictPair(hand.cards)) return;
-    if (playerHandsRef.current.length >= 4) return; // max 4 hands
-
-    // Split: deduct extra bet for the second hand
-    const extraBet = hand.bet;
-    if (chipsRef.current < extraBet) return; // can't afford to split
-    syncChips(chipsRef.current - extraBet);
-
-    const [card1, card2] = hand.cards;
-    const hand1: PlayerHand = {
-      ...hand,
-      id: `hand-${Date.now()}-1`,
-      cards: [card1, drawCard()],
-      bet: hand.bet, // same bet per hand
-      status: 'playing',
-      result: undefined,
-    };
-    const hand2: PlayerHand = {
-      ...hand,
-      id: `hand-${Date.now()}-2`,
-      cards: [card2, drawCard()],
-      bet: hand.bet, // same bet per hand
-      status: 'playing',
-      result: undefined,
-    };
-
-    const newHands = [...playerHandsRef.current];
-    newHands.splice(idx, 1, hand1, hand2);
-
-    if (card1.rank === 'A') {
-      newHands[idx].status = 'standing';
-      newHands[idx + 1].status = 'standing';
-      syncPlayerHands(newHands);
-      runDealerTurn();
-    } else {
-      syncPlayerHands(newHands);
-    }
+  const handleInsurance = (take: boolean) => {
+    evenMoneyRef.current = take && hasBlackjack;
+    emit('insurance', { take });
   };
 
   // ── Derived display values ─────────────────────────────────────────────────
+  const me = room?.players[0];
+  const tableRules = room?.rules ?? rules;
+  const chips = me?.chips ?? (user && user.chips > 0 ? user.chips : savedGuestChips());
+  const playerHands = me?.hands ?? [];
+  const dealerHand = room?.dealerHand ?? [];
+  const gameState: GameState = !room ? 'idle' : dealStep >= 0 ? 'dealing' : VIEW_STATES[room.phase];
+
+  const activeHandIndex = Math.max(0, playerHands.findIndex(h => h.status === 'playing'));
   const activeHand = playerHands[activeHandIndex];
-  const { total: playerTotal, isSoft: playerSoft } = activeHand
+  const { total: playerTotal } = activeHand
     ? calculateHandValue(activeHand.cards)
-    : { total: 0, isSoft: false };
+    : { total: 0 };
+  const handBets = playerHands.reduce((sum, h) => sum + h.bet, 0);
 
   const canSplit =
     gameState === 'player_turn' &&
     activeHand != null &&
-    isStrictPair(activeHand.cards) &&
-    playerHands.length < 4 &&
+    isSplitAllowed(activeHand.cards, playerHands.length, tableRules, activeHand.splitAces) &&
     chips >= (activeHand?.bet ?? 0);
 
   const canDouble =
     gameState === 'player_turn' &&
     activeHand != null &&
-    activeHand.cards.length === 2 &&
+    !activeHand.splitAces &&
+    isDoubleAllowed(activeHand.cards, tableRules, activeHand.isSplit) &&
     chips >= (activeHand?.bet ?? 0);
 
-  // Dealer upcard value shown during player turn (only first card visible)
+  const canHit = gameState === 'player_turn' && activeHand != null && !activeHand.splitAces;
+
+  const canSurrender =
+    gameState === 'player_turn' &&
+    activeHand != null &&
+    isSurrenderAllowed(activeHand.cards, tableRules, activeHand.isSplit, playerHands.length);
+
+  // The server sends a face-down placeholder until the dealer turn
+  const showDealerHole = !dealerHand.some(c => c.faceDown);
   const dealerUpTotal =
     dealerHand.length > 0 ? calculateHandValue([dealerHand[0]]).total : 0;
 
-  const isBroke = chips <= 0 && gameState !== 'player_turn' && gameState !== 'dealer_turn';
+  const insuranceStake = activeHand ? maxInsuranceBet(activeHand.bet) : 0;
+  const canInsure = insuranceStake > 0 && chips >= insuranceStake;
+  const hasBlackjack = activeHand != null && activeHand.cards.length === 2 && playerTotal === 21;
+
+  const isBroke = chips < CHIP_VALUES[0] && (gameState === 'betting' || gameState === 'game_over');
+  const justShuffled = room?.phase === 'betting' && room.shoe.cardsDealt === 0 && room.fairness.shoeNumber > 1;
+
+  // Deal order: player card 0, dealer card 0, player card 1, dealer card 1
+  const getDealOrder = (isDealer: boolean, cardIndex: number): number => cardIndex * 2 + (isDealer ? 1 : 0);
+
+  const rebuyButton = (
+    <button
+      onClick={() => { playSound('click'); emit('sp-rebuy'); }}
+      className="bg-amber-600 hover:bg-amber-500 active:scale-95 text-white font-bold py-3 px-10 rounded-xl text-lg shadow-lg transition-all"
+    >
+      Rebuy ({STARTING_CHIPS} chips)
+    </button>
+  );
 
   return (
     <div className="flex flex-col min-h-screen w-full">
@@ -493,6 +308,11 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
           <h1 className="text-xl font-bold text-blue-400 tracking-wider hidden sm:block">
             PLAYING <span className="text-white font-normal">MODE</span>
           </h1>
+          {room?.solo && (
+            <span className="text-[10px] uppercase tracking-widest text-slate-400 border border-slate-600 rounded px-2 py-0.5">
+              {room.solo.ranked ? 'Ranked' : 'Practice'}
+            </span>
+          )}
         </div>
 
         {/* Chip Balance */}
@@ -508,7 +328,15 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
             <div className="flex flex-col items-end">
               <span className="text-slate-400 text-xs uppercase tracking-wider">Bet</span>
               <span className="text-lg font-bold font-mono text-amber-300">
-                � {currentBet.toLocaleString()}
+                🪙 {handBets.toLocaleString()}
+              </span>
+            </div>
+          )}
+          {me && me.insuranceBet > 0 && gameState !== 'betting' && gameState !== 'idle' && (
+            <div className="flex flex-col items-end">
+              <span className="text-slate-400 text-xs uppercase tracking-wider">Insurance</span>
+              <span className="text-lg font-bold font-mono text-sky-300">
+                🛡️ {me.insuranceBet.toLocaleString()}
               </span>
             </div>
           )}
@@ -516,6 +344,14 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
       </header>
 
       <main className="flex-1 w-full max-w-5xl mx-auto flex flex-col items-center p-4 relative overflow-auto">
+        {room && (
+          <div className="flex flex-col items-center gap-1 mb-2 w-full shrink-0">
+            <ShoeIndicator shoe={room.shoe} seed={room.solo?.shoeSeed ?? undefined} />
+            {justShuffled && (
+              <div className="text-xs text-amber-300 uppercase tracking-wider">🔀 New shoe shuffled</div>
+            )}
+          </div>
+        )}
         {/* Dealer Area — hidden during idle/betting so last-round cards don't linger */}
         {gameState !== 'idle' && gameState !== 'betting' && dealerHand.length > 0 && (
           <div className="flex flex-col items-center mb-4 mt-2 shrink-0">
@@ -527,17 +363,14 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
                 const justDealt = dealStep >= 0 && i < 2 && dealOrder === dealStep;
                 return (
                   <div key={card.id} className={`${justDealt ? 'animate-[dealCard_0.6s_ease-out]' : ''} ${isHidden ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
-                    <Card
-                      card={card}
-                      faceDown={i === 1 && (gameState === 'player_turn' || gameState === 'dealing')}
-                    />
+                    <Card card={card} faceDown={card.faceDown} />
                   </div>
                 );
               })}
             </div>
             {dealStep < 0 && dealerHand.length > 0 && (
               <div className="mt-2 text-slate-300 font-mono text-sm">
-                {gameState === 'player_turn'
+                {!showDealerHole
                   ? `Showing: ${dealerUpTotal}`
                   : `Total: ${calculateHandValue(dealerHand).total}${calculateHandValue(dealerHand).isSoft ? ' (Soft)' : ''}`
                 }
@@ -552,7 +385,11 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
         {/* Player Hands Area */}
         <div className="flex-1 flex items-start justify-center w-full gap-6 sm:gap-10 flex-wrap pt-2">
           {gameState === 'idle' ? (
-            <div className="text-slate-500 text-lg">Place your bet to start</div>
+            <div className="flex flex-col items-center gap-2">
+              <div className="text-slate-500 text-lg">Place your bet to start</div>
+              <div className="text-slate-600 text-xs">{describeRules(rules)}</div>
+              {error && <div className="text-red-400 text-sm">{error}</div>}
+            </div>
           ) : gameState === 'betting' ? (
             /* ── Betting UI ── */
             <div className="flex flex-col items-center gap-6">
@@ -594,7 +431,7 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
               {/* Clear / Deal buttons */}
               <div className="flex gap-4">
                 <button
-                  onClick={() => { playSound('click'); removeLastChip(); }}
+                  onClick={() => { playSound('click'); setCurrentBet(0); }}
                   disabled={currentBet === 0}
                   className="bg-slate-600 hover:bg-slate-500 disabled:bg-slate-800 disabled:text-slate-600 active:scale-95 text-white font-bold py-3 px-8 rounded-xl transition-all"
                 >
@@ -602,7 +439,7 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
                 </button>
                 <button
                   onClick={() => { playSound('click'); confirmBet(); }}
-                  disabled={currentBet === 0}
+                  disabled={currentBet === 0 || me?.hasBet}
                   className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-800 disabled:text-slate-600 active:scale-95 text-white font-bold py-3 px-10 rounded-xl text-lg transition-all"
                 >
                   Deal 🃏
@@ -677,15 +514,31 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
           </div>
         )}
 
+        {rejection && (
+          <div className="bg-red-900/80 border border-red-600 text-red-100 text-sm px-4 py-2 rounded-xl mb-2">
+            {rejection}
+          </div>
+        )}
+
         {/* Controls */}
         <div className="w-full mt-auto py-6">
           {gameState === 'idle' ? (
-            <div className="flex justify-center">
+            <div className="flex flex-col items-center gap-3">
+              {!user && (
+                <input
+                  value={seedInput}
+                  onChange={e => setSeedInput(e.target.value)}
+                  placeholder="Shoe seed (optional)"
+                  maxLength={64}
+                  className="w-56 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm text-center focus:outline-none focus:border-blue-500"
+                />
+              )}
               <button
-                onClick={() => { playSound('click'); startBetting(); }}
-                className="bg-blue-600 hover:bg-blue-500 active:scale-95 text-white font-bold py-4 px-14 rounded-xl text-xl shadow-lg transition-all"
+                onClick={() => { playSound('click'); startTable(); }}
+                disabled={!connected}
+                className="bg-blue-600 hover:bg-blue-500 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 text-white font-bold py-4 px-14 rounded-xl text-xl shadow-lg transition-all"
               >
-                Start Playing
+                {connected ? 'Start Playing' : 'Connecting…'}
               </button>
             </div>
           ) : gameState === 'game_over' ? (
@@ -693,57 +546,100 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
               {isBroke ? (
                 <>
                   <div className="text-red-400 font-bold text-lg">💸 You're out of chips!</div>
-                  <button
-                    onClick={() => {
-                      playSound('click');
-                      syncChips(STARTING_CHIPS);
-                      syncGameState('idle');
-                      setMessage('');
-                    }}
-                    className="bg-amber-600 hover:bg-amber-500 active:scale-95 text-white font-bold py-3 px-10 rounded-xl text-lg shadow-lg transition-all"
-                  >
-                    Rebuy ({STARTING_CHIPS} chips)
-                  </button>
+                  {rebuyButton}
                 </>
               ) : (
                 <button
-                  onClick={() => { playSound('click'); startBetting(); }}
+                  onClick={() => { playSound('click'); emit('next-round'); }}
                   className="bg-blue-600 hover:bg-blue-500 active:scale-95 text-white font-bold py-4 px-14 rounded-xl text-xl shadow-lg transition-all"
                 >
                   Play Again
                 </button>
               )}
             </div>
+          ) : gameState === 'insurance' ? (
+            <div className="flex flex-col items-center gap-3">
+              <div className="text-slate-300 text-sm uppercase tracking-widest">
+                {hasBlackjack ? 'Even money?' : 'Dealer shows an Ace — insurance?'}
+              </div>
+              <div className="flex gap-4 justify-center">
+                <button
+                  onClick={() => { playSound('click'); handleInsurance(true); }}
+                  disabled={!hasBlackjack && !canInsure}
+                  className="bg-sky-600 hover:bg-sky-500 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl min-w-[140px] shadow-md uppercase tracking-wider transition-all"
+                >
+                  {hasBlackjack ? 'Even Money' : `Insure (${insuranceStake})`}
+                </button>
+                <button
+                  onClick={() => { playSound('click'); handleInsurance(false); }}
+                  className="bg-slate-600 hover:bg-slate-500 active:scale-95 text-white font-bold py-4 px-6 rounded-xl min-w-[140px] shadow-md uppercase tracking-wider transition-all"
+                >
+                  No Thanks
+                </button>
+              </div>
+            </div>
+          ) : gameState === 'early_surrender' ? (
+            <div className="flex flex-col items-center gap-3">
+              <div className="text-slate-300 text-sm uppercase tracking-widest">
+                Surrender before the dealer checks for blackjack?
+              </div>
+              <div className="flex gap-4 justify-center">
+                <button
+                  onClick={() => { playSound('click'); emit('early-surrender', { surrender: true }); }}
+                  className="bg-slate-500 hover:bg-slate-400 active:scale-95 text-white font-bold py-4 px-6 rounded-xl min-w-[140px] shadow-md uppercase tracking-wider transition-all"
+                >
+                  Surrender
+                </button>
+                <button
+                  onClick={() => { playSound('click'); emit('early-surrender', { surrender: false }); }}
+                  className="bg-emerald-600 hover:bg-emerald-500 active:scale-95 text-white font-bold py-4 px-6 rounded-xl min-w-[140px] shadow-md uppercase tracking-wider transition-all"
+                >
+                  Play On
+                </button>
+              </div>
+            </div>
           ) : gameState === 'player_turn' ? (
             <div className="flex flex-wrap gap-3 sm:gap-4 justify-center w-full max-w-2xl px-4 mx-auto">
               <button
-                onClick={() => { playSound('click'); handleHit(); }}
-                className="action-btn bg-emerald-600 hover:bg-emerald-500 active:scale-95 text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
+                onClick={() => { playSound('click'); handleAction('hit'); }}
+                disabled={!canHit}
+                className="action-btn bg-emerald-600 hover:bg-emerald-500 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
               >
                 Hit
               </button>
               <button
-                onClick={() => { playSound('click'); handleStand(); }}
+                onClick={() => { playSound('click'); handleAction('stand'); }}
                 className="action-btn bg-red-600 hover:bg-red-500 active:scale-95 text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
               >
                 Stand
               </button>
               <button
-                onClick={() => { playSound('click'); handleDouble(); }}
+                onClick={() => { playSound('click'); handleAction('double'); }}
                 disabled={!canDouble}
                 className="action-btn bg-yellow-600 hover:bg-yellow-500 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
               >
                 Double
               </button>
               <button
-                onClick={() => { playSound('click'); handleSplit(); }}
+                onClick={() => { playSound('click'); handleAction('split'); }}
                 disabled={!canSplit}
                 className="action-btn bg-purple-600 hover:bg-purple-500 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
               >
                 Split
               </button>
+              {tableRules.surrender !== 'none' && (
+                <button
+                  onClick={() => { playSound('click'); handleAction('surrender'); }}
+                  disabled={!canSurrender}
+                  className="action-btn bg-slate-500 hover:bg-slate-400 active:scale-95 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed text-white font-bold py-4 px-6 rounded-xl min-w-[100px] shadow-md uppercase tracking-wider transition-all"
+                >
+                  Surrender
+                </button>
+              )}
             </div>
-          ) : gameState === 'betting' ? null : (
+          ) : gameState === 'betting' ? (
+            isBroke && <div className="flex justify-center">{rebuyButton}</div>
+          ) : gameState === 'dealing' ? null : (
             <div className="flex justify-center">
               <div className="text-slate-400 text-sm animate-pulse tracking-widest uppercase">
                 Dealer playing…
@@ -756,4 +652,4 @@ const PlayingMode: React.FC<PlayingModeProps> = ({ onBack, user }) => {
   );
 };
 
-export default PlayingMode;
\ No newline at end of file
+export default PlayingMode;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import { UserProfile, fetchHistory, GameHistoryEntry } from '../utils/api';
+import { UserProfile, fetchHistory, fetchTrainingHeatmap, GameHistoryEntry, TrainingHeatmapCell } from '../utils/api';
+import TrainingHeatmap from './TrainingHeatmap';
 
 interface ProfilePageProps {
     user: UserProfile;
@@ -10,9 +11,11 @@ interface ProfilePageProps {
 const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack, onLogout }) => {
     const [history, setHistory] = useState<GameHistoryEntry[]>([]);
     const [loadingHistory, setLoadingHistory] = useState(true);
+    const [heatmap, setHeatmap] = useState<TrainingHeatmapCell[]>([]);
 
     useEffect(() => {
         fetchHistory(20).then(h => { setHistory(h); setLoadingHistory(false); });
+        fetchTrainingHeatmap().then(setHeatmap);
     }, []);
 
     const { stats, training } = user;
@@ -81,6 +84,12 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack, onLogout }) =>
                             <StatBox label="Accuracy" value={`${training.accuracy}%`} color={training.accuracy >= 80 ? 'text-emerald-400' : 'text-amber-400'} />
                             <StatBox label="Best Streak" value={training.best_streak} color="text-amber-400" />
                         </div>
+                        {heatmap.length > 0 && (
+                            <div className="mt-6">
+                                <h3 className="text-sm font-bold text-white mb-3">Accuracy by Hand</h3>
+                                <TrainingHeatmap cells={heatmap} />
+                            </div>
+                        )}
                     </div>
                 )}
 
@@ -97,9 +106,13 @@ const ProfilePage: React.FC<ProfilePageProps> = ({ user, onBack, onLogout }) =>
                                 <div key={g.id} className="flex items-center justify-between bg-slate-700/30 rounded-xl px-4 py-3">
                                     <div className="flex items-center gap-3">
                                         <span className="text-xs uppercase font-bold text-slate-400">{g.mode}</span>
-                                        <span className="text-white text-sm">
-                                            {g.hands_won}W / {g.hands_lost}L / {g.hands_pushed}P
-                                        </span>
+                                        {g.mode === 'rebuy' ? (
+                                            <span className="text-slate-400 text-sm">Bankroll reset (not ranked)</span>
+                                        ) : (
+                                            <span className="text-white text-sm">
+                                                {g.hands_won}W / {g.hands_lost}L / {g.hands_pushed}P
+                                            </span>
+                                        )}
                                         {g.blackjacks > 0 && <span className="text-amber-400 text-xs">🃏×{g.blackjacks}</span>}
                                     </div>
                                     <div className={`font-bold font-mono text-sm ${g.chips_delta >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
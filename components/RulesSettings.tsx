@@ -0,0 +1,125 @@
+import React from 'react';
+import { TableRules } from '../types';
+import {
+    DEFAULT_RULES, DECK_OPTIONS, PAYOUT_OPTIONS, DOUBLE_OPTIONS, SPLIT_HAND_OPTIONS, SURRENDER_OPTIONS, PENETRATION_OPTIONS,
+    describeRules,
+} from '../utils/rules';
+import { playSound } from '../utils/sound';
+
+interface RulesSettingsProps {
+    rules: TableRules;
+    onChange: (rules: TableRules) => void;
+    onBack: () => void;
+}
+
+const RulesSettings: React.FC<RulesSettingsProps> = ({ rules, onChange, onBack }) => {
+    const update = <K extends keyof TableRules>(key: K, value: TableRules[K]) => {
+        playSound('click');
+        onChange({ ...rules, [key]: value });
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-900 p-4 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')]">
+            <div className="max-w-2xl mx-auto">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                        </svg>
+                    </button>
+                    <h1 className="text-xl font-bold text-white">⚙️ Table Rules</h1>
+                    <button
+                        onClick={() => { playSound('click'); onChange(DEFAULT_RULES); }}
+                        className="text-slate-400 hover:text-white text-sm font-bold transition-colors"
+                    >
+                        Reset
+                    </button>
+                </div>
+
+                <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-6 mb-6 space-y-5">
+                    <OptionRow label="Decks">
+                        {DECK_OPTIONS.map(d => (
+                            <OptionButton key={d} active={rules.decks === d} onClick={() => update('decks', d)}>{d}</OptionButton>
+                        ))}
+                    </OptionRow>
+                    <OptionRow label="Dealer Soft 17">
+                        <OptionButton active={rules.dealerHitsSoft17} onClick={() => update('dealerHitsSoft17', true)}>Hits (H17)</OptionButton>
+                        <OptionButton active={!rules.dealerHitsSoft17} onClick={() => update('dealerHitsSoft17', false)}>Stands (S17)</OptionButton>
+                    </OptionRow>
+                    <OptionRow label="Blackjack Pays">
+                        {PAYOUT_OPTIONS.map(p => (
+                            <OptionButton key={p} active={rules.blackjackPayout === p} onClick={() => update('blackjackPayout', p)}>{p}</OptionButton>
+                        ))}
+                    </OptionRow>
+                    <OptionRow label="Double On">
+                        {DOUBLE_OPTIONS.map(d => (
+                            <OptionButton key={d} active={rules.doubleOn === d} onClick={() => update('doubleOn', d)}>
+                                {d === 'any' ? 'Any Two Cards' : '9-11 Only'}
+                            </OptionButton>
+                        ))}
+                    </OptionRow>
+                    <OptionRow label="Double After Split">
+                        <OptionButton active={rules.doubleAfterSplit} onClick={() => update('doubleAfterSplit', true)}>Allowed</OptionButton>
+                        <OptionButton active={!rules.doubleAfterSplit} onClick={() => update('doubleAfterSplit', false)}>Not Allowed</OptionButton>
+                    </OptionRow>
+                    <OptionRow label="Split Up To">
+                        {SPLIT_HAND_OPTIONS.map(n => (
+                            <OptionButton key={n} active={rules.maxSplitHands === n} onClick={() => update('maxSplitHands', n)}>{n} Hands</OptionButton>
+                        ))}
+                    </OptionRow>
+                    <OptionRow label="Resplit Aces">
+                        <OptionButton active={rules.resplitAces} onClick={() => update('resplitAces', true)}>Allowed</OptionButton>
+                        <OptionButton active={!rules.resplitAces} onClick={() => update('resplitAces', false)}>Not Allowed</OptionButton>
+                    </OptionRow>
+                    <OptionRow label="Dealer Peek">
+                        <OptionButton active={rules.dealerPeek} onClick={() => update('dealerPeek', true)}>Peeks (US)</OptionButton>
+                        <OptionButton active={!rules.dealerPeek} onClick={() => update('dealerPeek', false)}>No Hole Card Check</OptionButton>
+                    </OptionRow>
+                    <OptionRow label="Surrender">
+                        {SURRENDER_OPTIONS.map(s => (
+                            <OptionButton key={s} active={rules.surrender === s} onClick={() => update('surrender', s)}>
+                                {s === 'none' ? 'Not Allowed' : s === 'late' ? 'Late' : 'Early'}
+                            </OptionButton>
+                        ))}
+                    </OptionRow>
+                    <OptionRow label="Cut Card (Penetration)">
+                        {PENETRATION_OPTIONS.map(p => (
+                            <OptionButton key={p} active={rules.penetration === p} onClick={() => update('penetration', p)}>
+                                {Math.round(p * 100)}%
+                            </OptionButton>
+                        ))}
+                    </OptionRow>
+                </div>
+
+                <div className="text-center text-slate-500 text-xs">
+                    {describeRules(rules)}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// ── Option helpers ──
+function OptionRow({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">{label}</div>
+            <div className="flex gap-2 flex-wrap">{children}</div>
+        </div>
+    );
+}
+
+function OptionButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+    return (
+        <button
+            onClick={onClick}
+            className={`px-4 py-2 rounded-xl text-sm font-bold transition-all active:scale-95
+                ${active ? 'bg-emerald-600 text-white' : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700'}`}
+        >
+            {children}
+        </button>
+    );
+}
+
+export default RulesSettings;
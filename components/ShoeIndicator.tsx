@@ -0,0 +1,42 @@
+import React from 'react';
+import { ShoeInfo } from '../types';
+
+interface ShoeIndicatorProps {
+  shoe: ShoeInfo;
+  seed?: string; // shown where the shoe can be replayed from its seed
+}
+
+// Dealt cards fill the bar towards the cut card; the discard tray count sits alongside
+const ShoeIndicator: React.FC<ShoeIndicatorProps> = ({ shoe, seed }) => {
+  const dealtPct = Math.min(100, (shoe.cardsDealt / shoe.size) * 100);
+  const cutPct = (shoe.cutCardAt / shoe.size) * 100;
+  const decksLeft = Math.round((shoe.cardsRemaining / 52) * 10) / 10;
+
+  return (
+    <div className="w-full max-w-xs">
+      <div className="flex justify-between text-[10px] uppercase tracking-wider text-slate-400 mb-1">
+        <span>🂠 Shoe {decksLeft} deck{decksLeft === 1 ? '' : 's'}</span>
+        <span>Discards {shoe.discards}</span>
+      </div>
+      <div className="relative w-full h-2 bg-slate-700 rounded-full">
+        <div
+          className={`h-full rounded-full transition-all ${shoe.cutCardOut ? 'bg-red-500' : 'bg-amber-500'}`}
+          style={{ width: `${dealtPct}%` }}
+        />
+        <div className="absolute -top-1 h-4 w-0.5 bg-yellow-300" style={{ left: `${cutPct}%` }} title="Cut card" />
+      </div>
+      {seed && (
+        <div className="text-[10px] text-slate-500 tracking-wider mt-1 text-center select-all" title="Deal this shoe again from its seed">
+          Seed {seed}
+        </div>
+      )}
+      {shoe.cutCardOut && (
+        <div className="text-[10px] text-red-400 uppercase tracking-wider mt-1 text-center">
+          Cut card out — shuffle after this round
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShoeIndicator;
@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Action, HandCategory, TableRules } from '../types';
+import { UserProfile, fetchTrainingHeatmap, TrainingHeatmapCell } from '../utils/api';
+import {
+    ACTION_STYLES, CATEGORY_LABELS, ChartCell, ErrorRates,
+    buildStrategyChart, cellName, chartToSvg, downloadChartPng, downloadChartSvg, printChart, rowLabel, upcardLabel,
+} from '../utils/chart';
+import { cellKey } from '../utils/drill';
+import { describeRules } from '../utils/rules';
+import { DEALER_UPCARDS } from '../utils/strategy';
+import { playSound } from '../utils/sound';
+
+interface StrategyChartProps {
+    rules: TableRules;
+    user: UserProfile | null;
+    onBack: () => void;
+}
+
+const formatEV = (ev: number) => `${ev >= 0 ? '+' : ''}${(ev * 100).toFixed(1)}`;
+
+// The basic strategy chart for the active rules, with the player's own misses laid over it
+const StrategyChart: React.FC<StrategyChartProps> = ({ rules, user, onBack }) => {
+    const chart = useMemo(() => buildStrategyChart(rules), [rules]);
+    const [selected, setSelected] = useState<ChartCell | null>(null);
+    const [history, setHistory] = useState<TrainingHeatmapCell[]>([]);
+    const [showMistakes, setShowMistakes] = useState(false);
+    const [exportError, setExportError] = useState('');
+
+    // Only misses made under these rules: the same cell can have a different right play elsewhere
+    useEffect(() => {
+        let current = true;
+        setHistory([]);
+        if (user) fetchTrainingHeatmap(rules).then(cells => current && setHistory(cells));
+        return () => { current = false; };
+    }, [user, rules]);
+
+    useEffect(() => {
+        setSelected(null);
+    }, [chart]);
+
+    const historyByKey = useMemo(() => new Map(history.map(c => [cellKey(c), c])), [history]);
+    const errorRates: ErrorRates = useMemo(() => new Map(history.map(c => [cellKey(c), 1 - c.correct / c.decisions])), [history]);
+    const overlay = showMistakes && history.length > 0;
+
+    const exportAs = (format: 'svg' | 'png' | 'print') => {
+        playSound('click');
+        setExportError('');
+        const svg = chartToSvg(chart, rules, overlay ? errorRates : undefined);
+        if (format === 'svg') downloadChartSvg(svg, rules);
+        else if (format === 'png') downloadChartPng(svg, rules).catch(err => setExportError(err.message));
+        else if (!printChart(svg, rules)) setExportError('Allow pop-ups to print the chart');
+    };
+
+    const selectedHistory = selected ? historyByKey.get(cellKey(selected)) : undefined;
+
+    return (
+        <div className="min-h-screen bg-slate-900 p-4 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')]">
+            <div className="max-w-2xl mx-auto">
+                {/* Header */}
+                <div className="flex items-center justify-between mb-6">
+                    <button onClick={onBack} className="text-slate-400 hover:text-white transition-colors">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                        </svg>
+                    </button>
+                    <h1 className="text-xl font-bold text-white">📖 Strategy Chart</h1>
+                    <div className="w-6" />
+                </div>
+
+                <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-6 mb-6">
+                    <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                        <span className="text-slate-400 text-xs font-mono">{describeRules(rules)}</span>
+                        <div className="flex gap-2">
+                            {(['svg', 'png', 'print'] as const).map(format => (
+                                <button
+                                    key={format}
+                                    onClick={() => exportAs(format)}
+                                    className="bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold px-3 py-1.5 rounded-lg transition-colors"
+                                >
+                                    {format === 'print' ? '🖨️ Print' : `⬇️ ${format.toUpperCase()}`}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    {exportError && <div className="text-red-400 text-xs mb-3">{exportError}</div>}
+
+                    {/* Mistake overlay */}
+                    <div className="flex items-center justify-between bg-slate-900/40 rounded-xl px-4 py-2 mb-5">
+                        <span className="text-slate-300 text-sm">
+                            {!user ? 'Log in to see your training mistakes on the chart'
+                                : history.length === 0 ? 'Train a few hands to see your mistakes on the chart'
+                                    : 'Show my mistakes'}
+                        </span>
+                        <button
+                            onClick={() => { playSound('click'); setShowMistakes(s => !s); }}
+                            disabled={history.length === 0}
+                            className={`text-xs font-bold px-3 py-1 rounded-lg transition-colors disabled:opacity-40 ${overlay ? 'bg-red-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                        >
+                            {overlay ? 'On' : 'Off'}
+                        </button>
+                    </div>
+
+                    {(Object.keys(CATEGORY_LABELS) as HandCategory[]).map(category => (
+                        <div key={category} className="mb-5">
+                            <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">{CATEGORY_LABELS[category]}</div>
+                            <div className="overflow-x-auto">
+                                <table className="border-separate border-spacing-0.5 text-xs font-mono mx-auto">
+                                    <thead>
+                                        <tr>
+                                            <th className="text-slate-500 font-normal px-1">vs</th>
+                                            {DEALER_UPCARDS.map(up => (
+                                                <th key={up} className="text-slate-400 w-9">{upcardLabel(up)}</th>
+                                            ))}
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {chart[category].map(row => (
+                                            <tr key={row.total}>
+                                                <th className="text-slate-400 text-right pr-2 whitespace-nowrap">{rowLabel(category, row.total)}</th>
+                                                {row.cells.map(cell => {
+                                                    const style = ACTION_STYLES[cell.decision.action];
+                                                    const rate = overlay ? errorRates.get(cellKey(cell)) : undefined;
+                                                    const isSelected = selected !== null && cellKey(selected) === cellKey(cell);
+                                                    return (
+                                                        <td key={cell.upcard} className="p-0">
+                                                            <button
+                                                                onClick={() => setSelected(isSelected ? null : cell)}
+                                                                title={`${cellName(cell)}: ${cell.decision.action}`}
+                                                                style={{ backgroundColor: style.fill, color: style.text }}
+                                                                className={`relative w-9 h-7 rounded font-bold transition-transform hover:scale-110
+                                                                    ${isSelected ? 'ring-2 ring-white z-10' : rate ? 'ring-2 ring-red-900' : ''}
+                                                                    ${overlay && rate === undefined ? 'opacity-40' : ''}`}
+                                                            >
+                                                                {style.letter}
+                                                                {rate !== undefined && rate > 0 && (
+                                                                    <span className="absolute -top-1.5 -right-1.5 bg-red-900 text-white text-[8px] leading-none rounded px-0.5 py-0.5">
+                                                                        {Math.round(rate * 100)}
+                                                                    </span>
+                                                                )}
+                                                            </button>
+                                                        </td>
+                                                    );
+                                                })}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="flex flex-wrap justify-center gap-3 text-[11px] text-slate-400">
+                        {(Object.keys(ACTION_STYLES) as Action[]).map(action => (
+                            <span key={action}>
+                                <span className="inline-block w-2.5 h-2.5 rounded-sm mr-1" style={{ backgroundColor: ACTION_STYLES[action].fill }} />
+                                {ACTION_STYLES[action].letter} {action}
+                            </span>
+                        ))}
+                        {overlay && <span className="text-red-400">· number = % of your answers that were wrong</span>}
+                    </div>
+                </div>
+
+                {/* Selected cell */}
+                {selected && (
+                    <div className="bg-slate-800/80 backdrop-blur-md rounded-3xl border border-slate-700 p-6 mb-6">
+                        <div className="flex items-center justify-between mb-3">
+                            <h2 className="text-white font-bold">{cellName(selected)}</h2>
+                            <span
+                                className="text-sm font-bold px-3 py-1 rounded-lg"
+                                style={{ backgroundColor: ACTION_STYLES[selected.decision.action].fill, color: ACTION_STYLES[selected.decision.action].text }}
+                            >
+                                {selected.decision.action}
+                            </span>
+                        </div>
+                        <div className="text-slate-200 text-sm font-semibold mb-2">{selected.decision.reason}</div>
+                        <div className="text-slate-300 text-sm leading-relaxed mb-3">{selected.decision.analysis}</div>
+                        <div className="text-slate-500 text-xs font-mono mb-3">{selected.decision.example}</div>
+                        <div className="flex flex-wrap gap-2 text-xs font-mono">
+                            {(Object.keys(selected.decision.evs) as Action[]).map(action => (
+                                <span key={action} className={`px-2 py-1 rounded ${action === selected.decision.action ? 'bg-emerald-600/30 text-emerald-300' : 'bg-slate-700/50 text-slate-400'}`}>
+                                    {action} {formatEV(selected.decision.evs[action]!)}
+                                </span>
+                            ))}
+                        </div>
+                        {selectedHistory && (
+                            <div className="mt-3 text-xs text-slate-400">
+                                Your record: <span className="text-white font-mono">{selectedHistory.correct}/{selectedHistory.decisions}</span> correct
+                                · {(selectedHistory.avg_response_ms / 1000).toFixed(1)}s average
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default StrategyChart;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatMessage, ChatReaction, Reaction } from '../types';
+import { CHAT_MAX_LENGTH, REACTIONS } from '../core/chat';
+
+interface TableChatProps {
+    messages: ChatMessage[];              // the room's history, then live messages
+    reactions: (ChatReaction & { key: number })[]; // shown for a moment, then dropped
+    mySeatId: string;
+    onSend: (text: string) => void;
+    onReact: (emoji: Reaction) => void;
+}
+
+const formatTime = (at: number): string =>
+    new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Room chat, tucked into the corner of the table; the server filters and rate limits it
+const TableChat: React.FC<TableChatProps> = ({ messages, reactions, mySeatId, onSend, onReact }) => {
+    const [open, setOpen] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [seenId, setSeenId] = useState<string | null>(messages[messages.length - 1]?.id ?? null); // last message read
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Messages that arrive while the panel is open are read as they come in
+    useEffect(() => {
+        if (open && messages.length > 0) setSeenId(messages[messages.length - 1].id);
+    }, [open, messages]);
+
+    useEffect(() => {
+        if (open && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+    }, [open, messages]);
+
+    // The history only keeps the latest messages, so the last one read may have dropped off
+    const unread = messages.length - 1 - messages.findIndex(m => m.id === seenId);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.trim()) return;
+        onSend(draft.trim());
+        setDraft('');
+    };
+
+    return (
+        <div className="fixed bottom-4 right-4 z-30 flex flex-col items-end gap-2">
+            {/* Reactions from around the table */}
+            {reactions.length > 0 && (
+                <div className="flex flex-col items-end gap-1 pointer-events-none">
+                    {reactions.map(r => (
+                        <div key={r.key} className="bg-slate-800/90 border border-slate-700 rounded-full px-3 py-1 text-sm text-slate-200 shadow-lg">
+                            <span className="text-slate-400 text-xs mr-1">{r.seatId === mySeatId ? 'You' : r.name}</span>
+                            {r.emoji}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {open && (
+                <div className="w-80 max-w-[calc(100vw-2rem)] bg-slate-800/95 backdrop-blur-md border border-slate-700 rounded-2xl shadow-2xl flex flex-col">
+                    <div className="flex items-center justify-between px-4 py-2 border-b border-slate-700">
+                        <span className="text-slate-300 text-sm font-bold">💬 Table Chat</span>
+                        <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-white text-xl leading-none">×</button>
+                    </div>
+
+                    <div ref={listRef} className="h-64 overflow-y-auto px-4 py-2 space-y-1.5">
+                        {messages.length === 0 && (
+                            <div className="text-center text-slate-500 text-xs py-8">No messages yet — say hello.</div>
+                        )}
+                        {messages.map(m => (
+                            <div key={m.id} className="text-sm leading-snug break-words">
+                                <span className="text-slate-500 text-[10px] font-mono mr-1">{formatTime(m.at)}</span>
+                                <span className={`font-bold ${m.seatId === mySeatId ? 'text-blue-300' : m.spectator ? 'text-slate-400' : 'text-emerald-300'}`}>
+                                    {m.name}{m.spectator && ' 👀'}:
+                                </span>{' '}
+                                <span className="text-slate-200">{m.text}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex justify-between px-3 py-1 border-t border-slate-700">
+                        {REACTIONS.map(emoji => (
+                            <button
+                                key={emoji}
+                                onClick={() => onReact(emoji)}
+                                className="text-lg hover:scale-125 active:scale-95 transition-transform"
+                            >
+                                {emoji}
+                            </button>
+                        ))}
+                    </div>
+
+                    <form onSubmit={handleSubmit} className="flex gap-2 p-3 pt-1">
+                        <input
+                            type="text"
+                            value={draft}
+                            onChange={e => setDraft(e.target.value)}
+                            maxLength={CHAT_MAX_LENGTH}
+                            placeholder="Message the table"
+                            className="flex-1 min-w-0 bg-slate-700/60 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm
+                  placeholder-slate-500 focus:outline-none focus:border-blue-500 transition-all"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!draft.trim()}
+                            className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-sm font-bold px-3 rounded-lg transition-colors"
+                        >
+                            Send
+                        </button>
+                    </form>
+                </div>
+            )}
+
+            {!open && (
+                <button
+                    onClick={() => setOpen(true)}
+                    className="relative bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white rounded-full w-12 h-12 shadow-lg text-xl transition-colors"
+                    title="Table chat"
+                >
+                    💬
+                    {unread > 0 && (
+                        <span className="absolute -top-1 -right-1 bg-red-500 text-white text-[10px] font-bold rounded-full min-w-[1.25rem] h-5 px-1 flex items-center justify-center">
+                            {unread > 9 ? '9+' : unread}
+                        </span>
+                    )}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TableChat;
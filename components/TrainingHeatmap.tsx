@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { TrainingHeatmapCell } from '../utils/api';
+import { DEALER_UPCARDS, HARD_TOTALS, PAIR_VALUES, SOFT_TOTALS } from '../utils/strategy';
+
+interface TrainingHeatmapProps {
+    cells: TrainingHeatmapCell[];
+}
+
+type Category = TrainingHeatmapCell['category'];
+
+const CATEGORY_LABELS: Record<Category, string> = { hard: 'Hard', soft: 'Soft', pair: 'Pairs' };
+
+const CATEGORY_ROWS: Record<Category, readonly number[]> = {
+    hard: HARD_TOTALS,
+    soft: SOFT_TOTALS,
+    pair: PAIR_VALUES,
+};
+
+const upcardLabel = (up: number) => (up === 11 ? 'A' : String(up));
+
+const rowLabel = (category: Category, total: number): string => {
+    if (category === 'pair') return `${upcardLabel(total)},${upcardLabel(total)}`;
+    if (category === 'soft') return `A,${total - 11}`;
+    return String(total);
+};
+
+const cellName = (c: TrainingHeatmapCell): string =>
+    `${c.category === 'pair' ? 'Pair of' : CATEGORY_LABELS[c.category]} ${rowLabel(c.category, c.total)} vs ${upcardLabel(c.upcard)}`;
+
+const accuracyColor = (accuracy: number): string =>
+    accuracy >= 0.9 ? 'bg-emerald-600/70 text-white'
+        : accuracy >= 0.75 ? 'bg-amber-500/70 text-white'
+            : accuracy >= 0.5 ? 'bg-orange-600/80 text-white'
+                : 'bg-red-600/90 text-white';
+
+// Training accuracy per strategy chart cell, so the weak spots stand out
+const TrainingHeatmap: React.FC<TrainingHeatmapProps> = ({ cells }) => {
+    const [category, setCategory] = useState<Category>('hard');
+
+    const byKey = new Map(cells.map(c => [`${c.category}|${c.total}|${c.upcard}`, c]));
+    const mostMissed = cells
+        .filter(c => c.correct < c.decisions)
+        .sort((a, b) => (b.decisions - b.correct) - (a.decisions - a.correct) || a.correct / a.decisions - b.correct / b.decisions)
+        .slice(0, 5);
+
+    return (
+        <div>
+            <div className="flex bg-slate-900/60 rounded-xl p-1 mb-4 text-xs font-bold w-fit">
+                {(Object.keys(CATEGORY_LABELS) as Category[]).map(c => (
+                    <button
+                        key={c}
+                        onClick={() => setCategory(c)}
+                        className={`px-4 py-1.5 rounded-lg transition-all ${category === c ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                    >
+                        {CATEGORY_LABELS[c]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="border-separate border-spacing-0.5 text-[10px] font-mono mx-auto">
+                    <thead>
+                        <tr>
+                            <th className="text-slate-500 font-normal px-1">vs</th>
+                            {DEALER_UPCARDS.map(up => (
+                                <th key={up} className="text-slate-400 w-8">{upcardLabel(up)}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {CATEGORY_ROWS[category].map(total => (
+                            <tr key={total}>
+                                <th className="text-slate-400 text-right pr-2 whitespace-nowrap">{rowLabel(category, total)}</th>
+                                {DEALER_UPCARDS.map(up => {
+                                    const cell = byKey.get(`${category}|${total}|${up}`);
+                                    if (!cell) return <td key={up} className="bg-slate-700/30 w-8 h-6 rounded" />;
+                                    const accuracy = cell.correct / cell.decisions;
+                                    return (
+                                        <td
+                                            key={up}
+                                            title={`${cellName(cell)}: ${cell.correct}/${cell.decisions} correct · ${(cell.avg_response_ms / 1000).toFixed(1)}s average`}
+                                            className={`w-8 h-6 rounded text-center ${accuracyColor(accuracy)}`}
+                                        >
+                                            {Math.round(accuracy * 100)}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex justify-center gap-3 mt-3 text-[10px] text-slate-400">
+                <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-emerald-600/70 mr-1" />90%+</span>
+                <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-amber-500/70 mr-1" />75%+</span>
+                <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-orange-600/80 mr-1" />50%+</span>
+                <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-red-600/90 mr-1" />below</span>
+                <span><span className="inline-block w-2.5 h-2.5 rounded-sm bg-slate-700/30 mr-1" />not drilled</span>
+            </div>
+
+            {mostMissed.length > 0 && (
+                <div className="mt-4">
+                    <div className="text-slate-400 text-xs uppercase tracking-widest mb-2">Most Missed</div>
+                    <div className="space-y-1">
+                        {mostMissed.map(c => (
+                            <div key={`${c.category}|${c.total}|${c.upcard}`} className="flex justify-between bg-slate-700/30 rounded-lg px-3 py-1.5 text-sm">
+                                <span className="text-white">{cellName(c)}</span>
+                                <span className="text-red-400 font-mono">{c.decisions - c.correct} of {c.decisions} wrong</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TrainingHeatmap;
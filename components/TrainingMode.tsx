@@ -1,27 +1,76 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { io } from 'socket.io-client';
 import Card from './Card';
 import { playSound } from '../utils/sound';
 import Controls from './Controls';
 import Feedback from './Feedback';
-import { createDeck, shuffleDeck, calculateHandValue, isStrictPair } from '../utils/deck';
-import { getCorrectAction } from '../utils/strategy';
-import { Card as CardType, Action, HandResult, GameStats } from '../types';
+import DrillFilterPanel from './DrillFilterPanel';
+import { calculateHandValue, createCardOfValue, createTwoCardHand } from '../utils/deck';
+import { createShoe, discardCards, drawCard, drawCardWhere, shuffleIfCutCardOut } from '../utils/shoe';
+import { describeIndexPlay, getCorrectAction, getInsuranceDecision, INSURANCE_INDEX } from '../utils/strategy';
+import { INDEX_PLAYS } from '../utils/deviations';
+import { DEFAULT_RULES, describeRules, isDoubleAllowed, isInsuranceOffered, isSplitAllowed, isSurrenderAllowed } from '../utils/rules';
+import { Card as CardType, Action, HandResult, GameStats, PlayerHand, TableRules, TrainingDecision } from '../types';
 import { UserProfile, getToken } from '../utils/api';
+import {
+  DRILL_CELLS, DrillFilter, MASTERED_BOX, cellKey, drillProgress, emptySchedule, filterCells, loadDrillFilter, loadDrillSchedule,
+  nextDrillCell, randomDrillCell, reviewCell, saveDrillFilter, saveDrillSchedule,
+} from '../utils/drill';
+import { strategyCell, trainingRulesKey } from '../core/training';
+import { HandSettlement, applyAction, nextHandIndex, playDealer, settlePlayThrough, startHands } from '../utils/playthrough';
 
 interface TrainingModeProps {
   onBack: () => void;
   user?: UserProfile | null;
+  rules?: TableRules;
 }
 
-const TrainingMode: React.FC<TrainingModeProps> = ({ onBack, user }) => {
-  const [deck, setDeck] = useState<CardType[]>([]);
-  const [playerHand, setPlayerHand] = useState<CardType[]>([]);
+type TrainingVariant = 'basic' | 'deviations' | 'adaptive';
+
+const VARIANT_LABELS: Record<TrainingVariant, string> = {
+  basic: 'Basic Strategy',
+  deviations: 'Count Deviations',
+  adaptive: 'Adaptive Drill',
+};
+
+const randomInt = (min: number, max: number) => min + Math.floor(Math.random() * (max - min + 1));
+
+const RESULT_LABELS: Record<HandSettlement['result'], string> = { win: 'Win', loss: 'Loss', push: 'Push', surrendered: 'Surrendered' };
+
+const formatUnits = (units: number) => `${units > 0 ? '+' : ''}${units}`;
+
+const TrainingMode: React.FC<TrainingModeProps> = ({ onBack, user, rules = DEFAULT_RULES }) => {
+  const shoeRef = useRef(createShoe(rules));
+  const dealtRef = useRef<CardType[]>([]); // shoe cards on the table, discarded on the next deal
+  // One hand until a split; the hand being asked about is hands[activeHand]
+  const [hands, setHands] = useState<PlayerHand[]>([]);
+  const [activeHand, setActiveHand] = useState(0);
+  const hand: PlayerHand | undefined = hands[activeHand];
+  const playerHand = hand?.cards ?? [];
   const [dealerHand, setDealerHand] = useState<CardType[]>([]);
   const [gameResult, setGameResult] = useState<HandResult | null>(null);
+  // Against an Ace the insurance question comes first and is graded on its own
+  const [insurancePending, setInsurancePending] = useState(false);
+  const [insuranceResult, setInsuranceResult] = useState<HandResult | null>(null);
   const [stats, setStats] = useState<GameStats>({ correct: 0, total: 0, streak: 0 });
+  // Deviations variant: every hand comes with a true count; index spots are scored on their own
+  const [variant, setVariant] = useState<TrainingVariant>('basic');
+  const [trueCount, setTrueCount] = useState(0);
+  const [indexStats, setIndexStats] = useState<GameStats>({ correct: 0, total: 0, streak: 0 });
+  // Adaptive variant: hands come from a Leitner schedule over the strategy chart, saved per rule set
+  const [schedule, setSchedule] = useState(() => loadDrillSchedule(rules));
+  // Drill filter: limits the basic and adaptive variants to chosen hands and upcards
+  const [filter, setFilter] = useState<DrillFilter>(loadDrillFilter);
+  const [showFilter, setShowFilter] = useState(false);
+  const pool = useMemo(() => filterCells(filter), [filter]);
+  const isFiltered = pool.length < DRILL_CELLS.length;
+  // Play-through: a correct Hit or Split deals on until every hand is finished and the dealer has played
+  const [playThrough, setPlayThrough] = useState(false);
+  const [stepResult, setStepResult] = useState<HandResult | null>(null); // last correct decision mid-hand
+  const [settlements, setSettlements] = useState<HandSettlement[] | null>(null);
   const [loading, setLoading] = useState(true);
   const bestStreakRef = useRef(0);
+  const shownAtRef = useRef(Date.now()); // when the current question was put, for response times
 
   // Socket ref for sending results to server
   const socketRef = useRef((() => {
@@ -30,84 +79,248 @@ const TrainingMode: React.FC<TrainingModeProps> = ({ onBack, user }) => {
   })());
 
   useEffect(() => {
-    const newDeck = shuffleDeck(createDeck(6));
-    setDeck(newDeck);
+    shoeRef.current = createShoe(rules);
+    dealtRef.current = [];
     setLoading(false);
-  }, []);
+  }, [rules.decks, rules.penetration]);
+
+  const rulesLabel = describeRules(rules);
+  const rulesKey = trainingRulesKey(rules);
+  useEffect(() => {
+    setSchedule(loadDrillSchedule(rules));
+  }, [rulesKey]);
 
   const dealHand = useCallback(() => {
-    if (deck.length < 15) {
-      const newDeck = shuffleDeck(createDeck(6));
-      setDeck(newDeck);
-    }
+    const shoe = shoeRef.current;
+    discardCards(shoe, dealtRef.current);
+    shuffleIfCutCardOut(shoe);
 
-    const currentDeck = [...deck];
-    if (currentDeck.length < 10) {
-      const newD = shuffleDeck(createDeck(6));
-      setDeck(newD);
-      return;
+    let p1: CardType, d1: CardType, p2: CardType;
+    if (variant === 'adaptive' || (variant === 'basic' && isFiltered)) {
+      // Built to order for the next cell (the schedule's, or any the filter allows); the shoe is left alone
+      const cell = variant === 'adaptive' ? nextDrillCell(schedule, pool) : randomDrillCell(pool);
+      [p1, p2] = createTwoCardHand(cell.category, cell.total);
+      d1 = createCardOfValue(cell.upcard);
+      dealtRef.current = [];
+    } else {
+      p1 = drawCard(shoe);
+      d1 = drawCard(shoe);
+      p2 = drawCard(shoe);
+      dealtRef.current = [p1, d1, p2];
     }
 
-    const p1 = currentDeck.pop()!;
-    const d1 = currentDeck.pop()!;
-    const p2 = currentDeck.pop()!;
+    if (variant === 'deviations') {
+      // Half the hands are index spots, with a count near the index so both sides come up
+      if (Math.random() < 0.5) {
+        const spot = INDEX_PLAYS[Math.floor(Math.random() * INDEX_PLAYS.length)];
+        [p1, p2] = createTwoCardHand(spot.kind, spot.total);
+        d1 = createCardOfValue(spot.upcard);
+        setTrueCount(spot.index + randomInt(-2, 2));
+      } else {
+        setTrueCount(d1.rank === 'A' && Math.random() < 0.5 ? INSURANCE_INDEX + randomInt(-2, 2) : randomInt(-3, 5));
+      }
+    }
 
-    setPlayerHand([p1, p2]);
+    setHands(startHands([p1, p2]));
+    setActiveHand(0);
     setDealerHand([d1]);
-    setDeck(currentDeck);
     setGameResult(null);
+    setStepResult(null);
+    setSettlements(null);
+    setInsurancePending(variant !== 'adaptive' && isInsuranceOffered(d1, rules)); // the drill is about the play
+    setInsuranceResult(null);
+    shownAtRef.current = Date.now();
     playSound('deal');
-  }, [deck]);
+  }, [rules, variant, schedule, pool, isFiltered]);
 
   useEffect(() => {
-    if (!loading && playerHand.length === 0) {
+    if (!loading && hands.length === 0) {
       dealHand();
     }
-  }, [loading, dealHand, playerHand.length]);
+  }, [loading, dealHand, hands.length]);
 
-  const handleAction = (action: Action) => {
-    if (gameResult) return;
-
-    const dealerUpCard = dealerHand[0];
-    const { action: correctAction, reason, analysis, example } = getCorrectAction(playerHand, dealerUpCard);
-    const isCorrect = action === correctAction;
+  // Index spots (trueCount set) are scored apart from basic strategy
+  const recordDecision = (decision: Omit<TrainingDecision, 'responseMs' | 'rules'>) => {
+    const isCorrect = decision.action === decision.correctAction;
+    logDecision(decision, isCorrect);
 
-    setStats(prev => {
-      const newStreak = isCorrect ? prev.streak + 1 : 0;
-      if (newStreak > bestStreakRef.current) bestStreakRef.current = newStreak;
-      return {
+    if (decision.trueCount !== null) {
+      setIndexStats(prev => ({
         total: prev.total + 1,
         correct: prev.correct + (isCorrect ? 1 : 0),
-        streak: newStreak
-      };
-    });
+        streak: isCorrect ? prev.streak + 1 : 0,
+      }));
+      playSound(isCorrect ? 'win' : 'loss');
+      return;
+    }
+
+    setStats(prev => ({
+      total: prev.total + 1,
+      correct: prev.correct + (isCorrect ? 1 : 0),
+      streak: isCorrect ? prev.streak + 1 : 0,
+    }));
 
     playSound(isCorrect ? 'win' : 'loss');
+  };
 
-    // Send training result to server every 5 decisions
+  // Every decision goes to the server as it is made (logged-in users), with the rules it was graded under, for the heatmaps
+  const logDecision = (decision: Omit<TrainingDecision, 'responseMs' | 'rules'>, isCorrect: boolean) => {
+    if (decision.trueCount === null) {
+      bestStreakRef.current = Math.max(bestStreakRef.current, isCorrect ? stats.streak + 1 : 0);
+    }
     const token = getToken();
-    if (token && socketRef.current && (stats.total + 1) % 5 === 0) {
-      socketRef.current.emit('save-training-result', {
-        token,
-        total: 5,
-        correct: stats.correct + (isCorrect ? 1 : 0) - (stats.total >= 5 ? stats.correct : 0),
-        bestStreak: bestStreakRef.current,
-      });
+    if (!token || !socketRef.current) return;
+    socketRef.current.emit('training-decision', {
+      token,
+      decision: { ...decision, rules, responseMs: Date.now() - shownAtRef.current },
+      bestStreak: bestStreakRef.current,
+    });
+  };
+
+  const handleInsurance = (take: boolean) => {
+    if (!insurancePending) return;
+
+    const counting = variant === 'deviations';
+    const { take: correct, reason, analysis, example } = getInsuranceDecision(playerHand, dealerHand[0], rules, counting ? trueCount : undefined);
+    const isCorrect = take === correct;
+    recordDecision({
+      kind: 'insurance',
+      cards: playerHand.map(c => c.rank),
+      upcard: dealerHand[0].rank,
+      action: take ? 'Insurance' : 'No Insurance',
+      correctAction: correct ? 'Insurance' : 'No Insurance',
+      trueCount: counting ? trueCount : null,
+    });
+
+    setInsurancePending(false);
+    setInsuranceResult({
+      isCorrect,
+      userAction: take ? 'Insurance' : 'No Insurance',
+      correctAction: correct ? 'Insurance' : 'No Insurance',
+      explanation: reason,
+      analysis,
+      example,
+      ...(counting && {
+        trueCount,
+        indexPlay: `Take insurance at a true count of +${INSURANCE_INDEX} or higher.`,
+        isDeviation: correct,
+      }),
+    });
+  };
+
+  const handleAction = (action: Action) => {
+    if (!hand || gameResult || insurancePending || insuranceResult) return;
+
+    const dealerUpCard = dealerHand[0];
+    const isOpening = hands.length === 1 && playerHand.length === 2;
+    const counting = variant === 'deviations';
+    const { action: correctAction, reason, analysis, example, indexPlay, isDeviation } = getCorrectAction(playerHand, dealerUpCard, rules, {
+      isSplit: hand.isSplit,
+      splitAces: hand.splitAces,
+      handCount: hands.length,
+      ...(counting && { trueCount }),
+    });
+    const isCorrect = action === correctAction;
+    recordDecision({
+      kind: 'play',
+      cards: playerHand.map(c => c.rank),
+      upcard: dealerUpCard.rank,
+      action,
+      correctAction,
+      trueCount: counting && indexPlay ? trueCount : null,
+    });
+
+    if (variant === 'adaptive' && isOpening) {
+      const next = reviewCell(schedule, strategyCell(playerHand, dealerUpCard.value), isCorrect, Date.now() - shownAtRef.current);
+      setSchedule(next);
+      saveDrillSchedule(rules, next);
     }
 
-    setGameResult({
+    const result: HandResult = {
       isCorrect,
       userAction: action,
       correctAction,
       explanation: reason,
       analysis,
-      example
-    });
+      example,
+      ...(counting && indexPlay && {
+        trueCount,
+        indexPlay: describeIndexPlay(indexPlay),
+        isDeviation,
+      }),
+    };
+
+    // A mistake ends a play-through there and then, like any graded hand
+    if (!playThrough || !isCorrect) {
+      setGameResult(result);
+      return;
+    }
+
+    const draw = (fits?: (card: CardType) => boolean) => {
+      const card = fits ? drawCardWhere(shoeRef.current, fits) : drawCard(shoeRef.current);
+      dealtRef.current.push(card);
+      return card;
+    };
+    const played = applyAction(hands, activeHand, action, draw, rules);
+    setHands(played);
+
+    const next = nextHandIndex(played, activeHand);
+    if (next >= 0) {
+      setActiveHand(next);
+      setStepResult(result);
+      shownAtRef.current = Date.now();
+      playSound('deal');
+      return;
+    }
+
+    // Every hand is finished: the dealer plays out and the hands are settled
+    const dealerCards = playDealer(dealerUpCard, played, draw, rules);
+    setDealerHand(dealerCards);
+    setSettlements(settlePlayThrough(played, dealerCards, rules));
+    setStepResult(null);
+    setGameResult(result);
+  };
+
+  const changeFilter = (next: DrillFilter) => {
+    setFilter(next);
+    saveDrillFilter(next);
+  };
+
+  const closeFilter = () => {
+    setShowFilter(false);
+    setHands([]); // deal from the new filter straight away
+  };
+
+  const resetSchedule = () => {
+    if (!window.confirm('Forget your drill progress for these rules?')) return;
+    const fresh = emptySchedule();
+    setSchedule(fresh);
+    saveDrillSchedule(rules, fresh);
+    setHands([]);
+  };
+
+  const switchVariant = (v: TrainingVariant) => {
+    if (v === variant) return;
+    playSound('click');
+    setVariant(v);
+    setHands([]); // the deal effect picks up the new variant
+  };
+
+  const togglePlayThrough = () => {
+    playSound('click');
+    setPlayThrough(p => !p);
+    setHands([]);
   };
 
   const { total, isSoft } = calculateHandValue(playerHand);
-  const canSplit = isStrictPair(playerHand);
-  const canDouble = playerHand.length === 2;
+  const canSplit = isSplitAllowed(playerHand, hands.length, rules, hand?.splitAces);
+  const canDouble = isDoubleAllowed(playerHand, rules, hand?.isSplit);
+  const canSurrender = isSurrenderAllowed(playerHand, rules, hand?.isSplit, hands.length);
+  const progress = drillProgress(schedule, pool);
+  const dealerDone = dealerHand.length > 1;
+  const currentCell = hands.length === 1 && playerHand.length === 2 && dealerHand.length > 0
+    ? schedule.cells[cellKey(strategyCell(playerHand, dealerHand[0].value))]
+    : undefined;
 
   if (loading) return <div className="flex h-full items-center justify-center text-white">Loading...</div>;
 
@@ -128,6 +341,15 @@ const TrainingMode: React.FC<TrainingModeProps> = ({ onBack, user }) => {
               {stats.total === 0 ? '0%' : `${Math.round((stats.correct / stats.total) * 100)}%`}
             </span>
           </div>
+          {variant === 'deviations' && (
+            <div className="flex flex-col items-end">
+              <span className="text-slate-400 text-xs uppercase">Index</span>
+              <span className={indexStats.total > 0 && indexStats.correct / indexStats.total > 0.9 ? "text-emerald-400" : "text-amber-300"}>
+                {indexStats.total === 0 ? '0%' : `${Math.round((indexStats.correct / indexStats.total) * 100)}%`}
+                <span className="text-slate-500 text-xs"> ({indexStats.correct}/{indexStats.total})</span>
+              </span>
+            </div>
+          )}
           <div className="flex flex-col items-end">
             <span className="text-slate-400 text-xs uppercase">Streak</span>
             <span className="text-yellow-400">🔥 {stats.streak}</span>
@@ -136,46 +358,207 @@ const TrainingMode: React.FC<TrainingModeProps> = ({ onBack, user }) => {
       </header>
 
       <main className="flex-1 w-full max-w-4xl mx-auto flex flex-col items-center justify-center p-4 relative">
+        {/* Variant toggle */}
+        <div className="flex bg-slate-800 rounded-xl p-1 mb-6 text-sm font-bold">
+          {(['basic', 'deviations', 'adaptive'] as const).map(v => (
+            <button
+              key={v}
+              onClick={() => switchVariant(v)}
+              className={`px-4 py-1.5 rounded-lg transition-all ${variant === v ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {VARIANT_LABELS[v]}
+            </button>
+          ))}
+        </div>
+
+        <div className="-mt-3 mb-5 flex flex-wrap justify-center gap-2">
+          {variant !== 'deviations' && (
+            <button
+              onClick={() => { playSound('click'); setShowFilter(true); }}
+              className={`text-xs font-bold px-3 py-1 rounded-lg transition-colors ${isFiltered ? 'bg-blue-600/30 text-blue-300 hover:bg-blue-600/50' : 'text-slate-400 hover:text-white'}`}
+            >
+              🎯 {isFiltered ? `Drilling ${pool.length} of ${DRILL_CELLS.length} hands` : 'All hands'} · Change
+            </button>
+          )}
+          <button
+            onClick={togglePlayThrough}
+            title="Keep playing after a correct Hit or Split, then see how the dealer's hand turns out"
+            className={`text-xs font-bold px-3 py-1 rounded-lg transition-colors ${playThrough ? 'bg-emerald-600/30 text-emerald-300 hover:bg-emerald-600/50' : 'text-slate-400 hover:text-white'}`}
+          >
+            ▶ Play it out · {playThrough ? 'On' : 'Off'}
+          </button>
+        </div>
+
+        {variant === 'adaptive' && (
+          <div className="w-full max-w-md mb-6">
+            <div className="flex justify-between text-xs text-slate-400 mb-1">
+              <span>
+                <span className="text-emerald-400 font-bold">{progress.mastered}</span> mastered ·{' '}
+                <span className="text-amber-300 font-bold">{progress.learning}</span> learning ·{' '}
+                {progress.total - progress.mastered - progress.learning} new
+              </span>
+              <button onClick={resetSchedule} className="hover:text-red-400 transition-colors">Reset</button>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-slate-700">
+              <div className="bg-emerald-500" style={{ width: `${(progress.mastered / progress.total) * 100}%` }} />
+              <div className="bg-amber-400" style={{ width: `${(progress.learning / progress.total) * 100}%` }} />
+            </div>
+            <div className="text-center text-[11px] text-slate-500 mt-1">
+              {currentCell
+                ? currentCell.box >= MASTERED_BOX ? 'Mastered — a check-up' : `Box ${currentCell.box + 1} of ${MASTERED_BOX} · ${currentCell.correct}/${currentCell.seen} right before`
+                : 'New hand'}
+              {progress.due > 0 && ` · ${progress.due} due for review`}
+            </div>
+          </div>
+        )}
+
+        {variant === 'deviations' && (
+          <div className="mb-4 bg-amber-500/15 border border-amber-500/40 text-amber-300 font-mono font-bold px-4 py-1.5 rounded-full">
+            True Count {trueCount > 0 ? '+' : ''}{trueCount}
+          </div>
+        )}
+
         <div className="flex flex-col items-center mb-8 sm:mb-12">
-          <div className="text-slate-400 text-sm uppercase tracking-widest mb-4">Dealer Upcard</div>
+          <div className="flex items-center gap-3 mb-4">
+            <div className="text-slate-400 text-sm uppercase tracking-widest">{dealerDone ? 'Dealer' : 'Dealer Upcard'}</div>
+            {dealerDone && (
+              <div className="bg-slate-700 text-white px-2 py-0.5 rounded text-xs font-mono">
+                {calculateHandValue(dealerHand).total > 21 ? 'Bust' : calculateHandValue(dealerHand).total}
+              </div>
+            )}
+          </div>
           <div className="flex gap-4">
             {dealerHand.map(card => (
-              <Card key={card.id} card={card} />
+              <Card key={card.id} card={card} compact={dealerHand.length > 3} />
             ))}
-            <Card card={{ ...dealerHand[0], id: 'hole' }} faceDown className="opacity-50" />
+            {!dealerDone && <Card card={{ ...dealerHand[0], id: 'hole' }} faceDown className="opacity-50" />}
           </div>
         </div>
 
-        <div className="flex flex-col items-center mb-10">
-          <div className="flex items-center gap-3 mb-4">
-            <div className="text-slate-400 text-sm uppercase tracking-widest">Your Hand</div>
-            <div className="bg-slate-700 text-white px-2 py-0.5 rounded text-xs font-mono">
-              {total} {isSoft ? '(Soft)' : ''}
+        {hands.length > 1 ? (
+          // After a split every hand stays on the table; the one being played is lit up
+          <div className="flex flex-wrap justify-center gap-6 mb-10">
+            {hands.map((h, i) => {
+              const value = calculateHandValue(h.cards);
+              const settled = settlements?.[i];
+              return (
+                <div
+                  key={h.id}
+                  className={`flex flex-col items-center p-2 rounded-xl transition-all ${i === activeHand && !settlements ? 'ring-2 ring-emerald-400 bg-emerald-500/10' : 'opacity-70'}`}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <div className="bg-slate-700 text-white px-2 py-0.5 rounded text-xs font-mono">
+                      {value.total > 21 ? 'Bust' : `${value.total}${value.isSoft ? ' (Soft)' : ''}`}
+                    </div>
+                    {h.status === 'doubled' && <span className="text-yellow-400 text-xs font-bold">×2</span>}
+                    {settled && (
+                      <span className={`text-xs font-bold ${settled.units > 0 ? 'text-emerald-400' : settled.units < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                        {RESULT_LABELS[settled.result]} {formatUnits(settled.units)}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {h.cards.map(card => (
+                      <Card key={card.id} card={card} compact />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex flex-col items-center mb-10">
+            <div className="flex items-center gap-3 mb-4">
+              <div className="text-slate-400 text-sm uppercase tracking-widest">Your Hand</div>
+              <div className="bg-slate-700 text-white px-2 py-0.5 rounded text-xs font-mono">
+                {total} {isSoft ? '(Soft)' : ''}
+              </div>
+              {settlements && (
+                <span className={`text-xs font-bold ${settlements[0].units > 0 ? 'text-emerald-400' : settlements[0].units < 0 ? 'text-red-400' : 'text-slate-300'}`}>
+                  {RESULT_LABELS[settlements[0].result]} {formatUnits(settlements[0].units)}
+                </span>
+              )}
+            </div>
+            <div className="flex gap-4">
+              {playerHand.map(card => (
+                <Card key={card.id} card={card} compact={playerHand.length > 3} />
+              ))}
             </div>
           </div>
-          <div className="flex gap-4">
-            {playerHand.map(card => (
-              <Card key={card.id} card={card} />
-            ))}
+        )}
+
+        {stepResult && (
+          <div className="-mt-6 mb-6 max-w-md text-center text-sm text-emerald-300">
+            ✓ {stepResult.userAction} was right. <span className="text-slate-400">{stepResult.explanation}</span>
           </div>
-        </div>
+        )}
 
         <div className="w-full mt-auto mb-8 sm:mb-12">
-          <Controls
-            onAction={handleAction}
-            canDouble={canDouble}
-            canSplit={canSplit}
-            disabled={!!gameResult}
-          />
+          {insurancePending ? (
+            <div className="flex flex-col items-center gap-4">
+              <div className="text-slate-400 text-sm uppercase tracking-widest">
+                {total === 21 ? 'Even Money?' : 'Insurance?'}
+              </div>
+              <div className="flex gap-3 sm:gap-4 justify-center w-full max-w-2xl px-4">
+                <button
+                  onClick={() => { playSound('click'); handleInsurance(true); }}
+                  className="flex-1 min-w-[100px] bg-amber-600 hover:bg-amber-500 text-white font-bold py-4 rounded-xl shadow-[0_4px_0_rgb(146,64,14)] active:shadow-[0_2px_0_rgb(146,64,14)] active:translate-y-[2px] transition-all text-lg tracking-wide uppercase"
+                >
+                  {total === 21 ? 'Even Money' : 'Insurance'}
+                </button>
+                <button
+                  onClick={() => { playSound('click'); handleInsurance(false); }}
+                  className="flex-1 min-w-[100px] bg-slate-600 hover:bg-slate-500 text-white font-bold py-4 rounded-xl shadow-[0_4px_0_rgb(51,65,85)] active:shadow-[0_2px_0_rgb(51,65,85)] active:translate-y-[2px] transition-all text-lg tracking-wide uppercase"
+                >
+                  No Thanks
+                </button>
+              </div>
+            </div>
+          ) : (
+            <Controls
+              onAction={handleAction}
+              canDouble={canDouble}
+              canSplit={canSplit}
+              canSurrender={canSurrender}
+              disabled={!!gameResult || !!insuranceResult}
+            />
+          )}
         </div>
       </main>
 
       <footer className="w-full text-center p-4 text-slate-600 text-xs">
-        Basic Strategy (H17, 6 Decks) • Instant Feedback
+        {variant === 'deviations' ? 'Hi-Lo Index Plays' : VARIANT_LABELS[variant]} ({rulesLabel}) • {playThrough ? 'Played Out' : 'Instant Feedback'}
       </footer>
 
+      {showFilter && (
+        <DrillFilterPanel filter={filter} onChange={changeFilter} onClose={closeFilter} />
+      )}
+
+      {insuranceResult && (
+        <Feedback
+          result={insuranceResult}
+          onNext={() => { setInsuranceResult(null); shownAtRef.current = Date.now(); }}
+          nextLabel="Play the Hand"
+        />
+      )}
+
       {gameResult && (
-        <Feedback result={gameResult} onNext={dealHand} />
+        <Feedback result={gameResult} onNext={dealHand}>
+          {settlements && (
+            <div className="bg-black/30 p-4 rounded-lg mb-4 text-left">
+              <div className="flex justify-between text-white font-semibold mb-1">
+                <span>🃏 Dealer {calculateHandValue(dealerHand).total > 21 ? 'busts' : `has ${calculateHandValue(dealerHand).total}`}</span>
+                <span className="font-mono">{formatUnits(settlements.reduce((sum, h) => sum + h.units, 0))} units</span>
+              </div>
+              {settlements.map((h, i) => (
+                <div key={hands[i].id} className="flex justify-between text-gray-300 text-sm">
+                  <span>{hands.length > 1 ? `Hand ${i + 1}` : 'Your hand'}: {hands[i].cards.map(c => c.rank).join(' ')}</span>
+                  <span>{RESULT_LABELS[h.result]} {formatUnits(h.units)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </Feedback>
       )}
     </div>
   );
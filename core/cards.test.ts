@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Card, RANKS, Rank, SUITS, Suit, calculateHandValue, cardValue, createDeck, isBlackjack, isStrictPair, shuffleDeck } from './cards.js';
+
+const card = (rank: Rank, suit: Suit = Suit.Spades): Card => ({ rank, suit, value: cardValue(rank), id: `${rank}${suit}` });
+const hand = (...ranks: Rank[]) => ranks.map(r => card(r));
+
+describe('cardValue', () => {
+  it('counts pips at face value, pictures as 10 and the Ace as 11', () => {
+    expect(cardValue(Rank.Two)).toBe(2);
+    expect(cardValue(Rank.Nine)).toBe(9);
+    expect(cardValue(Rank.Ten)).toBe(10);
+    expect([Rank.Jack, Rank.Queen, Rank.King].map(cardValue)).toEqual([10, 10, 10]);
+    expect(cardValue(Rank.Ace)).toBe(11);
+  });
+});
+
+describe('createDeck', () => {
+  it('builds 52 cards per deck, suits then ranks', () => {
+    const deck = createDeck(2);
+    expect(deck).toHaveLength(104);
+    expect(deck.slice(0, 13).map(c => c.rank)).toEqual(RANKS);
+    expect(deck.slice(0, 52).filter(c => c.suit === SUITS[0])).toHaveLength(13);
+    expect(deck.filter(c => c.rank === Rank.Ace)).toHaveLength(8);
+  });
+
+  it('gives every card a unique id', () => {
+    const deck = createDeck(6);
+    expect(new Set(deck.map(c => c.id)).size).toBe(deck.length);
+  });
+
+  it('draws once per card from the rng', () => {
+    let draws = 0;
+    createDeck(1, () => { draws++; return 0.5; });
+    expect(draws).toBe(52);
+  });
+});
+
+describe('shuffleDeck', () => {
+  it('returns a permutation and leaves the input alone', () => {
+    const deck = createDeck(1);
+    const before = [...deck];
+    const shuffled = shuffleDeck(deck);
+    expect(deck).toEqual(before);
+    expect([...shuffled].sort((a, b) => a.id.localeCompare(b.id))).toEqual([...deck].sort((a, b) => a.id.localeCompare(b.id)));
+  });
+
+  it('draws once per swap (n - 1 times)', () => {
+    let draws = 0;
+    shuffleDeck(createDeck(1), () => { draws++; return 0; });
+    expect(draws).toBe(51);
+  });
+});
+
+describe('calculateHandValue', () => {
+  it('adds hard hands', () => {
+    expect(calculateHandValue(hand(Rank.Ten, Rank.Six))).toEqual({ total: 16, isSoft: false });
+    expect(calculateHandValue(hand(Rank.King, Rank.Queen, Rank.Five))).toEqual({ total: 25, isSoft: false });
+  });
+
+  it('counts an Ace as 11 while it fits', () => {
+    expect(calculateHandValue(hand(Rank.Ace, Rank.Six))).toEqual({ total: 17, isSoft: true });
+    expect(calculateHandValue(hand(Rank.Ace, Rank.King))).toEqual({ total: 21, isSoft: true });
+  });
+
+  it('drops Aces to 1 one at a time to avoid busting', () => {
+    expect(calculateHandValue(hand(Rank.Ace, Rank.Six, Rank.Nine))).toEqual({ total: 16, isSoft: false });
+    expect(calculateHandValue(hand(Rank.Ace, Rank.Ace))).toEqual({ total: 12, isSoft: true });
+    expect(calculateHandValue(hand(Rank.Ace, Rank.Ace, Rank.Nine))).toEqual({ total: 21, isSoft: true });
+    expect(calculateHandValue(hand(Rank.Ace, Rank.Ace, Rank.Ace, Rank.King))).toEqual({ total: 13, isSoft: false });
+  });
+
+  it('is 0 for an empty hand', () => {
+    expect(calculateHandValue([])).toEqual({ total: 0, isSoft: false });
+  });
+});
+
+describe('isBlackjack', () => {
+  it('is 21 on exactly two cards', () => {
+    expect(isBlackjack(hand(Rank.Ace, Rank.Jack))).toBe(true);
+    expect(isBlackjack(hand(Rank.Ten, Rank.Ace))).toBe(true);
+    expect(isBlackjack(hand(Rank.Seven, Rank.Seven, Rank.Seven))).toBe(false);
+    expect(isBlackjack(hand(Rank.Ace, Rank.Nine))).toBe(false);
+  });
+});
+
+describe('isStrictPair', () => {
+  it('needs two cards of the same rank', () => {
+    expect(isStrictPair(hand(Rank.Eight, Rank.Eight))).toBe(true);
+    expect(isStrictPair([card(Rank.King, Suit.Hearts), card(Rank.King, Suit.Clubs)])).toBe(true);
+    expect(isStrictPair(hand(Rank.Jack, Rank.King))).toBe(false);
+    expect(isStrictPair(hand(Rank.Eight, Rank.Eight, Rank.Eight))).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+// ─── Cards & hands ────────────────────────────────────────────────────────────
+// Game core shared by the client and the server: plain data and pure functions,
+// no React, no Node APIs. Imports inside core/ carry a .js extension so the
+// server can run these files directly.
+
+export enum Suit {
+  Hearts = '♥',
+  Diamonds = '♦',
+  Clubs = '♣',
+  Spades = '♠',
+}
+
+export enum Rank {
+  Two = '2',
+  Three = '3',
+  Four = '4',
+  Five = '5',
+  Six = '6',
+  Seven = '7',
+  Eight = '8',
+  Nine = '9',
+  Ten = '10',
+  Jack = 'J',
+  Queen = 'Q',
+  King = 'K',
+  Ace = 'A',
+}
+
+export interface Card {
+  suit: Suit;
+  rank: Rank;
+  value: number; // 2-10, 10 for JQK, 11 for A (initially)
+  id: string; // unique identifier for React keys
+  faceDown?: boolean; // multiplayer placeholder sent in place of the dealer hole card
+}
+
+export type HandStatus = 'playing' | 'standing' | 'busted' | 'blackjack' | 'doubled' | 'surrendered';
+export type HandOutcome = 'win' | 'loss' | 'push';
+
+export interface PlayerHand {
+  id: string;
+  cards: Card[];
+  bet: number;
+  status: HandStatus;
+  result?: HandOutcome;
+  isSplit?: boolean;    // created by a split (matters for double-after-split)
+  splitAces?: boolean;  // split Aces receive one card only
+}
+
+/** Uniform float in [0, 1) */
+export type Rng = () => number;
+
+export const SUITS = [Suit.Hearts, Suit.Diamonds, Suit.Clubs, Suit.Spades];
+export const RANKS = Object.values(Rank);
+
+export const cardValue = (rank: Rank): number => {
+  if (rank === Rank.Ace) return 11;
+  if (rank === Rank.Jack || rank === Rank.Queen || rank === Rank.King) return 10;
+  return parseInt(rank, 10);
+};
+
+/** Suits then ranks, deck by deck; one rng draw per card names it (the shoe verifier relies on this) */
+export const createDeck = (numDecks: number = 6, rng: Rng = Math.random): Card[] => {
+  const deck: Card[] = [];
+  for (let d = 0; d < numDecks; d++) {
+    for (const suit of SUITS) {
+      for (const rank of RANKS) {
+        deck.push({
+          suit,
+          rank,
+          value: cardValue(rank),
+          id: `${d}-${suit}-${rank}-${rng().toString(36).substr(2, 9)}`,
+        });
+      }
+    }
+  }
+  return deck;
+};
+
+/** Fisher–Yates */
+export const shuffleDeck = (deck: Card[], rng: Rng = Math.random): Card[] => {
+  const newDeck = [...deck];
+  for (let i = newDeck.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
+  }
+  return newDeck;
+};
+
+export const calculateHandValue = (hand: Card[]): { total: number; isSoft: boolean } => {
+  let total = 0;
+  let aces = 0;
+
+  for (const card of hand) {
+    total += card.value;
+    if (card.rank === Rank.Ace) aces += 1;
+  }
+
+  // Aces count 11 until that would bust the hand
+  while (total > 21 && aces > 0) {
+    total -= 10;
+    aces -= 1;
+  }
+
+  // Soft while an Ace is still counted as 11
+  return { total, isSoft: aces > 0 };
+};
+
+/** A natural: 21 on the first two cards */
+export const isBlackjack = (hand: Card[]): boolean =>
+  hand.length === 2 && calculateHandValue(hand).total === 21;
+
+/** Same rank, not just the same value — a Jack and a King are not a pair */
+export const isStrictPair = (hand: Card[]): boolean =>
+  hand.length === 2 && hand[0].rank === hand[1].rank;
@@ -0,0 +1,79 @@
+import { oneOf } from './rules.js';
+
+// ─── Table chat ───────────────────────────────────────────────────────────────
+// Room-scoped chat and emoji reactions. The server cleans and rate limits every
+// message and keeps the most recent ones with the room, so a player coming back
+// with rejoin-room (or arriving mid-shoe) sees what was said.
+
+export interface ChatMessage {
+  id: string;
+  seatId: string;        // the sender's public seat id, never their playerId
+  name: string;
+  text: string;
+  at: number;            // epoch ms
+  spectator: boolean;    // sent from the rail, not a seat
+}
+
+/** A reaction floats over the sender's seat for a moment and is not kept */
+export interface ChatReaction {
+  seatId: string;
+  name: string;
+  emoji: Reaction;
+}
+
+export const CHAT_MAX_LENGTH = 200;
+export const CHAT_HISTORY_SIZE = 50;
+
+export const REACTIONS = ['👍', '👏', '🎉', '😂', '😬', '😭', '🔥', '🤞'] as const;
+export type Reaction = typeof REACTIONS[number];
+
+/** Sliding windows: at most `count` sends in any `windowMs` */
+export interface RateLimit {
+  count: number;
+  windowMs: number;
+}
+
+export const CHAT_RATE_LIMIT: RateLimit = { count: 5, windowMs: 10_000 };
+export const REACTION_RATE_LIMIT: RateLimit = { count: 4, windowMs: 5_000 };
+
+export const isReaction = (input: unknown): input is Reaction => oneOf(REACTIONS, input);
+
+// ─── Profanity filter ─────────────────────────────────────────────────────────
+// Listed words are masked whole, with common endings and look-alike characters
+// (sh1t, @ss, f.u.c.k), so a message is never refused for its language — it is
+// just sent with the word starred out.
+
+const BLOCKED_WORDS = [
+  'fuck', 'shit', 'bitch', 'cunt', 'dick', 'cock', 'pussy', 'asshole', 'ass', 'bastard',
+  'slut', 'whore', 'twat', 'wanker', 'prick', 'motherfucker', 'bullshit', 'fag', 'faggot',
+  'nigger', 'nigga', 'retard',
+];
+
+const LOOKALIKES: Record<string, string> = {
+  a: '[a@4]', e: '[e3]', i: '[i1!|]', o: '[o0]', s: '[s$5]', t: '[t7+]', g: '[g9]', l: '[l1|]',
+};
+
+const ENDINGS = '(?:s|es|ed|er|ers|ing|in|ty|head|heads)?';
+
+// Letters may be split by dots, dashes, underscores or asterisks
+const wordPattern = (word: string) =>
+  word.split('').map(ch => LOOKALIKES[ch] ?? ch).join('[._\\-*]?');
+
+const PROFANITY = new RegExp(
+  `(?<![a-z0-9])(?:${BLOCKED_WORDS.map(wordPattern).join('|')})${ENDINGS}(?![a-z0-9])`,
+  'gi',
+);
+
+export const maskProfanity = (text: string): string =>
+  text.replace(PROFANITY, match => match[0] + '*'.repeat(match.length - 1));
+
+/**
+ * Tidy untrusted chat input: control characters are dropped, whitespace is
+ * collapsed and profanity masked. Null when nothing is left to send; a message
+ * over CHAT_MAX_LENGTH is the caller's to refuse.
+ */
+export const cleanChatText = (input: unknown): string | null => {
+  if (typeof input !== 'string') return null;
+  const text = input.replace(/[\u0000-\u0008\u000e-\u001f\u007f-\u009f\u200b-\u200f\u202a-\u202e]/g, '').replace(/\s+/g, ' ').trim();
+  return text ? maskProfanity(text) : null;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createDeck, shuffleDeck } from './cards.js';
+import { combineSeeds, createRng, seatIdFor, sha256Hex } from './random.js';
+
+const dealOrder = (seed: string, decks: number) => {
+  const rng = createRng(seed);
+  return shuffleDeck(createDeck(decks, rng), rng);
+};
+
+const names = (cards: { rank: string; suit: string }[]) => cards.map(c => `${c.rank}${c.suit}`);
+
+describe('sha256Hex', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    // Two 64-byte blocks once padded
+    expect(sha256Hex('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('hashes the UTF-8 bytes of the text', () => {
+    expect(sha256Hex('♠')).toBe('813b4a5a7e61acce63dccac5aca038109abb5672cbe36a7089b37e57a7e894eb');
+  });
+});
+
+describe('createRng', () => {
+  it('gives the same stream for the same seed', () => {
+    const a = createRng('table-7');
+    const b = createRng('table-7');
+    const draws = Array.from({ length: 50 }, () => a());
+    expect(Array.from({ length: 50 }, () => b())).toEqual(draws);
+    expect(new Set(draws).size).toBe(50);
+  });
+
+  it('gives a different stream for a different seed', () => {
+    expect(createRng('table-7')()).not.toBe(createRng('table-8')());
+  });
+
+  it('draws floats in [0, 1)', () => {
+    const rng = createRng('range');
+    for (let i = 0; i < 1000; i++) {
+      const x = rng();
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    }
+  });
+
+  it('is the first 48 bits of sha256(seed:0) for the first draw', () => {
+    const first = parseInt(sha256Hex('table-7:0').slice(0, 12), 16) / 2 ** 48;
+    expect(createRng('table-7')()).toBe(first);
+  });
+});
+
+describe('seeded shoes', () => {
+  it('deals the same cards in the same order from the same seed', () => {
+    const a = dealOrder('shoe-1', 6);
+    const b = dealOrder('shoe-1', 6);
+    expect(b).toEqual(a);
+    expect(a.map(c => c.id)).toEqual(b.map(c => c.id));
+  });
+
+  it('deals a different order from a different seed', () => {
+    expect(names(dealOrder('shoe-1', 6))).not.toEqual(names(dealOrder('shoe-2', 6)));
+  });
+
+  it('keeps the order pinned across releases', () => {
+    // Revealed shoes are verified in the browser long after they were dealt, so
+    // the generator and the shuffle must never drift
+    expect(names(dealOrder('table-7', 1).slice(-5))).toEqual(['5♠', '2♠', 'K♥', 'J♦', '2♣']);
+  });
+
+  it('still holds every card of the shoe', () => {
+    const cards = dealOrder('shoe-1', 2);
+    expect(cards).toHaveLength(104);
+    expect(new Set(cards.map(c => c.id)).size).toBe(104);
+  });
+
+  it('shuffles multiplayer shoes with every client seed', () => {
+    expect(combineSeeds('server', ['alice', 'bob'])).toBe('server:alice:bob');
+    expect(names(dealOrder(combineSeeds('server', ['alice']), 1)))
+      .not.toEqual(names(dealOrder(combineSeeds('server', ['bob']), 1)));
+  });
+});
+
+describe('seatIdFor', () => {
+  it('is a short stable hash that does not give the playerId away', () => {
+    expect(seatIdFor('abc')).toBe('745af004bf82050d');
+    expect(seatIdFor('abc')).not.toContain('abc');
+    expect(seatIdFor('abd')).not.toBe(seatIdFor('abc'));
+  });
+});
@@ -0,0 +1,93 @@
+import type { Rng } from './cards.js';
+
+// ─── Seeded randomness ────────────────────────────────────────────────────────
+// Every shoe — server tables, training drills, the fairness verifier — is dealt
+// from one generator: SHA-256 in counter mode over the seed, 48 bits per draw.
+// It is written out here rather than taken from node:crypto or WebCrypto so the
+// browser and the server produce the same stream synchronously: the same seed
+// always deals the same shoe, on either side.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const encoder = new TextEncoder();
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+/** SHA-256 of a string's UTF-8 bytes */
+export const sha256 = (text: string): Uint8Array => {
+  const bytes = encoder.encode(text);
+  // Message, a 1 bit, zero padding and the 64-bit bit length, in 64-byte blocks
+  const padded = new Uint8Array(Math.ceil((bytes.length + 9) / 64) * 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bytes.length / 0x20000000));
+  view.setUint32(padded.length - 4, (bytes.length * 8) >>> 0);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const digest = new Uint8Array(32);
+  const out = new DataView(digest.buffer);
+  h.forEach((word, i) => out.setUint32(i * 4, word));
+  return digest;
+};
+
+export const sha256Hex = (text: string): string =>
+  Array.from(sha256(text), b => b.toString(16).padStart(2, '0')).join('');
+
+/** Deterministic SHA-256 counter stream: sha256(`${seed}:${n}`) gives five 48-bit draws */
+export const createRng = (seed: string): Rng => {
+  let counter = 0;
+  let block = new Uint8Array(0);
+  let offset = 0;
+  return () => {
+    if (offset + 6 > block.length) {
+      block = sha256(`${seed}:${counter++}`);
+      offset = 0;
+    }
+    let value = 0;
+    for (let i = 0; i < 6; i++) value = value * 256 + block[offset + i];
+    offset += 6;
+    return value / 2 ** 48;
+  };
+};
+
+/** The seed a multiplayer shoe is actually shuffled with: server seed, then each client seed */
+export const combineSeeds = (serverSeed: string, clientSeeds: string[]): string =>
+  [serverSeed, ...clientSeeds].join(':');
+
+/** The id a seat is shown under to the rest of the table; the playerId behind it never leaves its owner */
+export const seatIdFor = (playerId: string): string => sha256Hex(`seat:${playerId}`).slice(0, 16);
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_LIMITS, DEFAULT_TIMERS, RoundCommand, RoundError, RoundEvent, RoundPhase,
+  assertCommand, betLimitError, canTransition, isCommandAllowed, nextPhase, normalizeLimits, normalizeTimers,
+} from './round.js';
+
+const PHASES: RoundPhase[] = ['lobby', 'betting', 'insurance', 'early_surrender', 'player_turns', 'dealer_turn', 'results'];
+
+// Every legal move of the machine; anything not listed must be refused
+const LEGAL: [RoundPhase, RoundEvent, RoundPhase][] = [
+  ['lobby', 'START_GAME', 'betting'],
+  ['betting', 'OFFER_INSURANCE', 'insurance'],
+  ['betting', 'OFFER_EARLY_SURRENDER', 'early_surrender'],
+  ['insurance', 'OFFER_EARLY_SURRENDER', 'early_surrender'],
+  ['betting', 'START_PLAYER_TURNS', 'player_turns'],
+  ['insurance', 'START_PLAYER_TURNS', 'player_turns'],
+  ['early_surrender', 'START_PLAYER_TURNS', 'player_turns'],
+  ['player_turns', 'START_DEALER_TURN', 'dealer_turn'],
+  ['player_turns', 'SETTLE', 'results'],
+  ['dealer_turn', 'SETTLE', 'results'],
+  ['results', 'NEXT_ROUND', 'betting'],
+];
+
+const EVENTS: RoundEvent[] = [...new Set(LEGAL.map(([, event]) => event))];
+
+// Every phase a player command is taken in
+const COMMANDS: Record<RoundCommand, RoundPhase[]> = {
+  'start-game': ['lobby'],
+  'place-bet': ['betting'],
+  hit: ['player_turns'],
+  stand: ['player_turns'],
+  double: ['player_turns'],
+  split: ['player_turns'],
+  surrender: ['player_turns'],
+  insurance: ['insurance'],
+  'early-surrender': ['early_surrender'],
+  'next-round': ['results'],
+  rebuy: ['betting', 'results'],
+};
+
+const thrown = (fn: () => unknown): RoundError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof RoundError) return err;
+    throw err;
+  }
+  throw new Error('expected a RoundError');
+};
+
+describe('round transitions', () => {
+  it.each(LEGAL)('%s --%s--> %s', (from, event, to) => {
+    expect(canTransition(from, event)).toBe(true);
+    expect(nextPhase(from, event)).toBe(to);
+  });
+
+  it('refuses every other transition with ILLEGAL_TRANSITION', () => {
+    for (const phase of PHASES) {
+      for (const event of EVENTS) {
+        if (LEGAL.some(([from, e]) => from === phase && e === event)) continue;
+        expect(canTransition(phase, event)).toBe(false);
+        const err = thrown(() => nextPhase(phase, event));
+        expect(err.code).toBe('ILLEGAL_TRANSITION');
+        expect(err.message).toContain(event);
+      }
+    }
+  });
+
+  it('plays a full round back to betting', () => {
+    const phases = (['START_GAME', 'OFFER_INSURANCE', 'START_PLAYER_TURNS', 'START_DEALER_TURN', 'SETTLE', 'NEXT_ROUND'] as RoundEvent[])
+      .reduce<RoundPhase[]>((seen, event) => [...seen, nextPhase(seen[seen.length - 1], event)], ['lobby']);
+    expect(phases).toEqual(['lobby', 'betting', 'insurance', 'player_turns', 'dealer_turn', 'results', 'betting']);
+  });
+});
+
+describe('command guards', () => {
+  for (const [command, allowed] of Object.entries(COMMANDS) as [RoundCommand, RoundPhase[]][]) {
+    it(`takes ${command} only ${allowed.join(' / ')}`, () => {
+      for (const phase of PHASES) {
+        expect(isCommandAllowed(phase, command)).toBe(allowed.includes(phase));
+        if (allowed.includes(phase)) expect(() => assertCommand(phase, command)).not.toThrow();
+        else expect(thrown(() => assertCommand(phase, command)).code).toBe('WRONG_PHASE');
+      }
+    });
+  }
+
+  it('explains the refusal in words', () => {
+    expect(thrown(() => assertCommand('dealer_turn', 'hit')).message).toBe('Cannot hit during the dealer turn');
+  });
+});
+
+describe('normalizeTimers', () => {
+  it('keeps valid clocks and defaults the rest', () => {
+    expect(normalizeTimers({ turnSeconds: 0, betSeconds: 60 })).toEqual({ turnSeconds: 0, betSeconds: 60 });
+    expect(normalizeTimers({ turnSeconds: 45, betSeconds: '20' })).toEqual(DEFAULT_TIMERS);
+    expect(normalizeTimers(null)).toEqual(DEFAULT_TIMERS);
+  });
+});
+
+describe('table limits', () => {
+  it('keeps valid limits and defaults the rest', () => {
+    expect(normalizeLimits({ minBet: 25, maxBet: 500, startingChips: 5000 })).toEqual({ minBet: 25, maxBet: 500, startingChips: 5000 });
+    expect(normalizeLimits({ minBet: 7, maxBet: -1, startingChips: 1e9 })).toEqual(DEFAULT_LIMITS);
+  });
+
+  it('never leaves a maximum below the minimum', () => {
+    expect(normalizeLimits({ minBet: 100, maxBet: 100 }).maxBet).toBe(100);
+    expect(normalizeLimits({ minBet: 100, maxBet: 0 }).maxBet).toBe(0);
+    expect(normalizeLimits({ minBet: 50, maxBet: 100 }).maxBet).toBe(100);
+  });
+
+  it('checks bets against them', () => {
+    const limits = { minBet: 25, maxBet: 500, startingChips: 1000 };
+    expect(betLimitError(10, limits)).toBe('The minimum bet here is 25');
+    expect(betLimitError(1000, limits)).toBe('The maximum bet here is 500');
+    expect(betLimitError(25, limits)).toBeNull();
+    expect(betLimitError(100000, { ...limits, maxBet: 0 })).toBeNull();
+  });
+});
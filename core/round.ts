@@ -0,0 +1,191 @@
+import { oneOf } from './rules.js';
+
+// ─── Round state machine ──────────────────────────────────────────────────────
+// One blackjack round, as a table runs it. Events move the round between phases
+// and every player command is checked against the phase it arrives in; anything
+// else is refused with a RoundError. The table (server/server.ts) performs the
+// side effects of each event — dealing, the peek, the dealer's draw — right
+// after the machine accepts it.
+
+export type RoundPhase = 'lobby' | 'betting' | 'insurance' | 'early_surrender' | 'player_turns' | 'dealer_turn' | 'results';
+
+export type RoundEvent =
+  | 'START_GAME'            // host starts the first round
+  | 'OFFER_INSURANCE'       // dealt, dealer shows an Ace
+  | 'OFFER_EARLY_SURRENDER' // dealt (or insurance answered), dealer shows an A or 10
+  | 'START_PLAYER_TURNS'    // every pre-peek decision is in
+  | 'START_DEALER_TURN'     // every hand is finished
+  | 'SETTLE'                // dealer blackjack at the peek, or the dealer has drawn
+  | 'NEXT_ROUND';           // table cleared for new bets
+
+const TRANSITIONS: Record<RoundEvent, { from: RoundPhase[]; to: RoundPhase }> = {
+  START_GAME: { from: ['lobby'], to: 'betting' },
+  OFFER_INSURANCE: { from: ['betting'], to: 'insurance' },
+  OFFER_EARLY_SURRENDER: { from: ['betting', 'insurance'], to: 'early_surrender' },
+  START_PLAYER_TURNS: { from: ['betting', 'insurance', 'early_surrender'], to: 'player_turns' },
+  START_DEALER_TURN: { from: ['player_turns'], to: 'dealer_turn' },
+  SETTLE: { from: ['player_turns', 'dealer_turn'], to: 'results' },
+  NEXT_ROUND: { from: ['results'], to: 'betting' },
+};
+
+/** What a player can ask the table to do */
+export type RoundCommand =
+  | 'start-game'
+  | 'place-bet'
+  | 'hit'
+  | 'stand'
+  | 'double'
+  | 'split'
+  | 'surrender'
+  | 'insurance'
+  | 'early-surrender'
+  | 'next-round'
+  | 'rebuy';
+
+const COMMAND_PHASES: Record<RoundCommand, RoundPhase[]> = {
+  'start-game': ['lobby'],
+  'place-bet': ['betting'],
+  hit: ['player_turns'],
+  stand: ['player_turns'],
+  double: ['player_turns'],
+  split: ['player_turns'],
+  surrender: ['player_turns'],
+  insurance: ['insurance'],
+  'early-surrender': ['early_surrender'],
+  'next-round': ['results'],
+  rebuy: ['betting', 'results'],
+};
+
+const COMMAND_LABELS: Record<RoundCommand, string> = {
+  'start-game': 'start the game',
+  'place-bet': 'bet',
+  hit: 'hit',
+  stand: 'stand',
+  double: 'double',
+  split: 'split',
+  surrender: 'surrender',
+  insurance: 'answer insurance',
+  'early-surrender': 'surrender early',
+  'next-round': 'deal the next round',
+  rebuy: 'rebuy',
+};
+
+export type RoundErrorCode =
+  | 'ROOM_NOT_FOUND'
+  | 'NOT_SEATED'
+  | 'NOT_HOST'
+  | 'WRONG_PHASE'
+  | 'ILLEGAL_TRANSITION'
+  | 'NOT_YOUR_TURN'
+  | 'NO_DECISION_PENDING'
+  | 'ALREADY_BET'
+  | 'INVALID_BET'
+  | 'INSUFFICIENT_CHIPS'
+  | 'ACTION_NOT_ALLOWED'
+  | 'SHOE_NOT_REVEALED';
+
+export class RoundError extends Error {
+  readonly code: RoundErrorCode;
+
+  constructor(code: RoundErrorCode, message: string) {
+    super(message);
+    this.name = 'RoundError';
+    this.code = code;
+  }
+}
+
+/** Sent back to the player whose command was refused */
+export interface RoundRejection {
+  code: RoundErrorCode;
+  message: string;
+}
+
+const PHASE_LABELS: Record<RoundPhase, string> = {
+  lobby: 'in the lobby',
+  betting: 'while bets are open',
+  insurance: 'during insurance',
+  early_surrender: 'during early surrender',
+  player_turns: 'during player turns',
+  dealer_turn: 'during the dealer turn',
+  results: 'once the round is settled',
+};
+
+export const canTransition = (phase: RoundPhase, event: RoundEvent): boolean =>
+  TRANSITIONS[event].from.includes(phase);
+
+/** The phase an event leads to; throws ILLEGAL_TRANSITION when it cannot happen now */
+export const nextPhase = (phase: RoundPhase, event: RoundEvent): RoundPhase => {
+  if (!canTransition(phase, event)) {
+    throw new RoundError('ILLEGAL_TRANSITION', `${event} is not possible ${PHASE_LABELS[phase]}`);
+  }
+  return TRANSITIONS[event].to;
+};
+
+export const isCommandAllowed = (phase: RoundPhase, command: RoundCommand): boolean =>
+  COMMAND_PHASES[command].includes(phase);
+
+/** Throws WRONG_PHASE when a command arrives in a phase that does not take it */
+export const assertCommand = (phase: RoundPhase, command: RoundCommand) => {
+  if (!isCommandAllowed(phase, command)) {
+    throw new RoundError('WRONG_PHASE', `Cannot ${COMMAND_LABELS[command]} ${PHASE_LABELS[phase]}`);
+  }
+};
+
+// ─── Table timers ─────────────────────────────────────────────────────────────
+// How long a multiplayer table waits on its players before acting for them: the
+// betting clock sits out whoever has not bet, the turn clock stands an idle hand
+// and declines an unanswered insurance / early surrender offer. 0 = no clock.
+
+export interface TableTimers {
+  turnSeconds: number;
+  betSeconds: number;
+}
+
+export const DEFAULT_TIMERS: TableTimers = { turnSeconds: 30, betSeconds: 30 };
+
+export const TURN_TIMER_OPTIONS = [0, 15, 30, 60] as const;
+export const BET_TIMER_OPTIONS = [0, 20, 30, 60] as const;
+
+/** Coerce untrusted input (socket payloads) into valid timer settings */
+export const normalizeTimers = (input: unknown): TableTimers => {
+  const t = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof TableTimers, unknown>>;
+  return {
+    turnSeconds: oneOf(TURN_TIMER_OPTIONS, t.turnSeconds) ? t.turnSeconds : DEFAULT_TIMERS.turnSeconds,
+    betSeconds: oneOf(BET_TIMER_OPTIONS, t.betSeconds) ? t.betSeconds : DEFAULT_TIMERS.betSeconds,
+  };
+};
+
+// ─── Table limits ─────────────────────────────────────────────────────────────
+// Set by the host at create-room and enforced on every bet. Starting chips only
+// apply to guests; a logged-in player brings their account's bankroll.
+
+export interface TableLimits {
+  minBet: number;
+  maxBet: number;        // 0 = no limit
+  startingChips: number;
+}
+
+export const DEFAULT_LIMITS: TableLimits = { minBet: 10, maxBet: 0, startingChips: 1000 };
+
+export const MIN_BET_OPTIONS = [10, 25, 50, 100] as const;
+export const MAX_BET_OPTIONS = [0, 100, 500, 1000, 5000] as const;
+export const STARTING_CHIP_OPTIONS = [500, 1000, 2500, 5000, 10000] as const;
+
+/** Coerce untrusted input into valid limits; a maximum below the minimum is lifted */
+export const normalizeLimits = (input: unknown): TableLimits => {
+  const l = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof TableLimits, unknown>>;
+  const minBet: number = oneOf(MIN_BET_OPTIONS, l.minBet) ? l.minBet : DEFAULT_LIMITS.minBet;
+  const maxBet: number = oneOf(MAX_BET_OPTIONS, l.maxBet) ? l.maxBet : DEFAULT_LIMITS.maxBet;
+  return {
+    minBet,
+    maxBet: maxBet && maxBet < minBet ? 0 : maxBet,
+    startingChips: oneOf(STARTING_CHIP_OPTIONS, l.startingChips) ? l.startingChips : DEFAULT_LIMITS.startingChips,
+  };
+};
+
+/** Why a bet is outside the table limits, or null when it is fine */
+export const betLimitError = (amount: number, limits: TableLimits): string | null => {
+  if (amount < limits.minBet) return `The minimum bet here is ${limits.minBet}`;
+  if (limits.maxBet && amount > limits.maxBet) return `The maximum bet here is ${limits.maxBet}`;
+  return null;
+};
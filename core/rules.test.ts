@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { Card, Rank, Suit, cardValue } from './cards.js';
+import {
+  DEFAULT_RULES, TableRules,
+  blackjackWinnings, dealerShouldHit, isDoubleAllowed, isEarlySurrenderOffered, isInsuranceOffered,
+  isSplitAllowed, isSurrenderAllowed, maxInsuranceBet, normalizeRules, oneOf,
+} from './rules.js';
+
+const card = (rank: Rank): Card => ({ rank, suit: Suit.Hearts, value: cardValue(rank), id: rank });
+const hand = (...ranks: Rank[]) => ranks.map(card);
+const rules = (overrides: Partial<TableRules> = {}): TableRules => ({ ...DEFAULT_RULES, ...overrides });
+
+describe('oneOf', () => {
+  it('accepts only the listed options, with no coercion', () => {
+    expect(oneOf([1, 2, 4] as const, 2)).toBe(true);
+    expect(oneOf([1, 2, 4] as const, '2')).toBe(false);
+    expect(oneOf(['a', 'b'], undefined)).toBe(false);
+  });
+});
+
+describe('normalizeRules', () => {
+  it('falls back to the defaults for missing or garbage input', () => {
+    expect(normalizeRules(undefined)).toEqual(DEFAULT_RULES);
+    expect(normalizeRules('6 decks')).toEqual(DEFAULT_RULES);
+    expect(normalizeRules({})).toEqual(DEFAULT_RULES);
+  });
+
+  it('keeps valid settings', () => {
+    const custom: TableRules = {
+      decks: 2, dealerHitsSoft17: false, blackjackPayout: '6:5', doubleAfterSplit: false, doubleOn: '9-11',
+      maxSplitHands: 2, resplitAces: true, dealerPeek: false, surrender: 'late', penetration: 0.5,
+    };
+    expect(normalizeRules(custom)).toEqual(custom);
+  });
+
+  it('replaces each invalid field on its own', () => {
+    const normalized = normalizeRules({ decks: 3, surrender: 'always', dealerPeek: 'yes', penetration: 0.65, blackjackPayout: '6:5' });
+    expect(normalized.decks).toBe(DEFAULT_RULES.decks);
+    expect(normalized.surrender).toBe(DEFAULT_RULES.surrender);
+    expect(normalized.dealerPeek).toBe(DEFAULT_RULES.dealerPeek);
+    expect(normalized.penetration).toBe(0.65);
+    expect(normalized.blackjackPayout).toBe('6:5');
+  });
+});
+
+describe('blackjackWinnings', () => {
+  it('pays the table payout, rounded down', () => {
+    expect(blackjackWinnings(10, rules({ blackjackPayout: '3:2' }))).toBe(15);
+    expect(blackjackWinnings(25, rules({ blackjackPayout: '3:2' }))).toBe(37);
+    expect(blackjackWinnings(10, rules({ blackjackPayout: '6:5' }))).toBe(12);
+    expect(blackjackWinnings(10, rules({ blackjackPayout: '1:1' }))).toBe(10);
+  });
+});
+
+describe('dealerShouldHit', () => {
+  it('draws to 17', () => {
+    expect(dealerShouldHit(hand(Rank.Ten, Rank.Six), rules())).toBe(true);
+    expect(dealerShouldHit(hand(Rank.Ten, Rank.Seven), rules())).toBe(false);
+  });
+
+  it('hits soft 17 only under H17', () => {
+    expect(dealerShouldHit(hand(Rank.Ace, Rank.Six), rules({ dealerHitsSoft17: true }))).toBe(true);
+    expect(dealerShouldHit(hand(Rank.Ace, Rank.Six), rules({ dealerHitsSoft17: false }))).toBe(false);
+    expect(dealerShouldHit(hand(Rank.Ace, Rank.Seven), rules({ dealerHitsSoft17: true }))).toBe(false);
+  });
+});
+
+describe('isDoubleAllowed', () => {
+  it('needs two cards', () => {
+    expect(isDoubleAllowed(hand(Rank.Five, Rank.Six), rules())).toBe(true);
+    expect(isDoubleAllowed(hand(Rank.Two, Rank.Three, Rank.Six), rules())).toBe(false);
+  });
+
+  it('restricts to hard 9-11 when the table does', () => {
+    const r = rules({ doubleOn: '9-11' });
+    expect(isDoubleAllowed(hand(Rank.Four, Rank.Five), r)).toBe(true);
+    expect(isDoubleAllowed(hand(Rank.Five, Rank.Six), r)).toBe(true);
+    expect(isDoubleAllowed(hand(Rank.Six, Rank.Six), r)).toBe(false);
+    expect(isDoubleAllowed(hand(Rank.Ace, Rank.Nine), r)).toBe(false);
+  });
+
+  it('follows double after split', () => {
+    expect(isDoubleAllowed(hand(Rank.Five, Rank.Six), rules({ doubleAfterSplit: true }), true)).toBe(true);
+    expect(isDoubleAllowed(hand(Rank.Five, Rank.Six), rules({ doubleAfterSplit: false }), true)).toBe(false);
+  });
+});
+
+describe('isSurrenderAllowed', () => {
+  it('is only on the opening two cards of an unsplit hand', () => {
+    const r = rules({ surrender: 'late' });
+    expect(isSurrenderAllowed(hand(Rank.Ten, Rank.Six), r)).toBe(true);
+    expect(isSurrenderAllowed(hand(Rank.Ten, Rank.Six), rules({ surrender: 'none' }))).toBe(false);
+    expect(isSurrenderAllowed(hand(Rank.Two, Rank.Four, Rank.Ten), r)).toBe(false);
+    expect(isSurrenderAllowed(hand(Rank.Ten, Rank.Six), r, true)).toBe(false);
+    expect(isSurrenderAllowed(hand(Rank.Ten, Rank.Six), r, false, 2)).toBe(false);
+  });
+});
+
+describe('insurance and early surrender offers', () => {
+  it('offers insurance against an Ace when the dealer peeks', () => {
+    expect(isInsuranceOffered(card(Rank.Ace), rules())).toBe(true);
+    expect(isInsuranceOffered(card(Rank.Ace), rules({ dealerPeek: false }))).toBe(false);
+    expect(isInsuranceOffered(card(Rank.King), rules())).toBe(false);
+    expect(maxInsuranceBet(25)).toBe(12);
+  });
+
+  it('offers early surrender against an A or 10 before the peek', () => {
+    const r = rules({ surrender: 'early' });
+    expect(isEarlySurrenderOffered(card(Rank.Ace), r)).toBe(true);
+    expect(isEarlySurrenderOffered(card(Rank.Queen), r)).toBe(true);
+    expect(isEarlySurrenderOffered(card(Rank.Nine), r)).toBe(false);
+    expect(isEarlySurrenderOffered(card(Rank.Ace), rules({ surrender: 'late' }))).toBe(false);
+  });
+});
+
+describe('isSplitAllowed', () => {
+  it('needs a pair of the same rank', () => {
+    expect(isSplitAllowed(hand(Rank.Eight, Rank.Eight), 1, rules())).toBe(true);
+    expect(isSplitAllowed(hand(Rank.Jack, Rank.King), 1, rules())).toBe(false);
+  });
+
+  it('stops at the table maximum of hands', () => {
+    expect(isSplitAllowed(hand(Rank.Eight, Rank.Eight), 3, rules({ maxSplitHands: 4 }))).toBe(true);
+    expect(isSplitAllowed(hand(Rank.Eight, Rank.Eight), 4, rules({ maxSplitHands: 4 }))).toBe(false);
+    expect(isSplitAllowed(hand(Rank.Eight, Rank.Eight), 2, rules({ maxSplitHands: 2 }))).toBe(false);
+  });
+
+  it('resplits Aces only when the table allows it', () => {
+    expect(isSplitAllowed(hand(Rank.Ace, Rank.Ace), 1, rules())).toBe(true);
+    expect(isSplitAllowed(hand(Rank.Ace, Rank.Ace), 2, rules({ resplitAces: false }), true)).toBe(false);
+    expect(isSplitAllowed(hand(Rank.Ace, Rank.Ace), 2, rules({ resplitAces: true }), true)).toBe(true);
+  });
+});
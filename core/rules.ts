@@ -0,0 +1,112 @@
+import { Card, Rank, calculateHandValue, isStrictPair } from './cards.js';
+
+// ─── Table rules ──────────────────────────────────────────────────────────────
+// One rule set drives the strategy engine, the rounds the server deals and the
+// rules a multiplayer room is created with.
+
+export type BlackjackPayout = '3:2' | '6:5' | '1:1';
+export type DoubleRestriction = 'any' | '9-11';
+export type SurrenderRule = 'none' | 'late' | 'early'; // early = before the dealer checks for blackjack
+
+export interface TableRules {
+  decks: number;
+  dealerHitsSoft17: boolean;
+  blackjackPayout: BlackjackPayout;
+  doubleAfterSplit: boolean;
+  doubleOn: DoubleRestriction;
+  maxSplitHands: number; // total hands allowed after resplitting (2 = no resplit)
+  resplitAces: boolean;
+  dealerPeek: boolean;   // dealer checks for blackjack under an A/10 before play
+  surrender: SurrenderRule;
+  penetration: number;   // fraction of the shoe dealt before the cut card comes out
+}
+
+export const DEFAULT_RULES: TableRules = {
+  decks: 6,
+  dealerHitsSoft17: true,
+  blackjackPayout: '3:2',
+  doubleAfterSplit: true,
+  doubleOn: 'any',
+  maxSplitHands: 4,
+  resplitAces: false,
+  dealerPeek: true,
+  surrender: 'none',
+  penetration: 0.75,
+};
+
+export const DECK_OPTIONS = [1, 2, 4, 6, 8] as const;
+export const PAYOUT_OPTIONS: BlackjackPayout[] = ['3:2', '6:5', '1:1'];
+export const DOUBLE_OPTIONS: DoubleRestriction[] = ['any', '9-11'];
+export const SPLIT_HAND_OPTIONS = [2, 3, 4] as const;
+export const SURRENDER_OPTIONS: SurrenderRule[] = ['none', 'late', 'early'];
+export const PENETRATION_OPTIONS = [0.5, 0.65, 0.75, 0.85] as const;
+
+/** Whether an untrusted value is one of a fixed list of options */
+export const oneOf = <T,>(options: readonly T[], value: unknown): value is T =>
+  (options as readonly unknown[]).includes(value);
+
+/** Coerce untrusted input (localStorage, socket payloads) into a valid rule set */
+export const normalizeRules = (input: unknown): TableRules => {
+  const r = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof TableRules, unknown>>;
+  return {
+    decks: oneOf(DECK_OPTIONS, r.decks) ? r.decks : DEFAULT_RULES.decks,
+    dealerHitsSoft17: typeof r.dealerHitsSoft17 === 'boolean' ? r.dealerHitsSoft17 : DEFAULT_RULES.dealerHitsSoft17,
+    blackjackPayout: oneOf(PAYOUT_OPTIONS, r.blackjackPayout) ? r.blackjackPayout : DEFAULT_RULES.blackjackPayout,
+    doubleAfterSplit: typeof r.doubleAfterSplit === 'boolean' ? r.doubleAfterSplit : DEFAULT_RULES.doubleAfterSplit,
+    doubleOn: oneOf(DOUBLE_OPTIONS, r.doubleOn) ? r.doubleOn : DEFAULT_RULES.doubleOn,
+    maxSplitHands: oneOf(SPLIT_HAND_OPTIONS, r.maxSplitHands) ? r.maxSplitHands : DEFAULT_RULES.maxSplitHands,
+    resplitAces: typeof r.resplitAces === 'boolean' ? r.resplitAces : DEFAULT_RULES.resplitAces,
+    dealerPeek: typeof r.dealerPeek === 'boolean' ? r.dealerPeek : DEFAULT_RULES.dealerPeek,
+    surrender: oneOf(SURRENDER_OPTIONS, r.surrender) ? r.surrender : DEFAULT_RULES.surrender,
+    penetration: oneOf(PENETRATION_OPTIONS, r.penetration) ? r.penetration : DEFAULT_RULES.penetration,
+  };
+};
+
+// ─── Rule checks ──────────────────────────────────────────────────────────────
+
+/** Winnings (excluding the returned stake) for a natural blackjack */
+export const blackjackWinnings = (bet: number, rules: TableRules): number => {
+  switch (rules.blackjackPayout) {
+    case '6:5': return Math.floor(bet * 1.2);
+    case '1:1': return bet;
+    default: return Math.floor(bet * 1.5);
+  }
+};
+
+export const dealerShouldHit = (cards: Card[], rules: TableRules): boolean => {
+  const { total, isSoft } = calculateHandValue(cards);
+  return total < 17 || (total === 17 && isSoft && rules.dealerHitsSoft17);
+};
+
+/** Whether a two-card total may be doubled under the table's double restriction */
+export const isDoubleTotalAllowed = (total: number, isSoft: boolean, rules: TableRules): boolean =>
+  rules.doubleOn === 'any' || (!isSoft && total >= 9 && total <= 11);
+
+export const isDoubleAllowed = (cards: Card[], rules: TableRules, isSplit: boolean = false): boolean => {
+  if (cards.length !== 2) return false;
+  if (isSplit && !rules.doubleAfterSplit) return false;
+  const { total, isSoft } = calculateHandValue(cards);
+  return isDoubleTotalAllowed(total, isSoft, rules);
+};
+
+/** Surrender is only offered on the opening two cards, before any split */
+export const isSurrenderAllowed = (cards: Card[], rules: TableRules, isSplit: boolean = false, handCount: number = 1): boolean =>
+  rules.surrender !== 'none' && cards.length === 2 && !isSplit && handCount === 1;
+
+/** Insurance (even money on a blackjack) is offered against an Ace before the dealer peeks */
+export const isInsuranceOffered = (dealerUpCard: Card, rules: TableRules): boolean =>
+  rules.dealerPeek && dealerUpCard.rank === Rank.Ace;
+
+/** Insurance is a side bet of up to half the original wager, paying 2:1 */
+export const maxInsuranceBet = (bet: number): number => Math.floor(bet / 2);
+
+/** Whether the hole card check waits for early surrender decisions (dealer shows an A or 10) */
+export const isEarlySurrenderOffered = (dealerUpCard: Card, rules: TableRules): boolean =>
+  rules.surrender === 'early' && rules.dealerPeek && dealerUpCard.value >= 10;
+
+export const isSplitAllowed = (cards: Card[], handCount: number, rules: TableRules, isSplitAces: boolean = false): boolean => {
+  if (!isStrictPair(cards)) return false;
+  if (handCount >= rules.maxSplitHands) return false;
+  if (isSplitAces && cards[0].rank === Rank.Ace) return rules.resplitAces;
+  return true;
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Card, HandStatus, PlayerHand, Rank, Suit, cardValue } from './cards.js';
+import { DEFAULT_RULES, TableRules } from './rules.js';
+import { insurancePayout, settleHand, surrenderRefund } from './settlement.js';
+
+const hand = (...ranks: Rank[]): Card[] => ranks.map(rank => ({ rank, suit: Suit.Clubs, value: cardValue(rank), id: rank }));
+const playerHand = (cards: Card[], status: HandStatus = 'standing', bet = 10): PlayerHand => ({ id: 'hand-1', cards, bet, status });
+const rules = (overrides: Partial<TableRules> = {}): TableRules => ({ ...DEFAULT_RULES, ...overrides });
+
+describe('settleHand', () => {
+  it('pays even money on a higher total', () => {
+    expect(settleHand(playerHand(hand(Rank.Ten, Rank.Nine)), hand(Rank.Ten, Rank.Eight), rules()))
+      .toEqual({ result: 'win', payout: 20 });
+  });
+
+  it('pays even money when the dealer busts', () => {
+    expect(settleHand(playerHand(hand(Rank.Ten, Rank.Two)), hand(Rank.Ten, Rank.Six, Rank.Nine), rules()))
+      .toEqual({ result: 'win', payout: 20 });
+  });
+
+  it('takes the bet on a lower total', () => {
+    expect(settleHand(playerHand(hand(Rank.Ten, Rank.Seven)), hand(Rank.Ten, Rank.Eight), rules()))
+      .toEqual({ result: 'loss', payout: 0 });
+  });
+
+  it('returns the stake on a tie', () => {
+    expect(settleHand(playerHand(hand(Rank.Ten, Rank.Eight)), hand(Rank.Nine, Rank.Nine), rules()))
+      .toEqual({ result: 'push', payout: 10 });
+  });
+
+  it('pays a blackjack at the table payout', () => {
+    const bj = playerHand(hand(Rank.Ace, Rank.King), 'blackjack');
+    expect(settleHand(bj, hand(Rank.Ten, Rank.Nine), rules({ blackjackPayout: '3:2' }))).toEqual({ result: 'win', payout: 25 });
+    expect(settleHand(bj, hand(Rank.Ten, Rank.Nine), rules({ blackjackPayout: '6:5' }))).toEqual({ result: 'win', payout: 22 });
+  });
+
+  it('does not pay 21 from a split as a blackjack', () => {
+    const split = { ...playerHand(hand(Rank.Ace, Rank.King)), isSplit: true };
+    expect(settleHand(split, hand(Rank.Ten, Rank.Nine), rules())).toEqual({ result: 'win', payout: 20 });
+  });
+
+  it('loses everything but a blackjack to a dealer blackjack', () => {
+    expect(settleHand(playerHand(hand(Rank.Ten, Rank.Five, Rank.Six)), hand(Rank.Ace, Rank.Queen), rules()))
+      .toEqual({ result: 'loss', payout: 0 });
+    expect(settleHand(playerHand(hand(Rank.Ace, Rank.Jack), 'blackjack'), hand(Rank.Ace, Rank.Queen), rules()))
+      .toEqual({ result: 'push', payout: 10 });
+  });
+
+  it('beats a dealer 21 made with three cards with a blackjack', () => {
+    expect(settleHand(playerHand(hand(Rank.Ace, Rank.Jack), 'blackjack'), hand(Rank.Seven, Rank.Seven, Rank.Seven), rules()))
+      .toEqual({ result: 'win', payout: 25 });
+  });
+
+  it('settles a doubled hand on its doubled bet', () => {
+    expect(settleHand(playerHand(hand(Rank.Five, Rank.Six, Rank.Ten), 'doubled', 20), hand(Rank.Ten, Rank.Seven), rules()))
+      .toEqual({ result: 'win', payout: 40 });
+  });
+});
+
+describe('insurancePayout', () => {
+  it('pays 2:1 plus the stake against a dealer blackjack', () => {
+    expect(insurancePayout(5, hand(Rank.Ace, Rank.King))).toBe(15);
+    expect(insurancePayout(5, hand(Rank.Ace, Rank.Nine))).toBe(0);
+  });
+});
+
+describe('surrenderRefund', () => {
+  it('returns half the bet, rounded down', () => {
+    expect(surrenderRefund(10)).toBe(5);
+    expect(surrenderRefund(25)).toBe(12);
+  });
+});
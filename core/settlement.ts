@@ -0,0 +1,33 @@
+import { Card, HandOutcome, PlayerHand, calculateHandValue, isBlackjack } from './cards.js';
+import { TableRules, blackjackWinnings } from './rules.js';
+
+// ─── Settlement ───────────────────────────────────────────────────────────────
+// Payouts are the chips handed back to the player, stake included: a 1:1 win
+// on 10 pays 20, a push pays 10, a loss pays nothing.
+
+export interface Settlement {
+  result: HandOutcome;
+  payout: number;
+}
+
+/** Settle a hand still in play (not busted or surrendered) against the dealer's final cards */
+export const settleHand = (hand: PlayerHand, dealerCards: Card[], rules: TableRules): Settlement => {
+  const { total: dTotal } = calculateHandValue(dealerCards);
+  const { total: pTotal } = calculateHandValue(hand.cards);
+  const dealerBJ = isBlackjack(dealerCards);
+  const playerBJ = hand.status === 'blackjack';
+
+  if (dealerBJ && playerBJ) return { result: 'push', payout: hand.bet };
+  if (dealerBJ) return { result: 'loss', payout: 0 };
+  if (playerBJ) return { result: 'win', payout: hand.bet + blackjackWinnings(hand.bet, rules) };
+  if (dTotal > 21 || pTotal > dTotal) return { result: 'win', payout: hand.bet * 2 };
+  if (pTotal < dTotal) return { result: 'loss', payout: 0 };
+  return { result: 'push', payout: hand.bet };
+};
+
+/** Insurance pays 2:1 when the hole card makes a dealer blackjack */
+export const insurancePayout = (stake: number, dealerCards: Card[]): number =>
+  isBlackjack(dealerCards) ? stake * 3 : 0;
+
+/** Surrender hands back half the bet */
+export const surrenderRefund = (bet: number): number => Math.floor(bet / 2);
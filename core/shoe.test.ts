@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES } from './rules.js';
+import { sha256Hex } from './random.js';
+import {
+  cardsDealt, createShoe, discardCards, drawCard, drawCardWhere, isCutCardOut, nextShoe, revealShoe, shoeInfo, shuffleShoe,
+  shuffleTray, shuffledCards,
+} from './shoe.js';
+
+const oneDeck = { decks: 1, penetration: 0.5 };
+const seeds = [{ seatId: 'a', name: 'Ann', seed: 'ann' }, { seatId: 'b', name: 'Bo', seed: 'bo' }];
+
+describe('createShoe', () => {
+  it('commits to its seed before anything is dealt', () => {
+    const shoe = createShoe(DEFAULT_RULES, 'server');
+    expect(shoe.serverSeedHash).toBe(sha256Hex('server'));
+    expect(shoe.clientSeeds).toBeNull();
+    expect(shoe.size).toBe(312);
+    expect(shoe.cutCardAt).toBe(234);
+    expect(cardsDealt(shoe)).toBe(0);
+    expect(isCutCardOut(shoe)).toBe(false);
+  });
+
+  it('numbers the next shoe on and keeps the table settings', () => {
+    const next = nextShoe(createShoe(oneDeck, 'one'), 'two');
+    expect(next.number).toBe(2);
+    expect(next.cutCardAt).toBe(26);
+    expect(next.serverSeedHash).toBe(sha256Hex('two'));
+  });
+});
+
+describe('shuffleShoe', () => {
+  it('shuffles once, from the server seed and every client seed', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, seeds);
+    expect(shoe.cards).toEqual(shuffledCards(1, 'server', ['ann', 'bo']));
+    shuffleShoe(shoe, []);
+    expect(shoe.clientSeeds).toEqual(seeds);
+  });
+});
+
+describe('drawCard', () => {
+  it('deals from the end and counts towards the cut card', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, []);
+    const order = shuffledCards(1, 'server', []).reverse();
+    const drawn = Array.from({ length: 26 }, () => drawCard(shoe));
+    expect(drawn).toEqual(order.slice(0, 26));
+    expect(shoe.dealt).toEqual(drawn);
+    expect(isCutCardOut(shoe)).toBe(true);
+    expect(shoeInfo(shoe)).toMatchObject({ cardsDealt: 26, cardsRemaining: 26, cutCardOut: true });
+  });
+
+  it('reshuffles the tray in deal order with the numbered tray seed', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, []);
+    const first = Array.from({ length: 52 }, () => drawCard(shoe));
+    discardCards(shoe, [first[30], first[2], first[11]]);
+    const next = drawCard(shoe);
+
+    expect(shoe.trays).toEqual([[first[2].id, first[11].id, first[30].id]]);
+    expect(next).toEqual(shuffleTray('server', 1, [first[2], first[11], first[30]]).pop());
+    expect(shoe.discards).toEqual([]);
+    expect(revealShoe(shoe)).toMatchObject({ shoeNumber: 1, serverSeed: 'server', clientSeeds: [], trays: shoe.trays });
+  });
+
+  it('throws once the shoe and the tray are both empty', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, []);
+    for (let i = 0; i < 52; i++) drawCard(shoe);
+    expect(() => drawCard(shoe)).toThrow('both empty');
+  });
+});
+
+describe('drawCardWhere', () => {
+  it('takes the next card that fits and leaves the others in order', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, []);
+    const order = [...shoe.cards].reverse();
+    const at = order.findIndex(c => c.value !== order[0].value);
+    expect(drawCardWhere(shoe, c => c.value !== order[0].value)).toEqual(order[at]);
+    expect(Array.from({ length: at }, () => drawCard(shoe))).toEqual(order.slice(0, at));
+  });
+
+  it('brings the tray back when nothing left in the shoe fits', () => {
+    const shoe = createShoe(oneDeck, 'server');
+    shuffleShoe(shoe, []);
+    const all = Array.from({ length: 51 }, () => drawCard(shoe));
+    const ace = all.find(c => c.rank === 'A')!;
+    discardCards(shoe, [ace]);
+    const left = shoe.cards[0];
+    expect(drawCardWhere(shoe, c => c.rank === 'A' && c.id !== left.id)).toEqual(ace);
+    expect(shoe.cards).toEqual([left]);
+    expect(() => drawCardWhere(shoe, c => c.id === 'nope')).toThrow('fits');
+  });
+});
@@ -0,0 +1,167 @@
+import { Card, createDeck, shuffleDeck } from './cards.js';
+import { TableRules } from './rules.js';
+import { combineSeeds, createRng, sha256Hex } from './random.js';
+
+// ─── Shoe ─────────────────────────────────────────────────────────────────────
+// Every table deals from this one model: the server's rooms and the browser's
+// drills. A shoe is committed to (sha256 of its seed) before it is shuffled, is
+// shuffled at its first deal from its seed and the seated players' client seeds,
+// and is dealt from until the cut card comes out; the shuffle then waits for the
+// end of the round. Cards leave the table into the discard tray.
+//
+// Only a deep cut at a crowded table runs the shoe dry mid-round. The tray is
+// then put back in deal order and shuffled with serverSeed/tray/<n>, so the
+// reshuffle depends on the seed alone and can be replayed from its card ids.
+
+/** A seated player's seed, mixed into the shuffle of the shoe */
+export interface ClientSeed {
+  seatId: string;
+  name: string;
+  seed: string;
+}
+
+export interface Shoe {
+  number: number;        // shoes dealt at this table, from 1
+  decks: number;
+  penetration: number;   // fraction of the shoe dealt before the cut card
+  serverSeed: string;    // secret until the shoe is finished (multiplayer)
+  serverSeedHash: string;
+  clientSeeds: ClientSeed[] | null; // null until the shoe is shuffled
+  cards: Card[];         // undealt, drawn from the end
+  dealt: Card[];         // in deal order, tray reshuffles included
+  trays: string[][];     // card ids of each reshuffled discard tray, in the order they were first dealt
+  discards: Card[];      // discard tray
+  size: number;
+  cutCardAt: number;     // cards dealt when the cut card comes out
+}
+
+/** What can be seen of the shoe from the table */
+export interface ShoeInfo {
+  decks: number;
+  size: number;
+  cardsRemaining: number;
+  cardsDealt: number;
+  discards: number;      // cards in the discard tray
+  cutCardAt: number;     // cards dealt when the cut card comes out
+  cutCardOut: boolean;   // the shoe is shuffled at the end of this round
+}
+
+// Provably fair shoes: sha256(serverSeed) is published before any client seed is
+// known; the shoe is shuffled from serverSeed + client seeds and revealed when finished
+export interface ShoeCommitment {
+  shoeNumber: number;
+  serverSeedHash: string;
+  clientSeeds: ClientSeed[] | null; // locked in when the shoe is shuffled at its first deal
+  revealedShoe: number | null;      // latest finished shoe, fetched with 'get-shoe-reveal'
+}
+
+/** Everything needed to rebuild the deal order without trusting the dealer's own list */
+export interface RevealedShoe {
+  shoeNumber: number;
+  decks: number;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeeds: ClientSeed[];
+  trays: string[][];                // card ids of each reshuffled discard tray, in first-dealt order
+}
+
+/** A committed shoe, not yet shuffled */
+export const createShoe = (rules: Pick<TableRules, 'decks' | 'penetration'>, serverSeed: string, number: number = 1): Shoe => {
+  const size = rules.decks * 52;
+  return {
+    number,
+    decks: rules.decks,
+    penetration: rules.penetration,
+    serverSeed,
+    serverSeedHash: sha256Hex(serverSeed),
+    clientSeeds: null,
+    cards: [],
+    dealt: [],
+    trays: [],
+    discards: [],
+    size,
+    cutCardAt: Math.round(size * rules.penetration),
+  };
+};
+
+/** The next shoe at the same table */
+export const nextShoe = (shoe: Shoe, serverSeed: string): Shoe => createShoe(shoe, serverSeed, shoe.number + 1);
+
+/** A fresh shoe's cards, dealt from the end: one generator, one draw per card id, then Fisher–Yates */
+export const shuffledCards = (decks: number, serverSeed: string, clientSeeds: string[]): Card[] => {
+  const rng = createRng(combineSeeds(serverSeed, clientSeeds));
+  return shuffleDeck(createDeck(decks, rng), rng);
+};
+
+/** The nth (from 1) reshuffle of a discard tray that is already back in deal order */
+export const shuffleTray = (serverSeed: string, n: number, tray: Card[]): Card[] =>
+  shuffleDeck(tray, createRng(`${serverSeed}/tray/${n}`));
+
+/** First deal: lock in the client seeds and shuffle. A shoe already shuffled is left alone. */
+export const shuffleShoe = (shoe: Shoe, clientSeeds: ClientSeed[]) => {
+  if (shoe.clientSeeds) return;
+  shoe.clientSeeds = clientSeeds;
+  shoe.cards = shuffledCards(shoe.decks, shoe.serverSeed, clientSeeds.map(c => c.seed));
+};
+
+export const cardsDealt = (shoe: Shoe): number => (shoe.clientSeeds ? shoe.size - shoe.cards.length : 0);
+
+export const isCutCardOut = (shoe: Shoe): boolean => cardsDealt(shoe) >= shoe.cutCardAt;
+
+/** Put the discard tray back in the shoe, under any cards still in it, reshuffled as described above */
+const reshuffleTray = (shoe: Shoe) => {
+  if (shoe.discards.length === 0) return;
+  const dealtAt = new Map(shoe.dealt.map((c, i) => [c.id, i]));
+  const tray = [...shoe.discards].sort((a, b) => dealtAt.get(a.id)! - dealtAt.get(b.id)!);
+  shoe.trays.push(tray.map(c => c.id));
+  shoe.cards = [...shuffleTray(shoe.serverSeed, shoe.trays.length, tray), ...shoe.cards];
+  shoe.discards = [];
+  shoe.size = shoe.cards.length;
+  shoe.cutCardAt = 0;
+};
+
+export const drawCard = (shoe: Shoe): Card => {
+  if (shoe.cards.length === 0) reshuffleTray(shoe);
+  const card = shoe.cards.pop();
+  if (!card) throw new Error('The shoe and the discard tray are both empty');
+  shoe.dealt.push(card);
+  return card;
+};
+
+/**
+ * The next card that fits, leaving the cards passed over where they are: a drill's
+ * hole card, once the dealer's peek has shown it cannot make a blackjack
+ */
+export const drawCardWhere = (shoe: Shoe, fits: (card: Card) => boolean): Card => {
+  if (!shoe.cards.some(fits)) reshuffleTray(shoe);
+  for (let i = shoe.cards.length - 1; i >= 0; i--) {
+    if (!fits(shoe.cards[i])) continue;
+    const [card] = shoe.cards.splice(i, 1);
+    shoe.dealt.push(card);
+    return card;
+  }
+  throw new Error('No card left in the shoe or the discard tray fits');
+};
+
+export const discardCards = (shoe: Shoe, cards: Card[]) => {
+  shoe.discards.push(...cards);
+};
+
+export const revealShoe = (shoe: Shoe): RevealedShoe => ({
+  shoeNumber: shoe.number,
+  decks: shoe.decks,
+  serverSeed: shoe.serverSeed,
+  serverSeedHash: shoe.serverSeedHash,
+  clientSeeds: shoe.clientSeeds ?? [],
+  trays: shoe.trays,
+});
+
+export const shoeInfo = (shoe: Shoe): ShoeInfo => ({
+  decks: shoe.decks,
+  size: shoe.size,
+  cardsRemaining: shoe.size - cardsDealt(shoe),
+  cardsDealt: cardsDealt(shoe),
+  discards: shoe.discards.length,
+  cutCardAt: shoe.cutCardAt,
+  cutCardOut: isCutCardOut(shoe),
+});
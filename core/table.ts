@@ -0,0 +1,74 @@
+import { Card, PlayerHand } from './cards.js';
+import { TableRules } from './rules.js';
+import { RoundPhase, TableLimits, TableTimers } from './round.js';
+import { ShoeCommitment, ShoeInfo } from './shoe.js';
+
+// ─── Table views ──────────────────────────────────────────────────────────────
+// What the server sends about a room: each client's view of a table (room-update)
+// and the rows of the room browser (room-list).
+
+// Seats are shown under a public seat id (random.ts seatIdFor); a playerId never
+// leaves its own client, so nobody else can claim the seat with it
+export interface SerializedPlayer {
+  seatId: string;
+  socketId: string;          // only in the seat owner's own view
+  name: string;
+  chips: number;
+  hands: PlayerHand[];
+  currentBet: number;
+  hasBet: boolean;
+  isDone: boolean;
+  disconnected: boolean;
+  awaitingDecision: boolean; // still to answer the insurance / early surrender offer
+  insuranceBet: number;      // insurance side bet this round (0 = declined)
+  sittingOut: boolean;       // missed the betting clock, dealt out of this round
+  clientSeed: string;        // mixed into the next shoe shuffled while seated
+}
+
+// Watching without a seat; a waiting spectator is seated when bets next open
+export interface SerializedSpectator {
+  seatId: string;
+  name: string;
+  waiting: boolean;
+  disconnected: boolean;
+}
+
+// Single-player rounds are dealt by the server in a room of one
+export interface SoloTable {
+  ranked: boolean;                  // a logged-in bankroll; results go to game_history
+  shoeSeed: string | null;          // practice tables only — replays the shoe
+}
+
+export interface SerializedRoom {
+  code: string;
+  hostSeatId: string;
+  phase: RoundPhase;
+  players: SerializedPlayer[];
+  dealerHand: Card[];
+  activeSeatId: string | null;
+  rules: TableRules;
+  shoe: ShoeInfo;
+  fairness: ShoeCommitment;
+  timers: TableTimers;
+  limits: TableLimits;
+  locked: boolean;                  // no new players or spectators
+  hasPassword: boolean;
+  isPublic: boolean;                // listed in the room browser
+  countdownMs: number | null;       // time left on the betting / turn clock when sent
+  spectators: SerializedSpectator[]; // in arrival order; the waiting ones are the wait-list
+  solo: SoloTable | null;           // null for multiplayer rooms
+}
+
+// One open public table in the room browser
+export interface RoomListing {
+  code: string;
+  hostName: string;
+  phase: RoundPhase;
+  rules: TableRules;
+  limits: TableLimits;
+  timers: TableTimers;
+  seated: number;
+  seats: number;
+  waiting: number;                  // on the wait-list
+  hasPassword: boolean;
+}
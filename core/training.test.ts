@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Rank } from './cards.js';
+import { DEFAULT_RULES } from './rules.js';
+import { decisionCell, parseTrainingDecision, trainingRulesKey } from './training.js';
+
+const decision = {
+  kind: 'play', cards: [Rank.Ten, Rank.Six], upcard: Rank.Ten, action: 'Stand', correctAction: 'Hit',
+  responseMs: 1200, trueCount: null, rules: DEFAULT_RULES,
+};
+
+describe('parseTrainingDecision', () => {
+  it('keeps a valid decision and its rules', () => {
+    expect(parseTrainingDecision(decision)).toEqual(decision);
+  });
+
+  it('refuses what cannot be a real decision', () => {
+    expect(parseTrainingDecision(null)).toBeNull();
+    expect(parseTrainingDecision({ ...decision, kind: 'bet' })).toBeNull();
+    expect(parseTrainingDecision({ ...decision, cards: [Rank.Ten] })).toBeNull();
+    expect(parseTrainingDecision({ ...decision, action: 'Fold' })).toBeNull();
+  });
+
+  it('clamps the response time and falls back to the default rules', () => {
+    const parsed = parseTrainingDecision({ ...decision, responseMs: -5, rules: undefined });
+    expect(parsed?.responseMs).toBe(0);
+    expect(parsed?.rules).toEqual(DEFAULT_RULES);
+  });
+});
+
+describe('decisionCell', () => {
+  it('files pairs by card value and other hands by total', () => {
+    expect(decisionCell(parseTrainingDecision(decision)!)).toEqual({ category: 'hard', total: 16, upcard: 10 });
+    expect(decisionCell(parseTrainingDecision({ ...decision, cards: [Rank.Ace, Rank.Ace] })!))
+      .toEqual({ category: 'pair', total: 11, upcard: 10 });
+  });
+});
+
+describe('trainingRulesKey', () => {
+  it('tells rule sets with a different chart apart', () => {
+    expect(trainingRulesKey({ ...DEFAULT_RULES, dealerHitsSoft17: false })).not.toBe(trainingRulesKey(DEFAULT_RULES));
+  });
+
+  it('ignores penetration and key order', () => {
+    const reordered = Object.fromEntries(Object.entries(DEFAULT_RULES).reverse()) as typeof DEFAULT_RULES;
+    expect(trainingRulesKey({ ...reordered, penetration: 0.5 })).toBe(trainingRulesKey(DEFAULT_RULES));
+  });
+});
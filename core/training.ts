@@ -0,0 +1,74 @@
+import { Card, Rank, RANKS, Suit, calculateHandValue, cardValue, isStrictPair } from './cards.js';
+import { TableRules, normalizeRules, oneOf } from './rules.js';
+
+// ─── Training log ─────────────────────────────────────────────────────────────
+// Every graded training decision is stored on its own, filed under the strategy
+// chart cell it belongs to (hard / soft total or pair, against an upcard), so
+// accuracy can be broken down cell by cell. Decisions keep the rules they were
+// graded under: the right play in a cell changes with the rule set.
+
+export type HandCategory = 'hard' | 'soft' | 'pair';
+
+export interface StrategyCell {
+  category: HandCategory;
+  total: number;   // hard or soft total; for pairs the card value (11 = Aces)
+  upcard: number;  // 2-11 (11 = Ace)
+}
+
+/** The chart cell a hand is read from: pairs by card value, otherwise by total */
+export const strategyCell = (cards: Card[], upcard: number): StrategyCell => {
+  if (isStrictPair(cards)) return { category: 'pair', total: cards[0].value, upcard };
+  const { total, isSoft } = calculateHandValue(cards);
+  return { category: isSoft ? 'soft' : 'hard', total, upcard };
+};
+
+export const TRAINING_ACTIONS = ['Hit', 'Stand', 'Double', 'Split', 'Surrender', 'Insurance', 'No Insurance'] as const;
+export type TrainingAction = typeof TRAINING_ACTIONS[number];
+
+/** One graded decision, as the training drill reports it */
+export interface TrainingDecision {
+  kind: 'play' | 'insurance';
+  cards: Rank[];           // the player's hand when the decision was asked for
+  upcard: Rank;
+  action: TrainingAction;
+  correctAction: TrainingAction;
+  responseMs: number;      // from the hand being shown to the answer
+  trueCount: number | null; // set on count-dependent (index) spots only
+  rules: TableRules;       // the rules the correct action was worked out for
+}
+
+const MAX_RESPONSE_MS = 10 * 60_000;
+
+const isRank = (input: unknown): input is Rank => oneOf(RANKS, input);
+const isAction = (input: unknown): input is TrainingAction => oneOf(TRAINING_ACTIONS, input);
+
+/** Check an untrusted decision (socket payload); null when it cannot be a real one */
+export const parseTrainingDecision = (input: unknown): TrainingDecision | null => {
+  const d = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof TrainingDecision, unknown>>;
+  if (d.kind !== 'play' && d.kind !== 'insurance') return null;
+  if (!Array.isArray(d.cards) || d.cards.length < 2 || d.cards.length > 11 || !d.cards.every(isRank)) return null;
+  if (!isRank(d.upcard) || !isAction(d.action) || !isAction(d.correctAction)) return null;
+  const responseMs = typeof d.responseMs === 'number' && Number.isFinite(d.responseMs)
+    ? Math.round(Math.min(Math.max(d.responseMs, 0), MAX_RESPONSE_MS))
+    : 0;
+  return {
+    kind: d.kind,
+    cards: d.cards,
+    upcard: d.upcard,
+    action: d.action,
+    correctAction: d.correctAction,
+    responseMs,
+    trueCount: typeof d.trueCount === 'number' && Number.isFinite(d.trueCount) ? d.trueCount : null,
+    rules: normalizeRules(d.rules),
+  };
+};
+
+/** The rule set decisions are filed under: every rule but penetration, which never changes the chart */
+export const trainingRulesKey = (rules: TableRules): string =>
+  JSON.stringify({ ...normalizeRules(rules), penetration: undefined });
+
+/** The cell for a logged hand, from its ranks alone (suits play no part in it) */
+export const decisionCell = (d: TrainingDecision): StrategyCell => {
+  const cards = d.cards.map((rank, i): Card => ({ rank, suit: Suit.Spades, value: cardValue(rank), id: `logged-${i}` }));
+  return strategyCell(cards, cardValue(d.upcard));
+};
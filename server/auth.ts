@@ -3,8 +3,9 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import {
     createUser, findUserByUsername, getUserProfile,
-    getLeaderboard, getGameHistory, updateProfile,
+    getLeaderboard, getGameHistory, getTrainingHeatmap, updateProfile,
 } from './db.js';
+import { trainingRulesKey } from '../core/training.js';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'blackjack-local-dev-secret-key-change-in-prod';
 const TOKEN_EXPIRY = '30d';
@@ -129,6 +130,25 @@ router.get('/api/history', optionalAuth, (req: AuthRequest, res: Response) => {
     res.json({ history });
 });
 
+// Training accuracy per strategy chart cell (hard / soft / pair × dealer upcard),
+// for one rule set when ?rules= carries it (JSON), otherwise across all of them
+router.get('/api/training/heatmap', optionalAuth, (req: AuthRequest, res: Response) => {
+    if (!req.userId) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+    }
+    let rules: string | null = null;
+    if (typeof req.query.rules === 'string') {
+        try {
+            rules = trainingRulesKey(JSON.parse(req.query.rules));
+        } catch {
+            res.status(400).json({ error: 'Invalid rules' });
+            return;
+        }
+    }
+    res.json({ cells: getTrainingHeatmap(req.userId, rules) });
+});
+
 router.put('/api/profile', optionalAuth, (req: AuthRequest, res: Response) => {
     if (!req.userId) {
         res.status(401).json({ error: 'Not authenticated' });
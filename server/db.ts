@@ -42,8 +42,32 @@ db.exec(`
         best_streak       INTEGER NOT NULL DEFAULT 0
     );
 
+    CREATE TABLE IF NOT EXISTS training_decisions (
+        id             INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id        INTEGER NOT NULL REFERENCES users(id),
+        kind           TEXT NOT NULL,
+        category       TEXT NOT NULL,
+        total          INTEGER NOT NULL,
+        upcard         INTEGER NOT NULL,
+        cards          TEXT NOT NULL,
+        action         TEXT NOT NULL,
+        correct_action TEXT NOT NULL,
+        is_correct     INTEGER NOT NULL,
+        response_ms    INTEGER NOT NULL,
+        true_count     REAL,
+        rules          TEXT NOT NULL,
+        created_at     TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS rooms (
+        code        TEXT PRIMARY KEY,
+        state       TEXT NOT NULL,
+        updated_at  TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
     CREATE INDEX IF NOT EXISTS idx_game_history_user ON game_history(user_id);
     CREATE INDEX IF NOT EXISTS idx_users_chips ON users(chips DESC);
+    CREATE INDEX IF NOT EXISTS idx_training_decisions_user ON training_decisions(user_id);
 `);
 
 // ─── Types ────────────────────────────────────────────────────────────────────
@@ -77,6 +101,39 @@ export interface TrainingStatsRow {
     best_streak: number;
 }
 
+export interface TrainingDecisionRow {
+    id: number;
+    user_id: number;
+    kind: 'play' | 'insurance';
+    category: 'hard' | 'soft' | 'pair';
+    total: number;         // pairs: the card value (11 = Aces)
+    upcard: number;        // 2-11
+    cards: string;         // ranks, comma separated
+    action: string;
+    correct_action: string;
+    is_correct: number;
+    response_ms: number;
+    true_count: number | null; // count-dependent spots only
+    rules: string;             // trainingRulesKey of the rules it was graded under
+    created_at: string;
+}
+
+/** Accuracy for one strategy chart cell */
+export interface TrainingHeatmapCell {
+    category: 'hard' | 'soft' | 'pair';
+    total: number;
+    upcard: number;
+    decisions: number;
+    correct: number;
+    avg_response_ms: number;
+}
+
+export interface RoomRow {
+    code: string;
+    state: string; // JSON snapshot of the multiplayer room, see server.ts
+    updated_at: string;
+}
+
 export interface UserProfile {
     id: number;
     username: string;
@@ -132,7 +189,7 @@ const stmts = {
             COALESCE(SUM(CASE WHEN chips_delta < 0 THEN ABS(chips_delta) ELSE 0 END), 0) as total_chips_lost,
             COALESCE(MAX(chips_delta), 0) as best_session_delta,
             COUNT(*) as games_played
-        FROM game_history WHERE user_id = ?
+        FROM game_history WHERE user_id = ? AND mode != 'rebuy'
     `),
 
     getTrainingStats: db.prepare(`SELECT * FROM training_stats WHERE user_id = ?`),
@@ -145,17 +202,44 @@ const stmts = {
             best_streak = MAX(best_streak, excluded.best_streak)
     `),
 
+    recordTrainingDecision: db.prepare(`
+        INSERT INTO training_decisions
+            (user_id, kind, category, total, upcard, cards, action, correct_action, is_correct, response_ms, true_count, rules)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `),
+    // Basic strategy plays only: insurance and index spots are graded on other terms.
+    // With a rule set, only decisions graded under it; without, every decision.
+    getTrainingHeatmap: db.prepare(`
+        SELECT
+            category, total, upcard,
+            COUNT(*) as decisions,
+            SUM(is_correct) as correct,
+            CAST(ROUND(AVG(response_ms)) AS INTEGER) as avg_response_ms
+        FROM training_decisions
+        WHERE user_id = ? AND kind = 'play' AND true_count IS NULL AND (? IS NULL OR rules = ?)
+        GROUP BY category, total, upcard
+    `),
+
+    // Ranked on the bankroll less every rebuy, so rebought chips never climb the board
     getLeaderboard: db.prepare(`
         SELECT
-            u.id, u.username, u.display_name, u.avatar, u.chips,
+            u.id, u.username, u.display_name, u.avatar,
+            u.chips - COALESCE(SUM(CASE WHEN g.mode = 'rebuy' THEN g.chips_delta ELSE 0 END), 0) as chips,
             COALESCE(SUM(g.hands_played), 0) as total_hands,
             COALESCE(SUM(g.hands_won), 0) as total_won
         FROM users u
         LEFT JOIN game_history g ON g.user_id = u.id
         GROUP BY u.id
-        ORDER BY u.chips DESC
+        ORDER BY chips DESC
         LIMIT ?
     `),
+
+    saveRoom: db.prepare(`
+        INSERT INTO rooms (code, state) VALUES (?, ?)
+        ON CONFLICT(code) DO UPDATE SET state = excluded.state, updated_at = datetime('now')
+    `),
+    deleteRoom: db.prepare(`DELETE FROM rooms WHERE code = ?`),
+    loadRooms: db.prepare(`SELECT * FROM rooms`),
 };
 
 // ─── Public API ───────────────────────────────────────────────────────────────
@@ -193,6 +277,11 @@ export function recordGame(
     stmts.recordGame.run(userId, mode, handsPlayed, handsWon, handsLost, handsPushed, blackjacks, chipsDelta);
 }
 
+/** A ranked rebuy: kept in the history, but out of the stats and the leaderboard */
+export function recordRebuy(userId: number, chips: number) {
+    stmts.recordGame.run(userId, 'rebuy', 0, 0, 0, 0, 0, chips);
+}
+
 export function getGameHistory(userId: number, limit: number = 20): GameHistoryRow[] {
     return stmts.getGameHistory.all(userId, limit) as GameHistoryRow[];
 }
@@ -241,6 +330,21 @@ export function recordTraining(userId: number, total: number, correct: number, b
     stmts.upsertTrainingStats.run(userId, total, correct, bestStreak);
 }
 
+export function recordTrainingDecision(
+    userId: number,
+    decision: Pick<TrainingDecisionRow, 'kind' | 'category' | 'total' | 'upcard' | 'cards' | 'action' | 'correct_action' | 'response_ms' | 'true_count' | 'rules'>,
+) {
+    const d = decision;
+    stmts.recordTrainingDecision.run(
+        userId, d.kind, d.category, d.total, d.upcard, d.cards, d.action, d.correct_action,
+        d.action === d.correct_action ? 1 : 0, d.response_ms, d.true_count, d.rules,
+    );
+}
+
+export function getTrainingHeatmap(userId: number, rules: string | null = null): TrainingHeatmapCell[] {
+    return stmts.getTrainingHeatmap.all(userId, rules, rules) as TrainingHeatmapCell[];
+}
+
 export interface LeaderboardEntry {
     id: number;
     username: string;
@@ -260,4 +364,17 @@ export function getLeaderboard(limit: number = 20): LeaderboardEntry[] {
     }));
 }
 
+// ─── Multiplayer rooms ────────────────────────────────────────────────────────
+export function saveRoom(code: string, state: string) {
+    stmts.saveRoom.run(code, state);
+}
+
+export function deleteRoom(code: string) {
+    stmts.deleteRoom.run(code);
+}
+
+export function loadRooms(): RoomRow[] {
+    return stmts.loadRooms.all() as RoomRow[];
+}
+
 export default db;
@@ -0,0 +1,40 @@
+import { randomBytes } from 'crypto';
+
+// ─── Random sources ───────────────────────────────────────────────────────────
+// Every shoe is dealt from a seed so a disputed round can be replayed exactly;
+// the seeded generator itself is shared with the client (core/random.ts). Seeds
+// come from the OS CSPRNG. Outside production, SHUFFLE_SEED pins the seeds for
+// reproducible tests.
+//
+// Provably fair shoes: the server publishes sha256(serverSeed) before any
+// client seed is known, shuffles with serverSeed combined with every seated
+// player's client seed, and reveals serverSeed once the shoe is finished.
+
+const TEST_SEED = process.env.NODE_ENV === 'production' ? undefined : process.env.SHUFFLE_SEED;
+let testSeedCount = 0;
+
+if (process.env.NODE_ENV === 'production' && process.env.SHUFFLE_SEED) {
+    console.warn('[random] SHUFFLE_SEED is ignored in production');
+}
+
+/** A fresh shoe seed: 128 random bits, or the next pinned test seed */
+export function generateSeed(): string {
+    if (TEST_SEED !== undefined) return `${TEST_SEED}-${testSeedCount++}`;
+    return randomBytes(16).toString('hex');
+}
+
+/** A secret for one socket to hold, e.g. the token a guest reclaims their seat with */
+export function generateToken(): string {
+    return randomBytes(16).toString('hex');
+}
+
+/** A guest keeps the rejoin token they were last given from table to table; anything else gets a new one */
+export function normalizeRejoinToken(input: unknown): string {
+    return typeof input === 'string' && /^[0-9a-f]{32}$/.test(input) ? input : generateToken();
+}
+
+/** Client seeds are free text from the lobby; keep them short and printable */
+export function normalizeClientSeed(input: unknown): string {
+    const seed = typeof input === 'string' ? input.replace(/[^\x20-\x7e]/g, '').trim().slice(0, 64) : '';
+    return seed || randomBytes(8).toString('hex');
+}
@@ -2,113 +2,161 @@ import express from 'express';
 import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import authRouter, { verifyToken } from './auth.js';
-import { recordGame, recordTraining, updateChips, findUserById } from './db.js';
+import {
+    UserRow, recordGame, recordRebuy, recordTraining, recordTrainingDecision, updateChips, findUserById, saveRoom, deleteRoom, loadRooms,
+} from './db.js';
+import { generateSeed, generateToken, normalizeClientSeed, normalizeRejoinToken } from './random.js';
+import { Card, PlayerHand, Rank, Suit, calculateHandValue, isBlackjack } from '../core/cards.js';
+import {
+    TableRules, dealerShouldHit, isDoubleAllowed, isEarlySurrenderOffered, isInsuranceOffered, isSplitAllowed,
+    isSurrenderAllowed, maxInsuranceBet, normalizeRules,
+} from '../core/rules.js';
+import { insurancePayout, settleHand, surrenderRefund } from '../core/settlement.js';
+import {
+    DEFAULT_LIMITS, DEFAULT_TIMERS, RoundCommand, RoundError, RoundEvent, RoundPhase, TableLimits, TableTimers, assertCommand,
+    betLimitError, nextPhase, normalizeLimits, normalizeTimers,
+} from '../core/round.js';
+import {
+    CHAT_HISTORY_SIZE, CHAT_MAX_LENGTH, CHAT_RATE_LIMIT, ChatMessage, ChatReaction, REACTION_RATE_LIMIT, RateLimit, cleanChatText,
+    isReaction,
+} from '../core/chat.js';
+import { decisionCell, parseTrainingDecision, trainingRulesKey } from '../core/training.js';
+import { seatIdFor, sha256Hex } from '../core/random.js';
+import {
+    RevealedShoe, Shoe, ShoeCommitment, createShoe, discardCards, drawCard, isCutCardOut, nextShoe, revealShoe, shoeInfo,
+    shuffleShoe,
+} from '../core/shoe.js';
+import { RoomListing, SerializedRoom } from '../core/table.js';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
-interface Card {
-    suit: string;
-    rank: string;
-    value: number;
-    id: string;
-}
-
-interface PlayerHand {
-    id: string;
-    cards: Card[];
-    bet: number;
-    status: 'playing' | 'standing' | 'busted' | 'blackjack' | 'doubled';
-    result?: 'win' | 'loss' | 'push';
-}
-
+// Card, PlayerHand, TableRules, Shoe and the room views sent to clients come from the shared game core (../core)
 interface RoomPlayer {
-    playerId: string;      // stable UUID from client
+    playerId: string;      // stable UUID from client, never sent to anyone else (see seatIdFor)
     socketId: string;      // current socket.id (changes on reconnect)
+    rejoinToken: string;   // given to this seat's own socket; a guest needs it to rejoin
     name: string;
     chips: number;
     hands: PlayerHand[];
     currentBet: number;
     hasBet: boolean;
     isDone: boolean;
+    awaitingDecision: boolean; // owes an insurance / early surrender decision before the peek
+    clientSeed: string;    // mixed into every shoe shuffled while seated
+    userId: number | null; // logged-in account whose chips this seat plays with
+    roundStartChips: number; // chips before this round's bet, for the game_history delta
+    insuranceBet: number;  // insurance side bet this round (0 = declined)
+    sittingOut: boolean;   // missed the betting clock — dealt out of this round
     disconnected: boolean; // true during grace period
 }
 
-type RoomPhase = 'lobby' | 'betting' | 'player_turns' | 'dealer_turn' | 'results';
+// Watches the table without a seat. Waiting spectators form the wait-list and take
+// free seats in arrival order whenever bets are open (see seatFromWaitList)
+interface Spectator {
+    playerId: string;
+    socketId: string;
+    rejoinToken: string;   // carried over to the seat they take
+    name: string;
+    clientSeed: string;
+    userId: number | null; // account whose chips come to the table once seated
+    waiting: boolean;      // on the wait-list for a seat
+    disconnected: boolean;
+}
+
+// Single-player tables run on the same engine: 'ranked' plays a logged-in bankroll,
+// 'practice' is a guest table whose shoe seed is shown so it can be replayed
+type SoloKind = 'ranked' | 'practice';
 
 interface Room {
     code: string;
     hostId: string;        // now stores playerId, not socket.id
-    phase: RoomPhase;
+    phase: RoundPhase;     // only ever changed by send() — see core/round.ts
     players: Map<string, RoomPlayer>; // keyed by playerId
-    deck: Card[];
+    spectators: Spectator[];          // in arrival order
+    rules: TableRules;
+    shoe: Shoe;
+    revealedShoes: RevealedShoe[]; // most recent last
     dealerHand: Card[];
     activePlayerId: string | null; // playerId of whose turn it is
+    solo: SoloKind | null; // null for multiplayer rooms
+    timers: TableTimers;
+    deadline: number | null; // when the running clock acts for idle players (epoch ms)
+    limits: TableLimits;
+    locked: boolean;         // host has closed the door to new players and spectators
+    passwordHash: string | null;
+    isPublic: boolean;       // listed in the room browser and open to quick join
+    kicked: Ban[];           // who the host removed; they cannot come back
+    chat: ChatMessage[];     // most recent last, up to CHAT_HISTORY_SIZE
 }
 
-// ─── Deck helpers ─────────────────────────────────────────────────────────────
-const SUITS = ['♥', '♦', '♣', '♠'];
-const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
-
-function cardValue(rank: string): number {
-    if (rank === 'A') return 11;
-    if (['K', 'Q', 'J'].includes(rank)) return 10;
-    return parseInt(rank);
+// A removed player is known by their account, or as a guest by the rejoin token their
+// browser keeps from table to table; the playerId is made up by the client
+interface Ban {
+    userId: number | null;
+    rejoinToken: string;
 }
 
-function createDeck(numDecks: number): Card[] {
-    const cards: Card[] = [];
-    for (let d = 0; d < numDecks; d++) {
-        for (const suit of SUITS) {
-            for (const rank of RANKS) {
-                cards.push({ suit, rank, value: cardValue(rank), id: `${suit}${rank}-${d}-${Math.random().toString(36).slice(2, 7)}` });
-            }
-        }
-    }
-    return cards;
+// ─── Shoe ─────────────────────────────────────────────────────────────────────
+// The shoe itself (draw, discard tray, cut card, tray reshuffles) is core/shoe.ts
+const REVEALED_SHOE_LIMIT = 5;
+
+/** First deal of a shoe: lock in the seated players' client seeds and shuffle */
+function shuffleRoomShoe(room: Room) {
+    // A practice shoe is dealt from its seed alone, so the same seed replays it
+    shuffleShoe(room.shoe, room.solo === 'practice' ? [] : Array.from(room.players.values())
+        .filter(p => !p.disconnected)
+        .sort((a, b) => (a.playerId < b.playerId ? -1 : 1))
+        .map(p => ({ seatId: seatIdFor(p.playerId), name: p.name, seed: p.clientSeed })));
 }
 
-function shuffleDeck(cards: Card[]): Card[] {
-    const arr = [...cards];
-    for (let i = arr.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
+/** End of round: the table goes to the discard tray; a finished shoe is revealed and replaced */
+function clearTable(room: Room) {
+    discardCards(room.shoe, room.dealerHand);
+    for (const p of room.players.values()) {
+        for (const h of p.hands) discardCards(room.shoe, h.cards);
+    }
+    if (isCutCardOut(room.shoe)) {
+        room.revealedShoes = [...room.revealedShoes, revealShoe(room.shoe)].slice(-REVEALED_SHOE_LIMIT);
+        logShoeReveal(room);
+        room.shoe = nextShoe(room.shoe, generateSeed());
+        logShoe(room);
     }
-    return arr;
 }
 
-function calculateHandValue(cards: Card[]): { total: number; isSoft: boolean } {
-    let total = 0;
-    let aces = 0;
-    for (const c of cards) {
-        total += c.value;
-        if (c.rank === 'A') aces++;
-    }
-    while (total > 21 && aces > 0) {
-        total -= 10;
-        aces--;
-    }
-    return { total, isSoft: aces > 0 };
+/** Only the commitment is logged while the shoe is in play; the seed follows once it is revealed */
+function logShoe(room: Room) {
+    console.log(`[shoe] ${room.code} #${room.shoe.number} commitment ${room.shoe.serverSeedHash}`);
 }
 
-function isStrictPair(cards: Card[]): boolean {
-    return cards.length === 2 && cards[0].rank === cards[1].rank;
+/** The server seed goes to the log once the shoe is finished, so a disputed round can be replayed */
+function logShoeReveal(room: Room) {
+    console.log(`[shoe] ${room.code} #${room.shoe.number} server seed ${room.shoe.serverSeed}`);
 }
 
-function drawCard(room: Room): Card {
-    if (room.deck.length < 20) {
-        room.deck = shuffleDeck(createDeck(6));
-    }
-    return room.deck.pop()!;
+function serializeFairness(room: Room): ShoeCommitment {
+    const revealed = room.revealedShoes[room.revealedShoes.length - 1];
+    return {
+        shoeNumber: room.shoe.number,
+        serverSeedHash: room.shoe.serverSeedHash,
+        clientSeeds: room.shoe.clientSeeds,
+        revealedShoe: revealed ? revealed.shoeNumber : null,
+    };
 }
 
 // ─── Room management ──────────────────────────────────────────────────────────
 const rooms = new Map<string, Room>();
 const STARTING_CHIPS = 1000;
+const MAX_SEATS = 7;
+const REBUY_BELOW = 10; // smallest chip — below this a solo player cannot bet
+const PLAYER_ACTIONS: RoundCommand[] = ['hit', 'stand', 'double', 'split', 'surrender'];
 const DISCONNECT_GRACE_MS = 30_000; // 30 seconds
 
 // Reverse lookups
 const playerIdToRoomCode = new Map<string, string>();   // playerId → room code
 const disconnectTimers = new Map<string, ReturnType<typeof setTimeout>>(); // playerId → timer
+const tableClocks = new Map<string, ReturnType<typeof setTimeout>>();       // room code → betting / turn clock
+const chatSends = new Map<string, number[]>();                              // 'chat:' / 'reaction:' + playerId → recent send times
 
 function generateCode(): string {
     let code: string;
@@ -118,6 +166,103 @@ function generateCode(): string {
     return code;
 }
 
+function createRoom(code: string, hostId: string, rules: TableRules, phase: RoundPhase, solo: SoloKind | null, seed?: string): Room {
+    return {
+        code,
+        hostId,
+        phase,
+        players: new Map(),
+        spectators: [],
+        rules,
+        shoe: createShoe(rules, seed ?? generateSeed()),
+        revealedShoes: [],
+        dealerHand: [],
+        activePlayerId: null,
+        solo,
+        timers: DEFAULT_TIMERS,
+        deadline: null,
+        limits: DEFAULT_LIMITS,
+        locked: false,
+        passwordHash: null,
+        isPublic: false,
+        kicked: [],
+        chat: [],
+    };
+}
+
+function createPlayer(
+    playerId: string, socketId: string, name: string, chips: number, clientSeed: unknown,
+    userId: number | null = null, rejoinToken: string = generateToken(),
+): RoomPlayer {
+    return {
+        playerId,
+        socketId,
+        rejoinToken,
+        name,
+        chips,
+        hands: [],
+        currentBet: 0,
+        hasBet: false,
+        isDone: false,
+        awaitingDecision: false,
+        clientSeed: normalizeClientSeed(clientSeed),
+        userId,
+        roundStartChips: chips,
+        insuranceBet: 0,
+        sittingOut: false,
+        disconnected: false,
+    };
+}
+
+/**
+ * An account plays one table at a time, or its bankroll could be staked twice (the wait-list counts).
+ * A single-player table the account has left is closed first instead of holding it (see closeAbandonedSoloTables).
+ */
+function isUserSeated(userId: number): boolean {
+    closeAbandonedSoloTables(userId);
+    for (const room of rooms.values()) {
+        for (const p of room.players.values()) {
+            if (p.userId === userId) return true;
+        }
+        if (room.spectators.some(s => s.waiting && s.userId === userId)) return true;
+    }
+    return false;
+}
+
+/**
+ * A single-player seat belongs to one socket and cannot be rejoined, so once its player has gone
+ * the table is only waiting out the grace period: close it now, as the grace timer would
+ */
+function closeAbandonedSoloTables(userId: number) {
+    for (const room of Array.from(rooms.values())) {
+        if (!room.solo) continue;
+        for (const p of Array.from(room.players.values())) {
+            if (p.userId !== userId || !p.disconnected) continue;
+            clearGraceTimer(p.playerId);
+            console.log(`[solo] closing ${room.code}, left by ${p.name}`);
+            removePlayer(p.playerId, room);
+        }
+    }
+}
+
+/** Account seats come back with the account's login, guest seats with the token they were given on arrival */
+function canReclaimSeat(seat: RoomPlayer | Spectator, token: unknown, rejoinToken: unknown): boolean {
+    if (seat.userId !== null) return userFromToken(token)?.id === seat.userId;
+    return typeof rejoinToken === 'string' && rejoinToken === seat.rejoinToken;
+}
+
+/** Room passwords are kept (and persisted) as hashes; a blank one means no password */
+function hashPassword(password: unknown): string | null {
+    if (typeof password !== 'string' || !password.trim()) return null;
+    return sha256Hex(password.trim().slice(0, 32));
+}
+
+/** The account behind a socket's token, if it is valid */
+function userFromToken(token: unknown) {
+    const payload = typeof token === 'string' ? verifyToken(token) : null;
+    return payload ? findUserById(payload.userId) : undefined;
+}
+
 /** Find which playerId a socket belongs to */
 function findPlayerIdBySocket(socketId: string): { playerId: string; room: Room } | null {
     for (const [_code, room] of rooms) {
@@ -130,25 +275,165 @@ function findPlayerIdBySocket(socketId: string): { playerId: string; room: Room
     return null;
 }
 
-function serializeRoom(room: Room) {
+function findSpectatorBySocket(socketId: string): { spectator: Spectator; room: Room } | null {
+    for (const room of rooms.values()) {
+        const spectator = room.spectators.find(s => s.socketId === socketId);
+        if (spectator) return { spectator, room };
+    }
+    return null;
+}
+
+// The hole card stays on the server until runDealerTurn (or a dealer blackjack at the peek)
+const HOLE_CARD_PHASES: RoundPhase[] = ['insurance', 'early_surrender', 'player_turns'];
+const FACE_DOWN_CARD: Card = { suit: '' as Suit, rank: '' as Rank, value: 0, id: 'hole-card', faceDown: true }; // no face at all
+
+function visibleDealerHand(room: Room): Card[] {
+    if (!HOLE_CARD_PHASES.includes(room.phase) || room.dealerHand.length < 2) return room.dealerHand;
+    return [room.dealerHand[0], FACE_DOWN_CARD, ...room.dealerHand.slice(2)];
+}
+
+/** What one player may see of the room: no hole card, and no one else's socket id or playerId */
+function serializeRoom(room: Room, viewerId: string): SerializedRoom {
     const players = Array.from(room.players.entries()).map(([pid, p]) => ({
-        playerId: pid,
-        socketId: p.socketId,
+        seatId: seatIdFor(pid),
+        socketId: pid === viewerId ? p.socketId : '',
         name: p.name,
         chips: p.chips,
         hands: p.hands,
         currentBet: p.currentBet,
         hasBet: p.hasBet,
         isDone: p.isDone,
+        awaitingDecision: p.awaitingDecision,
+        insuranceBet: p.insuranceBet,
+        sittingOut: p.sittingOut,
+        clientSeed: p.clientSeed,
         disconnected: p.disconnected,
     }));
     return {
         code: room.code,
-        hostId: room.hostId,
+        hostSeatId: seatIdFor(room.hostId),
         phase: room.phase,
         players,
-        dealerHand: room.dealerHand,
-        activePlayerId: room.activePlayerId,
+        dealerHand: visibleDealerHand(room),
+        activeSeatId: room.activePlayerId && seatIdFor(room.activePlayerId),
+        rules: room.rules,
+        shoe: shoeInfo(room.shoe),
+        fairness: serializeFairness(room),
+        timers: room.timers,
+        limits: room.limits,
+        locked: room.locked,
+        hasPassword: room.passwordHash !== null,
+        isPublic: room.isPublic,
+        countdownMs: room.deadline === null ? null : Math.max(0, room.deadline - Date.now()),
+        spectators: room.spectators.map(s => ({
+            seatId: seatIdFor(s.playerId),
+            name: s.name,
+            waiting: s.waiting,
+            disconnected: s.disconnected,
+        })),
+        solo: room.solo && {
+            ranked: room.solo === 'ranked',
+            shoeSeed: room.solo === 'practice' ? room.shoe.serverSeed : null,
+        },
+    };
+}
+
+/** Send each connected player (and spectator) their own view of the room */
+function broadcastRoom(room: Room) {
+    persistRoom(room);
+    for (const p of [...room.players.values(), ...room.spectators]) {
+        if (!p.disconnected) io.to(p.socketId).emit('room-update', serializeRoom(room, p.playerId));
+    }
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+// Every change to a room is broadcast, so broadcastRoom saves the whole room — phase,
+// shoe (seed included), hands, bets and chips — to SQLite and a restart picks it up
+// again. Practice tables are not kept. A ranked solo table is, but only so a restart
+// can hand back the stake of a hand it cut short: its seat cannot be reclaimed, so it
+// is closed rather than brought back.
+
+/** A seat played with an account keeps users.chips in step, so leaving mid-hand forfeits the bet */
+function saveBankrolls(room: Room) {
+    for (const p of room.players.values()) {
+        if (p.userId !== null) updateChips(p.userId, p.chips);
+    }
+}
+
+/** Chips a seat has put on the table this round that the round has neither paid out nor taken yet */
+function stakeOnTable(phase: RoundPhase, p: RoomPlayer): number {
+    if (phase === 'betting') return p.hasBet ? p.currentBet : 0;
+    if (phase === 'lobby' || phase === 'results') return 0;
+    const hands = p.hands.filter(h => !h.result).reduce((sum, h) => sum + h.bet, 0);
+    // Insurance is settled at the peek
+    return hands + (phase === 'insurance' || phase === 'early_surrender' ? p.insuranceBet : 0);
+}
+
+function persistRoom(room: Room) {
+    if (rooms.get(room.code) !== room) return; // a dealer turn can outlive its room
+    saveBankrolls(room);
+    if (room.solo === 'practice') return;
+    saveRoom(room.code, JSON.stringify({ ...room, players: Array.from(room.players.values()) }));
+}
+
+/** A ranked solo seat belonged to a socket that is gone: hand back the stake of the interrupted hand */
+function refundSoloTable(code: string, phase: RoundPhase, players: RoomPlayer[]) {
+    for (const p of players) {
+        const stake = stakeOnTable(phase, p);
+        if (p.userId === null || stake === 0) continue;
+        updateChips(p.userId, p.chips + stake);
+        console.log(`[restore] refunded ${stake} chips to ${p.name} from solo table ${code}`);
+    }
+    deleteRoom(code);
+}
+
+/** Startup: bring saved rooms back with every seat in its disconnect grace period */
+function restoreRooms() {
+    for (const row of loadRooms()) {
+        const saved = JSON.parse(row.state) as Omit<Room, 'players'> & { players: RoomPlayer[] };
+        if (saved.solo) {
+            refundSoloTable(saved.code, saved.phase, saved.players);
+            continue;
+        }
+        const room: Room = { ...saved, chat: saved.chat ?? [], players: new Map(saved.players.map(p => [p.playerId, p])) };
+        rooms.set(room.code, room);
+        for (const p of [...room.players.values(), ...room.spectators]) {
+            p.disconnected = true;
+            playerIdToRoomCode.set(p.playerId, room.code);
+            startGraceTimer(room, p.playerId);
+        }
+        console.log(`[restore] room ${room.code} (${room.phase}, ${room.players.size} players)`);
+        startClock(room); // the clock restarts in full for the players reconnecting
+        // The dealer was mid-draw when the server went down
+        if (room.phase === 'dealer_turn') playDealerHand(room);
+    }
+}
+
+/** Move the room's round on; the state machine refuses events the phase does not allow */
+function send(room: Room, event: RoundEvent) {
+    room.phase = nextPhase(room.phase, event);
+    startClock(room);
+}
+
+/** The room and seat a socket's command is for */
+function seatFor(socketId: string, code: string): { room: Room; player: RoomPlayer } {
+    const room = rooms.get(code);
+    if (!room) throw new RoundError('ROOM_NOT_FOUND', 'Room not found');
+    const found = findPlayerIdBySocket(socketId);
+    const player = found && found.room === room ? room.players.get(found.playerId) : undefined;
+    if (!player) throw new RoundError('NOT_SEATED', 'You are not seated in this room');
+    return { room, player };
+}
+
+/** Run a player's command; a refused one is answered with 'action-rejected' to that socket only */
+function guarded<T>(socket: Socket, handler: (payload: T) => void) {
+    return (payload: T) => {
+        try {
+            handler(payload);
+        } catch (err) {
+            if (!(err instanceof RoundError)) throw err;
+            socket.emit('action-rejected', { code: err.code, message: err.message });
+        }
     };
 }
 
@@ -157,9 +442,19 @@ function removePlayer(playerId: string, room: Room) {
     const wasActive = room.activePlayerId === playerId;
     room.players.delete(playerId);
     playerIdToRoomCode.delete(playerId);
+    forgetChatSender(playerId);
+    seatFromWaitList(room);
 
     if (room.players.size === 0) {
+        logShoeReveal(room);
         rooms.delete(room.code);
+        stopClock(room);
+        if (room.solo !== 'practice') deleteRoom(room.code);
+        // Nobody left to deal to: send the spectators back to the lobby
+        for (const s of room.spectators) {
+            playerIdToRoomCode.delete(s.playerId);
+            if (!s.disconnected) io.to(s.socketId).emit('room-closed', 'The table has closed');
+        }
         return;
     }
 
@@ -172,12 +467,243 @@ function removePlayer(playerId: string, room: Room) {
             : room.players.keys().next().value!;
     }
 
-    io.to(room.code).emit('room-update', serializeRoom(room));
+    broadcastRoom(room);
 
     // If it was their turn, advance
     if (wasActive && room.phase === 'player_turns') {
         advanceToNextPlayer(room);
-        io.to(room.code).emit('room-update', serializeRoom(room));
+        broadcastRoom(room);
+    }
+    if (room.phase === 'insurance' || room.phase === 'early_surrender') finishDecisions(room);
+}
+
+// ─── Joining ──────────────────────────────────────────────────────────────────
+
+interface Arrival {
+    name: string;
+    playerId: string;
+    rejoinToken: string;       // the guest's own, kept from their last table (see normalizeRejoinToken)
+    clientSeed: unknown;
+    user: UserRow | undefined; // a valid token seats the account's bankroll
+}
+
+type TableSettings = Pick<Room, 'rules' | 'timers' | 'limits' | 'passwordHash' | 'isPublic'>;
+
+/** A new multiplayer room with its creator seated as host */
+function openRoom(socket: Socket, arrival: Arrival, settings: TableSettings) {
+    const { name, playerId, rejoinToken, clientSeed, user } = arrival;
+    const code = generateCode();
+    const room: Room = { ...createRoom(code, playerId, settings.rules, 'lobby', null), ...settings };
+    const player = user
+        ? createPlayer(playerId, socket.id, name, user.chips, clientSeed, user.id, rejoinToken)
+        : createPlayer(playerId, socket.id, name, room.limits.startingChips, clientSeed, null, rejoinToken);
+    room.players.set(playerId, player);
+    rooms.set(code, room);
+    logShoe(room);
+    playerIdToRoomCode.set(playerId, code);
+    socket.join(code);
+    socket.emit('room-created', { code, rejoinToken: player.rejoinToken });
+    broadcastRoom(room);
+}
+
+/**
+ * Everyone comes in as a spectator; unless they only want to watch, they join the
+ * wait-list and are seated straight away if a seat is free and no round is being dealt
+ */
+function enterRoom(socket: Socket, room: Room, arrival: Arrival, spectate: boolean) {
+    const { name, playerId, rejoinToken, clientSeed, user } = arrival;
+    room.spectators.push({
+        playerId,
+        socketId: socket.id,
+        rejoinToken,
+        name,
+        clientSeed: normalizeClientSeed(clientSeed),
+        userId: user?.id ?? null,
+        waiting: !spectate,
+        disconnected: false,
+    });
+    seatFromWaitList(room);
+    playerIdToRoomCode.set(playerId, room.code);
+    socket.join(room.code);
+    socket.emit('room-joined', { code: room.code, rejoinToken });
+    socket.emit('chat-history', room.chat);
+    broadcastRoom(room);
+}
+
+/** Public rooms show in the room browser until the host locks them */
+function isListed(room: Room): boolean {
+    return !room.solo && room.isPublic && !room.locked;
+}
+
+/** Seats nobody has claimed yet, the wait-list included */
+function openSeats(room: Room): number {
+    return MAX_SEATS - room.players.size - room.spectators.filter(s => s.waiting).length;
+}
+
+/** One row of the room browser */
+function listRoom(room: Room): RoomListing {
+    return {
+        code: room.code,
+        hostName: room.players.get(room.hostId)?.name ?? '',
+        phase: room.phase,
+        rules: room.rules,
+        limits: room.limits,
+        timers: room.timers,
+        seated: room.players.size,
+        seats: MAX_SEATS,
+        waiting: room.spectators.filter(s => s.waiting).length,
+        hasPassword: room.passwordHash !== null,
+    };
+}
+
+/** Whether the host removed this account or this guest's browser from the room */
+function isKicked(room: Room, userId: number | null, rejoinToken: string): boolean {
+    return room.kicked.some(b => (userId !== null && b.userId === userId) || b.rejoinToken === rejoinToken);
+}
+
+/** Quick join's pick: same rules first, then a seat right away, then the busiest table */
+function findOpenTable(rules: TableRules, arrival: Arrival): Room | undefined {
+    const { playerId, rejoinToken, user } = arrival;
+    const sameRules = (r: Room) => JSON.stringify(r.rules) === JSON.stringify(rules);
+    const seatsNow = (r: Room) => r.phase === 'lobby' || r.phase === 'betting';
+    return Array.from(rooms.values())
+        .filter(r => isListed(r) && r.passwordHash === null && openSeats(r) > 0 && !isKicked(r, user?.id ?? null, rejoinToken)
+            && !r.players.has(playerId) && !r.spectators.some(s => s.playerId === playerId)
+            && (!user || user.chips >= r.limits.minBet))
+        .sort((a, b) => Number(sameRules(b)) - Number(sameRules(a))
+            || Number(seatsNow(b)) - Number(seatsNow(a))
+            || b.players.size - a.players.size)[0];
+}
+
+// ─── Spectators & wait-list ───────────────────────────────────────────────────
+
+/** Free seats go to the wait-list in order, but only before the first deal or while bets are open */
+function seatFromWaitList(room: Room) {
+    if (room.phase !== 'lobby' && room.phase !== 'betting') return;
+    for (const s of room.spectators.filter(s => s.waiting && !s.disconnected)) {
+        if (room.players.size >= MAX_SEATS) break;
+        const user = s.userId !== null ? findUserById(s.userId) : undefined;
+        room.players.set(s.playerId, user
+            ? createPlayer(s.playerId, s.socketId, s.name, user.chips, s.clientSeed, user.id, s.rejoinToken)
+            : createPlayer(s.playerId, s.socketId, s.name, room.limits.startingChips, s.clientSeed, null, s.rejoinToken));
+        room.spectators = room.spectators.filter(o => o !== s);
+        console.log(`[seat] ${s.name} (${s.playerId}) took a seat in room ${room.code}`);
+    }
+}
+
+function removeSpectator(playerId: string, room: Room) {
+    room.spectators = room.spectators.filter(s => s.playerId !== playerId);
+    playerIdToRoomCode.delete(playerId);
+    forgetChatSender(playerId);
+    broadcastRoom(room);
+}
+
+// ─── Table clock ──────────────────────────────────────────────────────────────
+// One clock per room, restarted whenever the table starts waiting on someone new
+// (see core/round.ts for the settings). Single-player tables wait indefinitely.
+
+function clockSeconds(room: Room): number {
+    if (room.solo) return 0;
+    switch (room.phase) {
+        case 'betting': return room.timers.betSeconds;
+        case 'insurance':
+        case 'early_surrender':
+        case 'player_turns': return room.timers.turnSeconds;
+        default: return 0;
+    }
+}
+
+function startClock(room: Room) {
+    stopClock(room);
+    const seconds = clockSeconds(room);
+    if (!seconds) return;
+    room.deadline = Date.now() + seconds * 1000;
+    tableClocks.set(room.code, setTimeout(() => clockExpired(room), seconds * 1000));
+}
+
+function stopClock(room: Room) {
+    const clock = tableClocks.get(room.code);
+    if (clock) clearTimeout(clock);
+    tableClocks.delete(room.code);
+    room.deadline = null;
+}
+
+/** Act for whoever the table was waiting on */
+function clockExpired(room: Room) {
+    tableClocks.delete(room.code);
+    room.deadline = null;
+    if (rooms.get(room.code) !== room) return;
+
+    switch (room.phase) {
+        case 'betting': {
+            const players = Array.from(room.players.values());
+            if (!players.some(p => p.hasBet)) {
+                startClock(room); // nobody has bet yet — keep the table open
+                break;
+            }
+            const waiting = players.filter(p => !p.hasBet && !p.disconnected);
+            for (const p of waiting) {
+                p.sittingOut = true;
+                p.isDone = true;
+            }
+            console.log(`[clock] ${room.code} sat out ${waiting.map(p => p.name).join(', ')}`);
+            dealRound(room);
+            break;
+        }
+        case 'insurance':
+        case 'early_surrender':
+            // Unanswered offers are declined
+            for (const p of room.players.values()) p.awaitingDecision = false;
+            finishDecisions(room);
+            break;
+        case 'player_turns': {
+            const p = room.players.get(room.activePlayerId ?? '');
+            if (p) {
+                console.log(`[clock] ${room.code} stood ${p.name}`);
+                autoStand(room, p);
+            }
+            break;
+        }
+    }
+    broadcastRoom(room);
+}
+
+// ─── Table chat ───────────────────────────────────────────────────────────────
+// Seated players and spectators can talk at a multiplayer table (see core/chat.ts).
+// Send times are kept per playerId, so reconnecting does not reset the rate limit.
+
+/** Who is talking at a table: a seat or a spectator of that room */
+function chatSenderFor(socketId: string, code: string): { room: Room; playerId: string; name: string; spectator: boolean } {
+    const room = rooms.get(code);
+    if (!room) throw new RoundError('ROOM_NOT_FOUND', 'Room not found');
+    if (room.solo) throw new RoundError('ACTION_NOT_ALLOWED', 'There is nobody to chat with at a single-player table');
+    const seat = findPlayerIdBySocket(socketId);
+    const player = seat && seat.room === room ? room.players.get(seat.playerId) : undefined;
+    if (player) return { room, playerId: player.playerId, name: player.name, spectator: false };
+    const spectator = room.spectators.find(s => s.socketId === socketId);
+    if (spectator) return { room, playerId: spectator.playerId, name: spectator.name, spectator: true };
+    throw new RoundError('NOT_SEATED', 'You are not at this table');
+}
+
+/** Record a send unless the sender is over the limit; true when it must be refused */
+function isRateLimited(key: string, limit: RateLimit): boolean {
+    const now = Date.now();
+    const recent = (chatSends.get(key) ?? []).filter(at => now - at < limit.windowMs);
+    const limited = recent.length >= limit.count;
+    if (!limited) recent.push(now);
+    chatSends.set(key, recent);
+    return limited;
+}
+
+function forgetChatSender(playerId: string) {
+    chatSends.delete(`chat:${playerId}`);
+    chatSends.delete(`reaction:${playerId}`);
+}
+
+/** Chat goes to everyone connected at the table, watchers included */
+function sendToTable(room: Room, event: string, payload: unknown) {
+    for (const p of [...room.players.values(), ...room.spectators]) {
+        if (!p.disconnected) io.to(p.socketId).emit(event, payload);
     }
 }
 
@@ -198,100 +724,210 @@ io.on('connection', (socket: Socket) => {
     console.log(`[connect] ${socket.id}`);
 
     // ── Create Room ──
-    socket.on('create-room', ({ name, playerId }: { name: string; playerId: string }) => {
-        const code = generateCode();
-        const room: Room = {
-            code,
-            hostId: playerId,
-            phase: 'lobby',
-            players: new Map(),
-            deck: shuffleDeck(createDeck(6)),
-            dealerHand: [],
-            activePlayerId: null,
-        };
-        room.players.set(playerId, {
-            playerId,
-            socketId: socket.id,
-            name,
-            chips: STARTING_CHIPS,
-            hands: [],
-            currentBet: 0,
-            hasBet: false,
-            isDone: false,
-            disconnected: false,
+    socket.on('create-room', ({ name, playerId, rules, timers, limits, password, isPublic, clientSeed, token, rejoinToken }: {
+        name: string; playerId: string; rules?: unknown; timers?: unknown; limits?: unknown; password?: unknown;
+        isPublic?: boolean; clientSeed?: unknown; token?: string; rejoinToken?: unknown;
+    }) => {
+        const user = userFromToken(token);
+        if (user && isUserSeated(user.id)) { socket.emit('error-msg', 'Your account is already at another table'); return; }
+
+        openRoom(socket, { name, playerId, rejoinToken: normalizeRejoinToken(rejoinToken), clientSeed, user }, {
+            rules: normalizeRules(rules),
+            timers: normalizeTimers(timers),
+            limits: normalizeLimits(limits),
+            passwordHash: hashPassword(password),
+            isPublic: isPublic === true,
         });
-        rooms.set(code, room);
-        playerIdToRoomCode.set(playerId, code);
-        socket.join(code);
-        socket.emit('room-created', { code });
-        io.to(code).emit('room-update', serializeRoom(room));
     });
 
     // ── Join Room ──
-    socket.on('join-room', ({ code, name, playerId }: { code: string; name: string; playerId: string }) => {
+    socket.on('join-room', ({ code, name, playerId, clientSeed, token, rejoinToken, spectate, password }: {
+        code: string; name: string; playerId: string; clientSeed?: unknown; token?: string; rejoinToken?: unknown;
+        spectate?: boolean; password?: unknown;
+    }) => {
         const room = rooms.get(code);
-        if (!room) { socket.emit('error-msg', 'Room not found'); return; }
-        if (room.phase !== 'lobby') { socket.emit('error-msg', 'Game already in progress'); return; }
-        if (room.players.size >= 7) { socket.emit('error-msg', 'Room is full (max 7)'); return; }
-        if (room.players.has(playerId)) { socket.emit('error-msg', 'Already in this room'); return; }
-
-        room.players.set(playerId, {
-            playerId,
-            socketId: socket.id,
-            name,
-            chips: STARTING_CHIPS,
-            hands: [],
-            currentBet: 0,
-            hasBet: false,
-            isDone: false,
-            disconnected: false,
+        if (!room || room.solo) { socket.emit('error-msg', 'Room not found'); return; }
+        const user = userFromToken(token);
+        const arrival: Arrival = { name, playerId, rejoinToken: normalizeRejoinToken(rejoinToken), clientSeed, user };
+        if (isKicked(room, user?.id ?? null, arrival.rejoinToken)) {
+            socket.emit('error-msg', 'The host removed you from this room');
+            return;
+        }
+        if (room.locked) { socket.emit('error-msg', 'This room is locked'); return; }
+        if (room.passwordHash !== null && hashPassword(password) !== room.passwordHash) {
+            socket.emit('error-msg', password ? 'Wrong room password' : 'This room needs a password');
+            return;
+        }
+        if (room.players.has(playerId) || room.spectators.some(s => s.playerId === playerId)) {
+            socket.emit('error-msg', 'Already in this room');
+            return;
+        }
+        if (!spectate && user && isUserSeated(user.id)) { socket.emit('error-msg', 'Your account is already at another table'); return; }
+
+        enterRoom(socket, room, arrival, spectate === true);
+    });
+
+    // ── Public tables ──
+    socket.on('list-rooms', () => {
+        socket.emit('room-list', Array.from(rooms.values()).filter(isListed).map(listRoom));
+    });
+
+    // ── Quick join: the best open public table, or a new public one with the player's rules ──
+    socket.on('quick-join', ({ name, playerId, rules, clientSeed, token, rejoinToken }: {
+        name: string; playerId: string; rules?: unknown; clientSeed?: unknown; token?: string; rejoinToken?: unknown;
+    }) => {
+        const user = userFromToken(token);
+        if (user && isUserSeated(user.id)) { socket.emit('error-msg', 'Your account is already at another table'); return; }
+
+        const wanted = normalizeRules(rules);
+        const arrival: Arrival = { name, playerId, rejoinToken: normalizeRejoinToken(rejoinToken), clientSeed, user };
+        const room = findOpenTable(wanted, arrival);
+        if (room) {
+            enterRoom(socket, room, arrival, false);
+            return;
+        }
+        openRoom(socket, arrival, {
+            rules: wanted, timers: DEFAULT_TIMERS, limits: DEFAULT_LIMITS, passwordHash: null, isPublic: true,
         });
-        playerIdToRoomCode.set(playerId, code);
-        socket.join(code);
-        socket.emit('room-joined', { code });
-        io.to(code).emit('room-update', serializeRoom(room));
     });
 
+    // ── Request a seat (spectator joins the wait-list) ──
+    socket.on('request-seat', guarded(socket, ({ code }: { code: string }) => {
+        const room = rooms.get(code);
+        if (!room) throw new RoundError('ROOM_NOT_FOUND', 'Room not found');
+        const spectator = room.spectators.find(s => s.socketId === socket.id);
+        if (!spectator) throw new RoundError('ACTION_NOT_ALLOWED', 'You already have a seat');
+        if (spectator.waiting) return;
+        if (isKicked(room, spectator.userId, spectator.rejoinToken)) {
+            throw new RoundError('ACTION_NOT_ALLOWED', 'The host removed you from this room');
+        }
+        if (spectator.userId !== null && isUserSeated(spectator.userId)) {
+            throw new RoundError('ACTION_NOT_ALLOWED', 'Your account is already at another table');
+        }
+
+        spectator.waiting = true;
+        seatFromWaitList(room);
+        broadcastRoom(room);
+    }));
+
+    // ── Single-player table (a private room of one, dealt by the same engine) ──
+    socket.on('sp-start', guarded(socket, ({ token, rules, seed, chips }: { token?: string; rules?: unknown; seed?: unknown; chips?: unknown }) => {
+        const playerId = `solo-${socket.id}`;
+        const current = rooms.get(playerIdToRoomCode.get(playerId) ?? '');
+        if (current) {
+            if (current.phase !== 'betting' && current.phase !== 'results') {
+                throw new RoundError('WRONG_PHASE', 'Finish the current round first');
+            }
+            removePlayer(playerId, current);
+        }
+
+        const user = userFromToken(token);
+        if (user && isUserSeated(user.id)) throw new RoundError('ACTION_NOT_ALLOWED', 'Your account is already at another table');
+        const code = generateCode();
+        let room: Room;
+        if (user) {
+            // Ranked: the bankroll comes from the database and the seed stays secret
+            room = createRoom(code, playerId, normalizeRules(rules), 'betting', 'ranked');
+            room.players.set(playerId, createPlayer(playerId, socket.id, user.display_name, user.chips, undefined, user.id));
+        } else {
+            // Practice: guest chips are the client's own business; a replay seed deals a shared shoe again
+            const guestChips = typeof chips === 'number' && Number.isInteger(chips) && chips > 0 ? chips : STARTING_CHIPS;
+            const shoeSeed = typeof seed === 'string' && seed.trim() ? normalizeClientSeed(seed) : undefined;
+            room = createRoom(code, playerId, normalizeRules(rules), 'betting', 'practice', shoeSeed);
+            room.players.set(playerId, createPlayer(playerId, socket.id, 'Player', guestChips, undefined));
+        }
+        rooms.set(code, room);
+        logShoe(room);
+        playerIdToRoomCode.set(playerId, code);
+        socket.emit('sp-started', { code });
+        broadcastRoom(room);
+    }));
+
+    // ── Single-player rebuy ──
+    socket.on('sp-rebuy', guarded(socket, ({ code }: { code: string }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (!room.solo) throw new RoundError('ACTION_NOT_ALLOWED', 'Rebuys are for single-player tables');
+        assertCommand(room.phase, 'rebuy');
+        if (player.chips >= REBUY_BELOW) throw new RoundError('ACTION_NOT_ALLOWED', 'You can rebuy once you are out of chips');
+
+        // A ranked rebuy is written to game_history so the leaderboard can leave it out
+        if (player.userId !== null) recordRebuy(player.userId, STARTING_CHIPS - player.chips);
+        player.chips = STARTING_CHIPS;
+        broadcastRoom(room); // saves the rebuy to a ranked account
+    }));
+
     // ── Rejoin Room (reconnect after refresh/disconnect) ──
-    socket.on('rejoin-room', ({ playerId, code }: { playerId: string; code: string }) => {
+    socket.on('rejoin-room', ({ playerId, code, rejoinToken, token }: {
+        playerId: string; code: string; rejoinToken?: unknown; token?: unknown;
+    }) => {
         const room = rooms.get(code);
         if (!room) {
             socket.emit('rejoin-failed', 'Room no longer exists');
             return;
         }
 
-        const player = room.players.get(playerId);
+        const player = room.players.get(playerId) ?? room.spectators.find(s => s.playerId === playerId);
         if (!player) {
             socket.emit('rejoin-failed', 'You are no longer in this room');
             return;
         }
-
-        // Clear any pending disconnect timer
-        const timer = disconnectTimers.get(playerId);
-        if (timer) {
-            clearTimeout(timer);
-            disconnectTimers.delete(playerId);
+        if (!canReclaimSeat(player, token, rejoinToken)) {
+            console.log(`[rejoin] refused ${player.name}'s seat in room ${code} to ${socket.id}`);
+            socket.emit('rejoin-failed', 'That seat belongs to someone else');
+            return;
         }
 
+        clearGraceTimer(playerId);
+
         // Update socket reference
         player.socketId = socket.id;
         player.disconnected = false;
 
         socket.join(code);
         console.log(`[rejoin] ${player.name} (${playerId}) rejoined room ${code}`);
+        seatFromWaitList(room);
 
         socket.emit('rejoin-success', { code });
-        io.to(code).emit('room-update', serializeRoom(room));
+        socket.emit('chat-history', room.chat);
+        broadcastRoom(room);
     });
 
+    // ── Chat ──
+    socket.on('chat-message', guarded(socket, ({ code, text }: { code: string; text?: unknown }) => {
+        const { room, playerId, name, spectator } = chatSenderFor(socket.id, code);
+        const clean = cleanChatText(text);
+        if (!clean) return;
+        if (clean.length > CHAT_MAX_LENGTH) {
+            throw new RoundError('ACTION_NOT_ALLOWED', `Messages are limited to ${CHAT_MAX_LENGTH} characters`);
+        }
+        if (isRateLimited(`chat:${playerId}`, CHAT_RATE_LIMIT)) {
+            throw new RoundError('ACTION_NOT_ALLOWED', 'You are sending messages too quickly');
+        }
+
+        const message: ChatMessage = { id: randomUUID(), seatId: seatIdFor(playerId), name, text: clean, at: Date.now(), spectator };
+        room.chat = [...room.chat, message].slice(-CHAT_HISTORY_SIZE);
+        persistRoom(room);
+        sendToTable(room, 'chat-message', message);
+    }));
+
+    socket.on('chat-reaction', guarded(socket, ({ code, emoji }: { code: string; emoji?: unknown }) => {
+        const { room, playerId, name } = chatSenderFor(socket.id, code);
+        if (!isReaction(emoji)) throw new RoundError('ACTION_NOT_ALLOWED', 'Unknown reaction');
+        if (isRateLimited(`reaction:${playerId}`, REACTION_RATE_LIMIT)) {
+            throw new RoundError('ACTION_NOT_ALLOWED', 'You are reacting too quickly');
+        }
+
+        const reaction: ChatReaction = { seatId: seatIdFor(playerId), name, emoji };
+        sendToTable(room, 'chat-reaction', reaction);
+    }));
+
     // ── Start Game (host only) ──
-    socket.on('start-game', ({ code }: { code: string }) => {
-        const room = rooms.get(code);
-        const found = findPlayerIdBySocket(socket.id);
-        if (!room || !found || room.hostId !== found.playerId) return;
-        if (room.players.size < 1) return;
+    socket.on('start-game', guarded(socket, ({ code }: { code: string }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (room.hostId !== player.playerId) throw new RoundError('NOT_HOST', 'Only the host can start the game');
+        assertCommand(room.phase, 'start-game');
 
-        room.phase = 'betting';
+        send(room, 'START_GAME');
         for (const p of room.players.values()) {
             p.hasBet = false;
             p.currentBet = 0;
@@ -299,52 +935,54 @@ io.on('connection', (socket: Socket) => {
             p.isDone = false;
         }
         room.dealerHand = [];
-        io.to(code).emit('room-update', serializeRoom(room));
-    });
+        broadcastRoom(room);
+    }));
 
     // ── Place Bet ──
-    socket.on('place-bet', ({ code, amount }: { code: string; amount: number }) => {
-        const room = rooms.get(code);
-        if (!room || room.phase !== 'betting') return;
-        const found = findPlayerIdBySocket(socket.id);
-        if (!found) return;
-        const player = room.players.get(found.playerId);
-        if (!player || player.hasBet) return;
-        if (amount <= 0 || amount > player.chips) return;
+    socket.on('place-bet', guarded(socket, ({ code, amount }: { code: string; amount: number }) => {
+        const { room, player } = seatFor(socket.id, code);
+        assertCommand(room.phase, 'place-bet');
+        if (player.hasBet) throw new RoundError('ALREADY_BET', 'Your bet is already in');
+        if (!Number.isInteger(amount) || amount <= 0) throw new RoundError('INVALID_BET', 'Bets are a whole number of chips');
+        const outsideLimits = betLimitError(amount, room.limits);
+        if (outsideLimits) throw new RoundError('INVALID_BET', outsideLimits);
+        if (amount > player.chips) throw new RoundError('INSUFFICIENT_CHIPS', 'Not enough chips for that bet');
 
         player.currentBet = amount;
+        player.roundStartChips = player.chips;
         player.chips -= amount;
         player.hasBet = true;
 
-        io.to(code).emit('room-update', serializeRoom(room));
+        broadcastRoom(room);
 
         // Check if all connected players have bet
         const allBet = Array.from(room.players.values()).every(p => p.hasBet || p.disconnected);
         if (allBet) {
             dealRound(room);
         }
-    });
+    }));
 
     // ── Player Action ──
-    socket.on('player-action', ({ code, action, handIndex }: { code: string; action: string; handIndex?: number }) => {
-        const room = rooms.get(code);
-        if (!room || room.phase !== 'player_turns') return;
-        const found = findPlayerIdBySocket(socket.id);
-        if (!found || room.activePlayerId !== found.playerId) return;
-        const player = room.players.get(found.playerId);
-        if (!player) return;
+    socket.on('player-action', guarded(socket, ({ code, action, handIndex }: { code: string; action: string; handIndex?: number }) => {
+        const { room, player } = seatFor(socket.id, code);
+        const command = PLAYER_ACTIONS.find(a => a === action);
+        if (!command) throw new RoundError('ACTION_NOT_ALLOWED', `Unknown action: ${action}`);
+        assertCommand(room.phase, command);
+        if (room.activePlayerId !== player.playerId) throw new RoundError('NOT_YOUR_TURN', 'It is not your turn');
 
         const hi = handIndex ?? 0;
         const hand = player.hands[hi];
-        if (!hand || hand.status !== 'playing') return;
+        if (!hand || hand.status !== 'playing') throw new RoundError('ACTION_NOT_ALLOWED', 'That hand is already finished');
 
-        switch (action) {
+        switch (command) {
             case 'hit': handleHit(room, player, hi); break;
             case 'stand': handleStand(room, player, hi); break;
             case 'double': handleDouble(room, player, hi); break;
             case 'split': handleSplit(room, player, hi); break;
+            case 'surrender': handleSurrender(room, player, hi); break;
         }
-        io.to(code).emit('room-update', serializeRoom(room));
+        startClock(room); // every action buys the player a fresh turn clock
+        broadcastRoom(room);
 
         // Check if current player's all hands are done
         const allHandsDone = player.hands.every(h => h.status !== 'playing');
@@ -352,13 +990,71 @@ io.on('connection', (socket: Socket) => {
             player.isDone = true;
             advanceToNextPlayer(room);
         }
-    });
+    }));
 
-    // ── Next Round (host) ──
-    socket.on('next-round', ({ code }: { code: string }) => {
+    // ── Insurance / Even Money (decided before the dealer checks for blackjack) ──
+    socket.on('insurance', guarded(socket, ({ code, take, amount }: { code: string; take: boolean; amount?: number }) => {
+        const { room, player } = seatFor(socket.id, code);
+        assertCommand(room.phase, 'insurance');
+        if (!player.awaitingDecision) throw new RoundError('NO_DECISION_PENDING', 'You have already answered');
+
+        const hand = player.hands[0];
+        if (take && hand.status === 'blackjack') {
+            // Even money: the blackjack is paid 1:1 before the peek
+            hand.result = 'win';
+            player.chips += hand.bet * 2;
+        } else if (take) {
+            // Any stake up to half the bet; defaults to the full half
+            const max = maxInsuranceBet(hand.bet);
+            const stake = typeof amount === 'number' ? Math.floor(amount) : max;
+            if (stake <= 0 || stake > max) throw new RoundError('INVALID_BET', `Insurance is up to ${max} chips`);
+            if (player.chips < stake) throw new RoundError('INSUFFICIENT_CHIPS', 'Not enough chips for insurance');
+            player.chips -= stake;
+            player.insuranceBet = stake;
+        }
+        player.awaitingDecision = false;
+        broadcastRoom(room);
+        finishDecisions(room);
+    }));
+
+    // ── Early Surrender (decided before the dealer checks for blackjack) ──
+    socket.on('early-surrender', guarded(socket, ({ code, surrender }: { code: string; surrender: boolean }) => {
+        const { room, player } = seatFor(socket.id, code);
+        assertCommand(room.phase, 'early-surrender');
+        if (!player.awaitingDecision) throw new RoundError('NO_DECISION_PENDING', 'You have already answered');
+
+        if (surrender) {
+            handleSurrender(room, player, 0);
+            player.isDone = true;
+        }
+        player.awaitingDecision = false;
+        broadcastRoom(room);
+        finishDecisions(room);
+    }));
+
+    // ── Client seed (mixed into the next shoe to be shuffled) ──
+    socket.on('client-seed', guarded(socket, ({ code, seed }: { code: string; seed: unknown }) => {
+        const { room, player } = seatFor(socket.id, code);
+        player.clientSeed = normalizeClientSeed(seed);
+        broadcastRoom(room);
+    }));
+
+    // ── Shoe reveal (verifier) ──
+    socket.on('get-shoe-reveal', guarded(socket, ({ code, shoeNumber }: { code: string; shoeNumber: number }) => {
         const room = rooms.get(code);
-        const found = findPlayerIdBySocket(socket.id);
-        if (!room || !found || room.hostId !== found.playerId) return;
+        if (!room) throw new RoundError('ROOM_NOT_FOUND', 'Room not found');
+        const revealed = room.revealedShoes.find(s => s.shoeNumber === shoeNumber);
+        if (!revealed) throw new RoundError('SHOE_NOT_REVEALED', 'That shoe has not been revealed');
+        socket.emit('shoe-reveal', revealed);
+    }));
+
+    // ── Next Round (host) ──
+    socket.on('next-round', guarded(socket, ({ code }: { code: string }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (room.hostId !== player.playerId) throw new RoundError('NOT_HOST', 'Only the host deals the next round');
+        assertCommand(room.phase, 'next-round');
+
+        clearTable(room);
 
         // Remove any players still disconnected at round boundary
         for (const [pid, p] of room.players) {
@@ -367,7 +1063,7 @@ io.on('connection', (socket: Socket) => {
             }
         }
 
-        room.phase = 'betting';
+        send(room, 'NEXT_ROUND');
         room.dealerHand = [];
         room.activePlayerId = null;
         for (const p of room.players.values()) {
@@ -375,42 +1071,90 @@ io.on('connection', (socket: Socket) => {
             p.currentBet = 0;
             p.hands = [];
             p.isDone = false;
+            p.awaitingDecision = false;
+            p.insuranceBet = 0;
+            p.sittingOut = false;
         }
-        io.to(code).emit('room-update', serializeRoom(room));
-    });
+        seatFromWaitList(room);
+        broadcastRoom(room);
+    }));
 
-    // ── Save single-player round result (logged-in users) ──
-    socket.on('save-sp-result', (data: {
-        token: string;
-        handsPlayed: number; handsWon: number; handsLost: number;
-        handsPushed: number; blackjacks: number; chipsDelta: number; totalChips: number;
-    }) => {
-        const payload = verifyToken(data.token);
-        if (!payload) return;
-        recordGame(payload.userId, 'playing', data.handsPlayed, data.handsWon,
-            data.handsLost, data.handsPushed, data.blackjacks, data.chipsDelta);
-        updateChips(payload.userId, data.totalChips);
-    });
+    // ── Kick (host) — works on seated players and spectators alike ──
+    socket.on('kick-player', guarded(socket, ({ code, seatId }: { code: string; seatId: string }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (room.hostId !== player.playerId) throw new RoundError('NOT_HOST', 'Only the host can remove players');
+        const target = [...room.players.values(), ...room.spectators].find(p => seatIdFor(p.playerId) === seatId);
+        if (!target) throw new RoundError('NOT_SEATED', 'That player is not in this room');
+        if (target === player) throw new RoundError('ACTION_NOT_ALLOWED', 'You cannot remove yourself');
+        const { playerId } = target;
+
+        clearGraceTimer(playerId);
+        room.kicked.push({ userId: target.userId, rejoinToken: target.rejoinToken });
+        if (!target.disconnected) io.to(target.socketId).emit('room-closed', 'The host removed you from the table');
+        console.log(`[kick] ${target.name} (${playerId}) removed from room ${code}`);
+        if (room.players.has(playerId)) removePlayer(playerId, room);
+        else removeSpectator(playerId, room);
+    }));
 
-    // ── Save training result (logged-in users) ──
-    socket.on('save-training-result', (data: {
-        token: string; total: number; correct: number; bestStreak: number;
-    }) => {
-        const payload = verifyToken(data.token);
-        if (!payload) return;
-        recordTraining(payload.userId, data.total, data.correct, data.bestStreak);
-    });
+    // ── Transfer host ──
+    socket.on('transfer-host', guarded(socket, ({ code, seatId }: { code: string; seatId: string }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (room.hostId !== player.playerId) throw new RoundError('NOT_HOST', 'Only the host can hand over the table');
+        const target = Array.from(room.players.values()).find(p => seatIdFor(p.playerId) === seatId);
+        if (!target) throw new RoundError('NOT_SEATED', 'The new host must have a seat');
+        if (target.disconnected) throw new RoundError('ACTION_NOT_ALLOWED', `${target.name} is offline`);
+
+        room.hostId = target.playerId;
+        broadcastRoom(room);
+    }));
+
+    // ── Lock / password (host) — applies to whoever joins next ──
+    socket.on('room-access', guarded(socket, ({ code, locked, password }: { code: string; locked?: boolean; password?: unknown }) => {
+        const { room, player } = seatFor(socket.id, code);
+        if (room.hostId !== player.playerId) throw new RoundError('NOT_HOST', 'Only the host can change who may join');
 
-    // ── Sync chips to server (logged-in users) ──
-    socket.on('sync-chips', (data: { token: string; chips: number }) => {
-        const payload = verifyToken(data.token);
-        if (!payload) return;
-        updateChips(payload.userId, data.chips);
+        if (typeof locked === 'boolean') room.locked = locked;
+        if (password !== undefined) room.passwordHash = hashPassword(password);
+        broadcastRoom(room);
+    }));
+
+    // ── Training decision (logged-in users): logged on its own, and counted unless it was an index spot ──
+    socket.on('training-decision', (data: { token?: string; decision?: unknown; bestStreak?: unknown }) => {
+        const payload = typeof data?.token === 'string' ? verifyToken(data.token) : null;
+        const decision = parseTrainingDecision(data?.decision);
+        if (!payload || !decision) return;
+
+        const { category, total, upcard } = decisionCell(decision);
+        recordTrainingDecision(payload.userId, {
+            kind: decision.kind,
+            category,
+            total,
+            upcard,
+            cards: decision.cards.join(','),
+            action: decision.action,
+            correct_action: decision.correctAction,
+            response_ms: decision.responseMs,
+            true_count: decision.trueCount,
+            rules: trainingRulesKey(decision.rules),
+        });
+        if (decision.trueCount === null) {
+            const bestStreak = Number.isInteger(data.bestStreak) ? data.bestStreak as number : 0;
+            recordTraining(payload.userId, 1, decision.action === decision.correctAction ? 1 : 0, bestStreak);
+        }
     });
 
     // ── Disconnect (grace period) ──
     socket.on('disconnect', () => {
         console.log(`[disconnect] ${socket.id}`);
+        const watching = findSpectatorBySocket(socket.id);
+        if (watching) {
+            // A spectator keeps their place on the wait-list through a refresh
+            watching.spectator.disconnected = true;
+            broadcastRoom(watching.room);
+            startGraceTimer(watching.room, watching.spectator.playerId);
+            return;
+        }
+
         const found = findPlayerIdBySocket(socket.id);
         if (!found) return;
 
@@ -419,82 +1163,151 @@ io.on('connection', (socket: Socket) => {
         if (!player) return;
 
         player.disconnected = true;
-        io.to(room.code).emit('room-update', serializeRoom(room));
+        broadcastRoom(room);
         console.log(`[grace] ${player.name} has ${DISCONNECT_GRACE_MS / 1000}s to reconnect`);
 
+        // A pending insurance / early surrender decision defaults to declining
+        if ((room.phase === 'insurance' || room.phase === 'early_surrender') && player.awaitingDecision) {
+            player.awaitingDecision = false;
+            finishDecisions(room);
+        }
+
         // If it was their turn during player_turns, auto-stand after 5s
         if (room.phase === 'player_turns' && room.activePlayerId === playerId) {
             setTimeout(() => {
                 const p = room.players.get(playerId);
                 if (p && p.disconnected && room.activePlayerId === playerId) {
-                    // Auto-stand all playing hands
-                    for (const hand of p.hands) {
-                        if (hand.status === 'playing') hand.status = 'standing';
-                    }
-                    p.isDone = true;
-                    advanceToNextPlayer(room);
-                    io.to(room.code).emit('room-update', serializeRoom(room));
+                    autoStand(room, p);
+                    broadcastRoom(room);
                 }
             }, 5000);
         }
 
-        // Start grace period timer
-        const timer = setTimeout(() => {
-            disconnectTimers.delete(playerId);
-            const currentRoom = rooms.get(room.code);
-            if (!currentRoom) return;
-            const currentPlayer = currentRoom.players.get(playerId);
-            if (!currentPlayer || !currentPlayer.disconnected) return;
-
-            console.log(`[timeout] Removing ${currentPlayer.name} after grace period`);
-            removePlayer(playerId, currentRoom);
-        }, DISCONNECT_GRACE_MS);
-
-        disconnectTimers.set(playerId, timer);
+        startGraceTimer(room, playerId);
     });
 });
 
+/** A player who is back (or gone for good) no longer has a grace period running */
+function clearGraceTimer(playerId: string) {
+    const timer = disconnectTimers.get(playerId);
+    if (timer) {
+        clearTimeout(timer);
+        disconnectTimers.delete(playerId);
+    }
+}
+
+/** Remove a disconnected player (or spectator) unless they rejoin within the grace period */
+function startGraceTimer(room: Room, playerId: string) {
+    const timer = setTimeout(() => {
+        disconnectTimers.delete(playerId);
+        const currentRoom = rooms.get(room.code);
+        if (!currentRoom) return;
+        const spectator = currentRoom.spectators.find(s => s.playerId === playerId);
+        if (spectator) {
+            if (spectator.disconnected) removeSpectator(playerId, currentRoom);
+            return;
+        }
+        const currentPlayer = currentRoom.players.get(playerId);
+        if (!currentPlayer || !currentPlayer.disconnected) return;
+
+        console.log(`[timeout] Removing ${currentPlayer.name} after grace period`);
+        removePlayer(playerId, currentRoom);
+    }, DISCONNECT_GRACE_MS);
+
+    disconnectTimers.set(playerId, timer);
+}
+
 // ─── Game Logic ───────────────────────────────────────────────────────────────
 
 function dealRound(room: Room) {
-    room.phase = 'player_turns';
+    shuffleRoomShoe(room);
 
-    // Deal 2 cards to each connected player
+    // Deal 2 cards to each connected player with a bet in
     const playerIds = Array.from(room.players.keys()).filter(
-        pid => !room.players.get(pid)!.disconnected
+        pid => !room.players.get(pid)!.disconnected && !room.players.get(pid)!.sittingOut
     );
+    // Someone who bet and then dropped out before the deal gets no hand: their bet goes back
+    for (const p of room.players.values()) {
+        if (playerIds.includes(p.playerId) || !p.hasBet) continue;
+        p.chips += stakeOnTable(room.phase, p);
+        p.currentBet = 0;
+        p.hasBet = false;
+        console.log(`[deal] ${p.name} (${p.playerId}) was not dealt in; bet returned`);
+    }
     for (const pid of playerIds) {
         const p = room.players.get(pid)!;
-        const c1 = drawCard(room);
-        const c2 = drawCard(room);
+        const c1 = drawCard(room.shoe);
+        const c2 = drawCard(room.shoe);
         p.hands = [{
             id: `hand-${pid}-${Date.now()}`,
             cards: [c1, c2],
             bet: p.currentBet,
             status: 'playing',
         }];
+        p.insuranceBet = 0;
 
-        // Check for player blackjack
-        const { total } = calculateHandValue([c1, c2]);
-        if (total === 21) {
+        if (isBlackjack([c1, c2])) {
             p.hands[0].status = 'blackjack';
             p.isDone = true;
         }
     }
 
     // Deal dealer cards
-    room.dealerHand = [drawCard(room), drawCard(room)];
+    room.dealerHand = [drawCard(room.shoe), drawCard(room.shoe)];
+
+    // Insurance: every seated player answers before the dealer peeks under an Ace
+    if (isInsuranceOffered(room.dealerHand[0], room.rules)) {
+        offerDecision(room, 'insurance', () => true);
+        return;
+    }
+    offerEarlySurrender(room);
+}
 
-    // Check dealer blackjack
-    const { total: dTotal } = calculateHandValue(room.dealerHand);
-    if (dTotal === 21) {
+/** Early surrender: players decide before the dealer checks an A or 10 for blackjack */
+function offerEarlySurrender(room: Room) {
+    if (isEarlySurrenderOffered(room.dealerHand[0], room.rules)) {
+        offerDecision(room, 'early_surrender', p => !p.isDone);
+        return;
+    }
+    startPlayerTurns(room);
+}
+
+/** Put the question to every connected player with a hand (and a say in it); skip the phase if nobody qualifies */
+function offerDecision(room: Room, phase: 'insurance' | 'early_surrender', applies: (p: RoomPlayer) => boolean) {
+    for (const p of room.players.values()) {
+        p.awaitingDecision = !p.disconnected && p.hands.length > 0 && applies(p);
+    }
+    send(room, phase === 'insurance' ? 'OFFER_INSURANCE' : 'OFFER_EARLY_SURRENDER');
+    finishDecisions(room);
+    if (room.phase === phase) broadcastRoom(room);
+}
+
+/** Move on once every pending insurance / early surrender decision is in */
+function finishDecisions(room: Room) {
+    for (const p of room.players.values()) {
+        if (p.awaitingDecision) return;
+    }
+    if (room.phase === 'insurance') offerEarlySurrender(room);
+    else startPlayerTurns(room);
+}
+
+function startPlayerTurns(room: Room) {
+    send(room, 'START_PLAYER_TURNS');
+
+    // Check dealer blackjack (only when the table peeks — otherwise it shows at the dealer turn)
+    if (room.rules.dealerPeek && isBlackjack(room.dealerHand)) {
+        // Insurance pays 2:1
+        for (const p of room.players.values()) p.chips += insurancePayout(p.insuranceBet, room.dealerHand);
         // Dealer blackjack — resolve immediately
         resolveAllResults(room);
-        io.to(room.code).emit('room-update', serializeRoom(room));
+        broadcastRoom(room);
         return;
     }
 
     // Set first non-done player as active
+    const playerIds = Array.from(room.players.keys()).filter(
+        pid => !room.players.get(pid)!.disconnected
+    );
     const firstActive = playerIds.find(pid => !room.players.get(pid)!.isDone);
     if (firstActive) {
         room.activePlayerId = firstActive;
@@ -503,12 +1316,13 @@ function dealRound(room: Room) {
         runDealerTurn(room);
     }
 
-    io.to(room.code).emit('room-update', serializeRoom(room));
+    broadcastRoom(room);
 }
 
 function handleHit(room: Room, player: RoomPlayer, hi: number) {
     const hand = player.hands[hi];
-    const card = drawCard(room);
+    if (hand.splitAces) throw new RoundError('ACTION_NOT_ALLOWED', 'Split Aces take one card only');
+    const card = drawCard(room.shoe);
     hand.cards.push(card);
     const { total } = calculateHandValue(hand.cards);
     if (total > 21) {
@@ -523,14 +1337,16 @@ function handleStand(room: Room, player: RoomPlayer, hi: number) {
 
 function handleDouble(room: Room, player: RoomPlayer, hi: number) {
     const hand = player.hands[hi];
-    if (hand.cards.length !== 2) return;
+    if (hand.splitAces || !isDoubleAllowed(hand.cards, room.rules, hand.isSplit)) {
+        throw new RoundError('ACTION_NOT_ALLOWED', 'This hand cannot be doubled');
+    }
     const extraBet = hand.bet;
-    if (player.chips < extraBet) return;
+    if (player.chips < extraBet) throw new RoundError('INSUFFICIENT_CHIPS', 'Not enough chips to double');
 
     player.chips -= extraBet;
     hand.bet *= 2;
 
-    const card = drawCard(room);
+    const card = drawCard(room.shoe);
     hand.cards.push(card);
     const { total } = calculateHandValue(hand.cards);
     if (total > 21) {
@@ -543,34 +1359,60 @@ function handleDouble(room: Room, player: RoomPlayer, hi: number) {
 
 function handleSplit(room: Room, player: RoomPlayer, hi: number) {
     const hand = player.hands[hi];
-    if (!isStrictPair(hand.cards)) return;
-    if (player.hands.length >= 4) return;
+    if (!isSplitAllowed(hand.cards, player.hands.length, room.rules, hand.splitAces)) {
+        throw new RoundError('ACTION_NOT_ALLOWED', 'This hand cannot be split');
+    }
 
     const extraBet = hand.bet;
-    if (player.chips < extraBet) return;
+    if (player.chips < extraBet) throw new RoundError('INSUFFICIENT_CHIPS', 'Not enough chips to split');
     player.chips -= extraBet;
 
     const [c1, c2] = hand.cards;
+    const splitAces = c1.rank === Rank.Ace;
     const hand1: PlayerHand = {
         id: `hand-${player.playerId}-${Date.now()}-1`,
-        cards: [c1, drawCard(room)],
+        cards: [c1, drawCard(room.shoe)],
         bet: hand.bet,
         status: 'playing',
+        isSplit: true,
+        splitAces,
     };
     const hand2: PlayerHand = {
         id: `hand-${player.playerId}-${Date.now()}-2`,
-        cards: [c2, drawCard(room)],
+        cards: [c2, drawCard(room.shoe)],
         bet: hand.bet,
         status: 'playing',
+        isSplit: true,
+        splitAces,
     };
 
-    // Aces split → one card each, stand
-    if (c1.rank === 'A') {
-        hand1.status = 'standing';
-        hand2.status = 'standing';
+    player.hands.splice(hi, 1, hand1, hand2);
+
+    // Aces split → one card each, stand (unless another Ace may be resplit)
+    if (splitAces) {
+        for (const h of [hand1, hand2]) {
+            if (!isSplitAllowed(h.cards, player.hands.length, room.rules, true)) h.status = 'standing';
+        }
     }
+}
 
-    player.hands.splice(hi, 1, hand1, hand2);
+function handleSurrender(room: Room, player: RoomPlayer, hi: number) {
+    const hand = player.hands[hi];
+    if (!isSurrenderAllowed(hand.cards, room.rules, hand.isSplit, player.hands.length)) {
+        throw new RoundError('ACTION_NOT_ALLOWED', 'Surrender is not allowed now');
+    }
+    hand.status = 'surrendered';
+    hand.result = 'loss';
+    player.chips += surrenderRefund(hand.bet);
+}
+
+/** Stand every hand still in play and pass the turn on */
+function autoStand(room: Room, player: RoomPlayer) {
+    for (const hand of player.hands) {
+        if (hand.status === 'playing') hand.status = 'standing';
+    }
+    player.isDone = true;
+    advanceToNextPlayer(room);
 }
 
 function advanceToNextPlayer(room: Room) {
@@ -580,7 +1422,8 @@ function advanceToNextPlayer(room: Room) {
         const p = room.players.get(playerIds[i])!;
         if (!p.isDone && !p.disconnected) {
             room.activePlayerId = playerIds[i];
-            io.to(room.code).emit('room-update', serializeRoom(room));
+            startClock(room);
+            broadcastRoom(room);
             return;
         }
     }
@@ -588,16 +1431,20 @@ function advanceToNextPlayer(room: Room) {
     runDealerTurn(room);
 }
 
-async function runDealerTurn(room: Room) {
-    room.phase = 'dealer_turn';
+function runDealerTurn(room: Room) {
+    send(room, 'START_DEALER_TURN');
     room.activePlayerId = null;
-    io.to(room.code).emit('room-update', serializeRoom(room));
+    broadcastRoom(room);
+    playDealerHand(room);
+}
 
+/** Dealer draws to the rules, then the round settles (also resumes a restored dealer turn) */
+async function playDealerHand(room: Room) {
     // Check if any live hands exist (non-busted, non-blackjack)
     let hasLiveHands = false;
     for (const p of room.players.values()) {
         for (const h of p.hands) {
-            if (h.status !== 'busted' && h.status !== 'blackjack') {
+            if (h.status !== 'busted' && h.status !== 'blackjack' && h.status !== 'surrendered') {
                 hasLiveHands = true;
                 break;
             }
@@ -606,55 +1453,42 @@ async function runDealerTurn(room: Room) {
 
     if (hasLiveHands) {
         // Dealer draws
-        let { total, isSoft } = calculateHandValue(room.dealerHand);
-        while (total < 17 || (total === 17 && isSoft)) {
+        while (dealerShouldHit(room.dealerHand, room.rules)) {
             await sleep(700);
-            room.dealerHand.push(drawCard(room));
-            ({ total, isSoft } = calculateHandValue(room.dealerHand));
-            io.to(room.code).emit('room-update', serializeRoom(room));
+            room.dealerHand.push(drawCard(room.shoe));
+            broadcastRoom(room);
         }
     }
 
     await sleep(500);
     resolveAllResults(room);
-    io.to(room.code).emit('room-update', serializeRoom(room));
+    broadcastRoom(room);
 }
 
 function resolveAllResults(room: Room) {
-    room.phase = 'results';
-    const { total: dTotal } = calculateHandValue(room.dealerHand);
-    const dealerBust = dTotal > 21;
-    const dealerBJ = room.dealerHand.length === 2 && dTotal === 21;
-
+    send(room, 'SETTLE');
     for (const player of room.players.values()) {
         for (const hand of player.hands) {
-            if (hand.result) continue; // already settled (bust)
-
-            const { total: pTotal } = calculateHandValue(hand.cards);
-            const playerBJ = hand.status === 'blackjack';
-
-            if (dealerBJ && playerBJ) {
-                hand.result = 'push';
-                player.chips += hand.bet; // return bet
-            } else if (dealerBJ) {
-                hand.result = 'loss';
-            } else if (playerBJ) {
-                hand.result = 'win';
-                player.chips += hand.bet + Math.floor(hand.bet * 1.5); // 3:2
-            } else if (dealerBust) {
-                hand.result = 'win';
-                player.chips += hand.bet * 2;
-            } else if (pTotal > dTotal) {
-                hand.result = 'win';
-                player.chips += hand.bet * 2;
-            } else if (pTotal < dTotal) {
-                hand.result = 'loss';
-            } else {
-                hand.result = 'push';
-                player.chips += hand.bet;
-            }
+            if (hand.result) continue; // already settled (bust / surrender / even money)
+            const { result, payout } = settleHand(hand, room.dealerHand, room.rules);
+            hand.result = result;
+            player.chips += payout;
         }
     }
+    recordResults(room);
+}
+
+/** Rounds played with an account go to game_history from the server's own settlement */
+function recordResults(room: Room) {
+    if (room.solo === 'practice') return;
+    const mode = room.solo === 'ranked' ? 'playing' : 'multiplayer';
+    for (const player of room.players.values()) {
+        if (player.userId === null || player.hands.length === 0) continue;
+        const count = (result: PlayerHand['result']) => player.hands.filter(h => h.result === result).length;
+        const blackjacks = player.hands.filter(h => h.status === 'blackjack' && h.result === 'win').length;
+        recordGame(player.userId, mode, player.hands.length, count('win'), count('loss'), count('push'),
+            blackjacks, player.chips - player.roundStartChips);
+    }
 }
 
 function sleep(ms: number) {
@@ -662,6 +1496,8 @@ function sleep(ms: number) {
 }
 
 // ─── Start ────────────────────────────────────────────────────────────────────
+restoreRooms();
+
 const PORT = parseInt(process.env.PORT ?? '3001', 10);
 httpServer.listen(PORT, '0.0.0.0', () => {
     console.log(`Multiplayer server running on http://0.0.0.0:${PORT}`);
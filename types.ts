@@ -1,47 +1,35 @@
-export enum Suit {
-  Hearts = '♥',
-  Diamonds = '♦',
-  Clubs = '♣',
-  Spades = '♠',
-}
-
-export enum Rank {
-  Two = '2',
-  Three = '3',
-  Four = '4',
-  Five = '5',
-  Six = '6',
-  Seven = '7',
-  Eight = '8',
-  Nine = '9',
-  Ten = '10',
-  Jack = 'J',
-  Queen = 'Q',
-  King = 'K',
-  Ace = 'A',
-}
-
-export interface Card {
-  suit: Suit;
-  rank: Rank;
-  value: number; // 2-10, 10 for JQK, 11 for A (initially)
-  id: string; // unique identifier for React keys
-}
+// Cards, hands, table rules, shoes and the room views the server sends live in the
+// shared game core (core/), which the server imports too
+export { Suit, Rank } from './core/cards';
+export type { Card, HandStatus, HandOutcome, PlayerHand } from './core/cards';
+export type { BlackjackPayout, DoubleRestriction, SurrenderRule, TableRules } from './core/rules';
+export type { RoundPhase, RoundErrorCode, RoundRejection, TableLimits, TableTimers } from './core/round';
+export type { ChatMessage, ChatReaction, Reaction } from './core/chat';
+export type { HandCategory, StrategyCell, TrainingAction, TrainingDecision } from './core/training';
+export type { ClientSeed, RevealedShoe, ShoeCommitment, ShoeInfo } from './core/shoe';
+export type { RoomListing, SerializedPlayer, SerializedRoom, SerializedSpectator, SoloTable } from './core/table';
+import type { RoundPhase, TableLimits, TableTimers } from './core/round';
 
 export enum Action {
   Hit = 'Hit',
   Stand = 'Stand',
   Double = 'Double',
   Split = 'Split',
+  Surrender = 'Surrender',
 }
 
+export type InsuranceChoice = 'Insurance' | 'No Insurance';
+
 export interface HandResult {
   isCorrect: boolean;
-  userAction: Action;
-  correctAction: Action;
+  userAction: Action | InsuranceChoice;
+  correctAction: Action | InsuranceChoice;
   explanation: string;
   analysis: string;
   example: string;
+  trueCount?: number;   // set when the hand was graded with a count
+  indexPlay?: string;   // the count deviation for this hand, if it has one
+  isDeviation?: boolean;
 }
 
 export interface GameStats {
@@ -51,36 +39,15 @@ export interface GameStats {
 }
 
 // Playing Mode Types
-export interface PlayerHand {
-  id: string;
-  cards: Card[];
-  bet: number;
-  status: 'playing' | 'standing' | 'busted' | 'blackjack' | 'doubled';
-  result?: 'win' | 'loss' | 'push';
-}
-
-export type GameState = 'idle' | 'betting' | 'dealing' | 'player_turn' | 'dealer_turn' | 'game_over';
+export type GameState = 'idle' | 'betting' | 'dealing' | 'insurance' | 'early_surrender' | 'player_turn' | 'dealer_turn' | 'game_over';
 
 // ── Multiplayer Types ──────────────────────────────────────────────────────────
-export type RoomPhase = 'lobby' | 'betting' | 'player_turns' | 'dealer_turn' | 'results';
-
-export interface SerializedPlayer {
-  playerId: string;
-  socketId: string;
-  name: string;
-  chips: number;
-  hands: PlayerHand[];
-  currentBet: number;
-  hasBet: boolean;
-  isDone: boolean;
-  disconnected: boolean;
-}
-
-export interface SerializedRoom {
-  code: string;
-  hostId: string;
-  phase: RoomPhase;
-  players: SerializedPlayer[];
-  dealerHand: Card[];
-  activePlayerId: string | null;
+export type RoomPhase = RoundPhase; // a room is always in its current round's phase
+
+// What the host picks when creating a multiplayer room (the rules come from the menu)
+export interface RoomSettings {
+  timers: TableTimers;
+  limits: TableLimits;
+  password: string;                 // blank = anyone with the code may join
+  isPublic: boolean;                // listed in the room browser and open to quick join
 }
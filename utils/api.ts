@@ -1,4 +1,5 @@
 // ─── Auth API helpers ─────────────────────────────────────────────────────────
+import { TableRules } from '../types';
 
 const API_BASE = '';  // Same origin via Vite proxy
 
@@ -51,6 +52,16 @@ export interface GameHistoryEntry {
     created_at: string;
 }
 
+// Training accuracy for one strategy chart cell (basic strategy plays only)
+export interface TrainingHeatmapCell {
+    category: 'hard' | 'soft' | 'pair';
+    total: number;         // pairs: the card value (11 = Aces)
+    upcard: number;        // 2-11
+    decisions: number;
+    correct: number;
+    avg_response_ms: number;
+}
+
 // ── Token management ─────────────────────────────────────────────────────────
 export function getToken(): string | null {
     return localStorage.getItem('bj_token');
@@ -125,3 +136,16 @@ export async function fetchHistory(limit: number = 20): Promise<GameHistoryEntry
         return [];
     }
 }
+
+// Pass rules for the decisions made under that rule set only; without, every decision counts
+export async function fetchTrainingHeatmap(rules?: TableRules): Promise<TrainingHeatmapCell[]> {
+    try {
+        const query = rules ? `?rules=${encodeURIComponent(JSON.stringify(rules))}` : '';
+        const res = await fetch(`${API_BASE}/api/training/heatmap${query}`, { headers: authHeaders() });
+        if (!res.ok) return [];
+        const data = await res.json();
+        return data.cells || [];
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,184 @@
+import { Action, HandCategory, StrategyCell, TableRules } from '../types';
+import { createCardOfValue, createTwoCardHand } from './deck';
+import { CATEGORY_TOTALS, cellKey } from './drill';
+import { describeRules } from './rules';
+import { DEALER_UPCARDS, StrategyDecision, getCorrectAction } from './strategy';
+
+// ─── Strategy chart ───────────────────────────────────────────────────────────
+// The full basic strategy chart for a rule set, one getCorrectAction call per
+// cell, plus the SVG / PNG export of it. Each cell is asked with a two-card hand
+// built for it, so the chart reads exactly like the training feedback does.
+
+export interface ChartCell extends StrategyCell {
+  decision: StrategyDecision;
+}
+
+export interface ChartRow {
+  category: HandCategory;
+  total: number;
+  cells: ChartCell[]; // one per dealer upcard, in DEALER_UPCARDS order
+}
+
+export type StrategyChart = Record<HandCategory, ChartRow[]>;
+
+/** Chart cell key → share of training answers that were wrong (0-1) */
+export type ErrorRates = Map<string, number>;
+
+export const CATEGORY_LABELS: Record<HandCategory, string> = { hard: 'Hard Totals', soft: 'Soft Totals', pair: 'Pairs' };
+
+export const ACTION_STYLES: Record<Action, { letter: string; fill: string; text: string }> = {
+  [Action.Hit]: { letter: 'H', fill: '#dc2626', text: '#ffffff' },
+  [Action.Stand]: { letter: 'S', fill: '#facc15', text: '#1e293b' },
+  [Action.Double]: { letter: 'D', fill: '#16a34a', text: '#ffffff' },
+  [Action.Split]: { letter: 'P', fill: '#2563eb', text: '#ffffff' },
+  [Action.Surrender]: { letter: 'R', fill: '#e2e8f0', text: '#1e293b' },
+};
+
+export const upcardLabel = (up: number) => (up === 11 ? 'A' : String(up));
+
+export const rowLabel = (category: HandCategory, total: number): string => {
+  if (category === 'pair') return `${upcardLabel(total)},${upcardLabel(total)}`;
+  if (category === 'soft') return `A,${total - 11}`;
+  return String(total);
+};
+
+export const cellName = (cell: StrategyCell): string =>
+  `${cell.category === 'pair' ? 'Pair of' : cell.category === 'soft' ? 'Soft' : 'Hard'} ${rowLabel(cell.category, cell.total)} vs ${upcardLabel(cell.upcard)}`;
+
+export const buildStrategyChart = (rules: TableRules): StrategyChart => {
+  const build = (category: HandCategory): ChartRow[] => CATEGORY_TOTALS[category].map(total => {
+    const hand = createTwoCardHand(category, total);
+    return {
+      category,
+      total,
+      cells: DEALER_UPCARDS.map(upcard => ({
+        category, total, upcard,
+        decision: getCorrectAction(hand, createCardOfValue(upcard), rules),
+      })),
+    };
+  });
+  return { hard: build('hard'), soft: build('soft'), pair: build('pair') };
+};
+
+// ── SVG export ───────────────────────────────────────────────────────────────
+
+const CELL_W = 34;
+const CELL_H = 22;
+const LABEL_W = 48;
+const MARGIN = 16;
+const TITLE_H = 48;
+const HEADING_H = 24;
+const SECTION_GAP = 16;
+const LEGEND_H = 32;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The whole chart as a standalone SVG document; mistake rates are drawn on when given */
+export const chartToSvg = (chart: StrategyChart, rules: TableRules, errorRates?: ErrorRates): string => {
+  const width = MARGIN * 2 + LABEL_W + DEALER_UPCARDS.length * CELL_W;
+  const parts: string[] = [];
+  let y = MARGIN;
+
+  parts.push(`<text x="${MARGIN}" y="${y + 18}" font-size="18" font-weight="bold" fill="#0f172a">Blackjack Basic Strategy</text>`);
+  parts.push(`<text x="${MARGIN}" y="${y + 36}" font-size="11" fill="#475569">${escapeXml(describeRules(rules))}</text>`);
+  y += TITLE_H;
+
+  for (const category of Object.keys(CATEGORY_LABELS) as HandCategory[]) {
+    parts.push(`<text x="${MARGIN}" y="${y + 15}" font-size="13" font-weight="bold" fill="#0f172a">${CATEGORY_LABELS[category]}</text>`);
+    y += HEADING_H;
+
+    DEALER_UPCARDS.forEach((up, i) => {
+      const x = MARGIN + LABEL_W + i * CELL_W;
+      parts.push(`<text x="${x + CELL_W / 2}" y="${y + 15}" font-size="11" font-weight="bold" text-anchor="middle" fill="#475569">${upcardLabel(up)}</text>`);
+    });
+    y += CELL_H;
+
+    for (const row of chart[category]) {
+      parts.push(`<text x="${MARGIN + LABEL_W - 8}" y="${y + 15}" font-size="11" font-weight="bold" text-anchor="end" fill="#334155">${rowLabel(category, row.total)}</text>`);
+      row.cells.forEach((cell, i) => {
+        const x = MARGIN + LABEL_W + i * CELL_W;
+        const style = ACTION_STYLES[cell.decision.action];
+        const rate = errorRates?.get(cellKey(cell));
+        parts.push(`<rect x="${x + 1}" y="${y + 1}" width="${CELL_W - 2}" height="${CELL_H - 2}" rx="3" fill="${style.fill}"${rate ? ' stroke="#7f1d1d" stroke-width="2"' : ''}/>`);
+        parts.push(`<text x="${x + CELL_W / 2}" y="${y + 15}" font-size="11" font-weight="bold" text-anchor="middle" fill="${style.text}">${style.letter}</text>`);
+        if (rate) parts.push(`<text x="${x + CELL_W - 3}" y="${y + 9}" font-size="7" text-anchor="end" fill="${style.text}">${Math.round(rate * 100)}%</text>`);
+      });
+      y += CELL_H;
+    }
+    y += SECTION_GAP;
+  }
+
+  let x = MARGIN;
+  for (const action of Object.keys(ACTION_STYLES) as Action[]) {
+    const style = ACTION_STYLES[action];
+    parts.push(`<rect x="${x}" y="${y + 4}" width="14" height="14" rx="2" fill="${style.fill}"/>`);
+    parts.push(`<text x="${x + 18}" y="${y + 15}" font-size="10" fill="#334155">${style.letter} = ${action}</text>`);
+    x += 72;
+  }
+  y += LEGEND_H;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${y}" viewBox="0 0 ${width} ${y}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${width}" height="${y}" fill="#ffffff"/>`,
+    ...parts,
+    '</svg>',
+  ].join('\n');
+};
+
+// ── Downloads & printing ─────────────────────────────────────────────────────
+
+const chartFileName = (rules: TableRules, ext: string) =>
+  `strategy-chart-${describeRules(rules).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}.${ext}`;
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadChartSvg = (svg: string, rules: TableRules) => {
+  download(new Blob([svg], { type: 'image/svg+xml' }), chartFileName(rules, 'svg'));
+};
+
+/** Rasterise the SVG at twice its size so the PNG stays sharp when printed */
+export const downloadChartPng = (svg: string, rules: TableRules): Promise<void> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * 2;
+    canvas.height = image.height * 2;
+    const ctx = canvas.getContext('2d');
+    URL.revokeObjectURL(url);
+    if (!ctx) return reject(new Error('Canvas is not available'));
+    ctx.scale(2, 2);
+    ctx.drawImage(image, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return reject(new Error('Could not render the chart'));
+      download(blob, chartFileName(rules, 'png'));
+      resolve();
+    }, 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not render the chart'));
+  };
+  image.src = url;
+});
+
+/** Print just the chart, from a window of its own */
+export const printChart = (svg: string, rules: TableRules): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.write(`<!DOCTYPE html><html><head><title>${escapeXml(describeRules(rules))}</title>
+<style>body{margin:0;display:flex;justify-content:center}svg{max-width:100%;height:auto}@page{margin:12mm}</style></head>
+<body>${svg}</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
@@ -0,0 +1,104 @@
+import { Card, Rank } from '../types';
+
+// ─── Card counting systems ────────────────────────────────────────────────────
+// Tag values per rank. Balanced systems sum to zero over a deck and are
+// converted to a true count; KO is unbalanced and is played off the running
+// count, starting from its initial running count.
+
+export type CountSystemId = 'hilo' | 'ko' | 'omega2' | 'zen';
+
+export interface CountSystem {
+  id: CountSystemId;
+  name: string;
+  balanced: boolean;
+  tags: Record<Rank, number>;
+}
+
+const tagsFor = (byValue: Record<number, number>): Record<Rank, number> => ({
+  [Rank.Two]: byValue[2],
+  [Rank.Three]: byValue[3],
+  [Rank.Four]: byValue[4],
+  [Rank.Five]: byValue[5],
+  [Rank.Six]: byValue[6],
+  [Rank.Seven]: byValue[7],
+  [Rank.Eight]: byValue[8],
+  [Rank.Nine]: byValue[9],
+  [Rank.Ten]: byValue[10],
+  [Rank.Jack]: byValue[10],
+  [Rank.Queen]: byValue[10],
+  [Rank.King]: byValue[10],
+  [Rank.Ace]: byValue[11],
+});
+
+export const COUNT_SYSTEMS: Record<CountSystemId, CountSystem> = {
+  hilo: {
+    id: 'hilo', name: 'Hi-Lo', balanced: true,
+    tags: tagsFor({ 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 0, 8: 0, 9: 0, 10: -1, 11: -1 }),
+  },
+  ko: {
+    id: 'ko', name: 'KO', balanced: false,
+    tags: tagsFor({ 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 1, 8: 0, 9: 0, 10: -1, 11: -1 }),
+  },
+  omega2: {
+    id: 'omega2', name: 'Omega II', balanced: true,
+    tags: tagsFor({ 2: 1, 3: 1, 4: 2, 5: 2, 6: 2, 7: 1, 8: 0, 9: -1, 10: -2, 11: 0 }),
+  },
+  zen: {
+    id: 'zen', name: 'Zen', balanced: true,
+    tags: tagsFor({ 2: 1, 3: 1, 4: 2, 5: 2, 6: 2, 7: 1, 8: 0, 9: 0, 10: -2, 11: -1 }),
+  },
+};
+
+export const COUNT_SYSTEM_IDS = Object.keys(COUNT_SYSTEMS) as CountSystemId[];
+
+/** KO starts at 4 − 4 × decks so its key count is the same for every shoe size */
+export const initialRunningCount = (system: CountSystem, decks: number): number =>
+  system.balanced ? 0 : 4 - 4 * decks;
+
+export const cardTag = (card: Card, system: CountSystem): number => system.tags[card.rank];
+
+export const runningCount = (cards: Card[], system: CountSystem, decks: number): number =>
+  cards.reduce((rc, c) => rc + cardTag(c, system), initialRunningCount(system, decks));
+
+/** Decks left in the shoe, rounded to the nearest half deck as a player would estimate it */
+export const estimateDecksRemaining = (cardsRemaining: number): number =>
+  Math.max(0.5, Math.round((cardsRemaining / 52) * 2) / 2);
+
+export const trueCount = (rc: number, decksRemaining: number): number => rc / decksRemaining;
+
+/** Either rounding or truncating the true count is accepted */
+export const isTrueCountAnswerCorrect = (answer: number, rc: number, decksRemaining: number): boolean => {
+  const exact = trueCount(rc, decksRemaining);
+  return answer === Math.round(exact) || answer === Math.trunc(exact);
+};
+
+// ── Practice history (localStorage) ──────────────────────────────────────────
+
+export interface CountingSession {
+  date: string;             // ISO timestamp
+  system: CountSystemId;
+  decks: number;
+  cardMs: number;           // time each card was shown
+  checkpoints: number;
+  correct: number;
+  avgAnswerMs: number;
+}
+
+const HISTORY_KEY = 'bj_counting_history';
+const HISTORY_LIMIT = 50;
+
+export const loadCountingHistory = (): CountingSession[] => {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCountingSession = (session: CountingSession): CountingSession[] => {
+  const history = [session, ...loadCountingHistory()].slice(0, HISTORY_LIMIT);
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
+  return history;
+};
@@ -0,0 +1,66 @@
+import { Action } from '../types';
+
+// ─── Index plays (Hi-Lo true count) ───────────────────────────────────────────
+// Each entry flips the basic strategy play for one hand/upcard once the true
+// count crosses its index. An entry only applies when the rule set's basic play
+// matches `basic`, so the same list works for H17/S17 and with or without
+// surrender (e.g. 15 vs A has a different Fab 4 index depending on the base play).
+
+export type IndexSet = 'Illustrious 18' | 'Fab 4';
+
+export interface IndexPlay {
+  set: IndexSet;
+  kind: 'hard' | 'pair';
+  total: number;        // hard total, or pair card value (10 = tens)
+  upcard: number;       // 2-11 (11 = Ace)
+  basic: Action;        // play the entry deviates from
+  play: Action;         // count-adjusted play
+  index: number;
+  direction: 'above' | 'below'; // play at TC ≥ index, or at TC < index
+}
+
+const i18 = (kind: 'hard' | 'pair', total: number, upcard: number, basic: Action, play: Action, index: number,
+  direction: 'above' | 'below' = 'above'): IndexPlay =>
+  ({ set: 'Illustrious 18', kind, total, upcard, basic, play, index, direction });
+
+const fab4 = (total: number, upcard: number, basic: Action, play: Action, index: number,
+  direction: 'above' | 'below' = 'above'): IndexPlay =>
+  ({ set: 'Fab 4', kind: 'hard', total, upcard, basic, play, index, direction });
+
+// Insurance (the first of the Illustrious 18) is INSURANCE_INDEX in strategy.ts
+export const INDEX_PLAYS: IndexPlay[] = [
+  i18('hard', 16, 10, Action.Hit, Action.Stand, 0),
+  i18('hard', 15, 10, Action.Hit, Action.Stand, 4),
+  i18('pair', 10, 5, Action.Stand, Action.Split, 5),
+  i18('pair', 10, 6, Action.Stand, Action.Split, 4),
+  i18('hard', 10, 10, Action.Hit, Action.Double, 4),
+  i18('hard', 12, 3, Action.Hit, Action.Stand, 2),
+  i18('hard', 12, 2, Action.Hit, Action.Stand, 3),
+  i18('hard', 11, 11, Action.Hit, Action.Double, 1),
+  i18('hard', 9, 2, Action.Hit, Action.Double, 1),
+  i18('hard', 10, 11, Action.Hit, Action.Double, 4),
+  i18('hard', 9, 7, Action.Hit, Action.Double, 3),
+  i18('hard', 16, 9, Action.Hit, Action.Stand, 5),
+  i18('hard', 13, 2, Action.Stand, Action.Hit, -1, 'below'),
+  i18('hard', 12, 4, Action.Stand, Action.Hit, 0, 'below'),
+  i18('hard', 12, 5, Action.Stand, Action.Hit, -2, 'below'),
+  i18('hard', 12, 6, Action.Stand, Action.Hit, -1, 'below'),
+  i18('hard', 13, 3, Action.Stand, Action.Hit, -2, 'below'),
+
+  fab4(14, 10, Action.Hit, Action.Surrender, 3),
+  fab4(15, 10, Action.Surrender, Action.Hit, 0, 'below'),
+  fab4(15, 9, Action.Hit, Action.Surrender, 2),
+  fab4(15, 11, Action.Hit, Action.Surrender, 1),
+  fab4(15, 11, Action.Surrender, Action.Hit, -1, 'below'),
+];
+
+/** The index play for this hand, if any, given the rule set's basic play */
+export const findIndexPlay = (
+  total: number, isSoft: boolean, pairValue: number | undefined, upcard: number, basic: Action,
+): IndexPlay | undefined =>
+  INDEX_PLAYS.find(p =>
+    p.upcard === upcard && p.basic === basic &&
+    (p.kind === 'pair' ? pairValue === p.total : !isSoft && total === p.total));
+
+export const isIndexTriggered = (play: IndexPlay, trueCount: number): boolean =>
+  play.direction === 'above' ? trueCount >= play.index : trueCount < play.index;
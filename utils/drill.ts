@@ -0,0 +1,206 @@
+import { HandCategory, StrategyCell, TableRules } from '../types';
+import { trainingRulesKey } from '../core/training';
+import { DEALER_UPCARDS, HARD_TOTALS, PAIR_VALUES, SOFT_TOTALS } from './strategy';
+
+// ─── Adaptive drill (Leitner schedule) ────────────────────────────────────────
+// Every strategy chart cell sits in a box. A quick correct answer moves it up a
+// box, a slow one keeps it where it is and a miss sends it back to the first.
+// Higher boxes come round less often — intervals are counted in hands dealt, so
+// a drill session revisits its weak cells within minutes rather than days.
+
+export interface CellProgress {
+  box: number;           // 0 … MASTERED_BOX
+  due: number;           // drill step at which the cell is next asked
+  seen: number;
+  correct: number;
+  lapses: number;        // times it was missed
+  avgMs: number;         // running average response time
+}
+
+export interface DrillSchedule {
+  step: number;          // hands dealt by the drill so far
+  cells: Record<string, CellProgress>; // keyed by cellKey
+}
+
+/** Hands until a cell in each box comes round again */
+const BOX_INTERVALS = [2, 5, 12, 30, 60];
+export const MASTERED_BOX = BOX_INTERVALS.length; // reached after a quick correct answer in the last box
+export const SLOW_MS = 4000;                      // slower than this is not yet automatic
+
+const NEW_CELL_EVERY = 3; // while cells are due, one hand in this many introduces a new cell anyway
+
+export const cellKey = (cell: StrategyCell): string => `${cell.category}|${cell.total}|${cell.upcard}`;
+
+export const CATEGORY_TOTALS: Record<HandCategory, readonly number[]> = { hard: HARD_TOTALS, soft: SOFT_TOTALS, pair: PAIR_VALUES };
+
+/** Every cell of the strategy chart the drill can ask */
+export const DRILL_CELLS: StrategyCell[] = (Object.keys(CATEGORY_TOTALS) as HandCategory[]).flatMap(category =>
+  CATEGORY_TOTALS[category].flatMap(total => DEALER_UPCARDS.map(upcard => ({ category, total, upcard }))));
+
+const pick = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export const emptySchedule = (): DrillSchedule => ({ step: 0, cells: {} });
+
+/**
+ * Due cells are drawn at random, weighted towards the ones that have been missed,
+ * answered slowly or left overdue; new cells are brought in when nothing is due
+ * (and now and then while something is), mastered cells only when they fall due.
+ */
+export const nextDrillCell = (schedule: DrillSchedule, pool: StrategyCell[] = DRILL_CELLS): StrategyCell => {
+  const due: { cell: StrategyCell; weight: number }[] = [];
+  const fresh: StrategyCell[] = [];
+  let soonest: StrategyCell = pool[0];
+  let soonestDue = Infinity;
+
+  for (const cell of pool) {
+    const p = schedule.cells[cellKey(cell)];
+    if (!p) {
+      fresh.push(cell);
+      continue;
+    }
+    if (p.due <= schedule.step) {
+      const interval = BOX_INTERVALS[Math.min(p.box, BOX_INTERVALS.length - 1)];
+      const overdue = (schedule.step - p.due) / interval;
+      due.push({ cell, weight: 1 + 2 * p.lapses + (p.avgMs > SLOW_MS ? 1 : 0) + Math.min(overdue, 3) });
+    } else if (p.due < soonestDue) {
+      soonest = cell;
+      soonestDue = p.due;
+    }
+  }
+
+  if (fresh.length > 0 && (due.length === 0 || schedule.step % NEW_CELL_EVERY === 0)) return pick(fresh);
+  if (due.length === 0) return soonest;
+
+  let r = Math.random() * due.reduce((sum, d) => sum + d.weight, 0);
+  for (const d of due) {
+    r -= d.weight;
+    if (r <= 0) return d.cell;
+  }
+  return due[due.length - 1].cell;
+};
+
+/** Grade one answer and schedule the cell's next appearance */
+export const reviewCell = (schedule: DrillSchedule, cell: StrategyCell, isCorrect: boolean, responseMs: number): DrillSchedule => {
+  const key = cellKey(cell);
+  const prev = schedule.cells[key] ?? { box: 0, due: 0, seen: 0, correct: 0, lapses: 0, avgMs: responseMs };
+  const box = !isCorrect ? 0
+    : responseMs > SLOW_MS ? prev.box
+      : Math.min(prev.box + 1, MASTERED_BOX);
+  const step = schedule.step + 1;
+  const next: CellProgress = {
+    box,
+    due: step + BOX_INTERVALS[Math.min(box, BOX_INTERVALS.length - 1)] * (box === MASTERED_BOX ? 2 : 1),
+    seen: prev.seen + 1,
+    correct: prev.correct + (isCorrect ? 1 : 0),
+    lapses: prev.lapses + (isCorrect ? 0 : 1),
+    avgMs: Math.round(prev.avgMs + (responseMs - prev.avgMs) / (prev.seen + 1)),
+  };
+  return { step, cells: { ...schedule.cells, [key]: next } };
+};
+
+export const isMastered = (p: CellProgress | undefined): boolean => p !== undefined && p.box >= MASTERED_BOX;
+
+export interface DrillProgress {
+  mastered: number;
+  learning: number;      // seen, not yet mastered
+  due: number;
+  total: number;
+}
+
+export const drillProgress = (schedule: DrillSchedule, pool: StrategyCell[] = DRILL_CELLS): DrillProgress => {
+  let mastered = 0, learning = 0, due = 0;
+  for (const cell of pool) {
+    const p = schedule.cells[cellKey(cell)];
+    if (!p) continue;
+    if (isMastered(p)) mastered++;
+    else learning++;
+    if (p.due <= schedule.step) due++;
+  }
+  return { mastered, learning, due, total: pool.length };
+};
+
+// ── Drill filters ────────────────────────────────────────────────────────────
+// Narrow the drill to part of the chart — only pairs, or soft doubles against 2-6.
+// Each category lists the totals (pair card values) it deals; an empty list
+// leaves the category out.
+
+export interface DrillFilter {
+  hard: number[];
+  soft: number[];
+  pair: number[];
+  upcards: number[];
+}
+
+export const FULL_FILTER: DrillFilter = {
+  hard: [...HARD_TOTALS],
+  soft: [...SOFT_TOTALS],
+  pair: [...PAIR_VALUES],
+  upcards: [...DEALER_UPCARDS],
+};
+
+export const DRILL_PRESETS: { label: string; filter: DrillFilter }[] = [
+  { label: 'Everything', filter: FULL_FILTER },
+  { label: 'Pair splitting', filter: { hard: [], soft: [], pair: [...PAIR_VALUES], upcards: [...DEALER_UPCARDS] } },
+  { label: 'Soft doubles vs 2-6', filter: { hard: [], soft: [13, 14, 15, 16, 17, 18, 19], pair: [], upcards: [2, 3, 4, 5, 6] } },
+  { label: 'Stiffs 12-16', filter: { hard: [12, 13, 14, 15, 16], soft: [], pair: [], upcards: [...DEALER_UPCARDS] } },
+  { label: 'Doubling 9-11', filter: { hard: [9, 10, 11], soft: [], pair: [], upcards: [...DEALER_UPCARDS] } },
+];
+
+export const filterCells = (filter: DrillFilter): StrategyCell[] =>
+  DRILL_CELLS.filter(c => filter[c.category].includes(c.total) && filter.upcards.includes(c.upcard));
+
+export const isFullFilter = (filter: DrillFilter): boolean => filterCells(filter).length === DRILL_CELLS.length;
+
+/** A random two-card hand (as a chart cell) from the filtered pool */
+export const randomDrillCell = (pool: StrategyCell[]): StrategyCell => pick(pool);
+
+/** Coerce a stored filter into a valid one; anything unknown falls back to the full chart */
+export const normalizeFilter = (input: unknown): DrillFilter => {
+  const f = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof DrillFilter, unknown>>;
+  const keep = (value: unknown, allowed: readonly number[]): number[] =>
+    Array.isArray(value) ? allowed.filter(v => value.includes(v)) : [...allowed];
+  const filter = {
+    hard: keep(f.hard, HARD_TOTALS),
+    soft: keep(f.soft, SOFT_TOTALS),
+    pair: keep(f.pair, PAIR_VALUES),
+    upcards: keep(f.upcards, DEALER_UPCARDS),
+  };
+  return filterCells(filter).length > 0 ? filter : FULL_FILTER;
+};
+
+const FILTER_KEY = 'bj_drill_filter';
+
+export const loadDrillFilter = (): DrillFilter => {
+  try {
+    const stored = localStorage.getItem(FILTER_KEY);
+    return stored ? normalizeFilter(JSON.parse(stored)) : FULL_FILTER;
+  } catch {
+    return FULL_FILTER;
+  }
+};
+
+export const saveDrillFilter = (filter: DrillFilter) => {
+  localStorage.setItem(FILTER_KEY, JSON.stringify(filter));
+};
+
+// ── Saved progress (localStorage) ────────────────────────────────────────────
+// The right play in a cell can change with the rules, so each rule set keeps its
+// own schedule, filed under the same key as the server's training log.
+
+const SCHEDULE_KEY = 'bj_drill_schedule';
+
+const scheduleKey = (rules: TableRules) => `${SCHEDULE_KEY}:${trainingRulesKey(rules)}`;
+
+export const loadDrillSchedule = (rules: TableRules): DrillSchedule => {
+  try {
+    const stored = localStorage.getItem(scheduleKey(rules));
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed.step === 'number' && parsed.cells && typeof parsed.cells === 'object' ? parsed : emptySchedule();
+  } catch {
+    return emptySchedule();
+  }
+};
+
+export const saveDrillSchedule = (rules: TableRules, schedule: DrillSchedule) => {
+  localStorage.setItem(scheduleKey(rules), JSON.stringify(schedule));
+};
@@ -0,0 +1,80 @@
+import { Card, RevealedShoe } from '../types';
+import { sha256Hex } from '../core/random';
+import { shuffleTray, shuffledCards } from '../core/shoe';
+
+// ─── Shoe verifier ────────────────────────────────────────────────────────────
+// Rebuilds a revealed multiplayer shoe with the same core functions the server
+// dealt it with (core/shoe.ts): the shoe shuffled from serverSeed and the client
+// seeds, dealt from the end, then each discard tray reshuffled mid-shoe, put back
+// in deal order and shuffled with serverSeed/tray/<n>, so only its card ids need
+// revealing.
+//
+// The rebuilt order is checked against what this client saw at the table, not
+// against anything the server reports: every round's cards have to sit in the
+// rebuilt shoe, each round after the one before it.
+
+/** What this client saw of one shoe */
+export interface ObservedShoe {
+  clientSeed: string | null; // ours, when we were seated before the shoe was shuffled
+  rounds: Card[][];          // every card on the table at the end of each round we saw
+}
+
+export interface ShoeVerification {
+  hashMatches: boolean;         // sha256(serverSeed) is the commitment published before the shoe
+  seedIncluded: boolean | null; // our client seed was mixed into the shuffle; null when we sat down later
+  traysValid: boolean;          // every reshuffled tray holds cards dealt earlier in the shoe
+  roundsChecked: number;
+  cardsChecked: number;
+  mismatchRound: number | null; // first round we saw whose cards are not in the rebuilt order
+  rebuilt: Card[];              // expected deal order, tray reshuffles included
+  seen: Set<number>;            // positions in rebuilt of the cards we saw
+}
+
+/** The full deal order, or null when a tray names cards the shoe had not dealt */
+const rebuildShoe = (shoe: RevealedShoe): Card[] | null => {
+  const order = shuffledCards(shoe.decks, shoe.serverSeed, shoe.clientSeeds.map(c => c.seed)).reverse();
+  for (const [i, ids] of shoe.trays.entries()) {
+    const dealtAt = new Map(order.map((c, at) => [c.id, at]));
+    if (new Set(ids).size !== ids.length || ids.some(id => !dealtAt.has(id))) return null;
+    const tray = [...ids].sort((a, b) => dealtAt.get(a)! - dealtAt.get(b)!).map(id => order[dealtAt.get(id)!]);
+    order.push(...shuffleTray(shoe.serverSeed, i + 1, tray).reverse());
+  }
+  return order;
+};
+
+const sameCard = (a: Card, b: Card) => a.id === b.id && a.rank === b.rank && a.suit === b.suit;
+
+export const verifyShoe = (shoe: RevealedShoe, observed: ObservedShoe | undefined): ShoeVerification => {
+  const rebuilt = rebuildShoe(shoe);
+  const rounds = observed?.rounds ?? [];
+  const seen = new Set<number>();
+  let mismatchRound: number | null = null;
+
+  // Cards may be missed (rounds we were away for), but never dealt out of order
+  let cursor = 0;
+  for (const [r, cards] of rounds.entries()) {
+    if (!rebuilt || mismatchRound !== null) break;
+    let end = cursor;
+    for (const card of cards) {
+      const at = rebuilt.findIndex((c, i) => i >= cursor && !seen.has(i) && sameCard(c, card));
+      if (at === -1) {
+        mismatchRound = r;
+        break;
+      }
+      seen.add(at);
+      end = Math.max(end, at + 1);
+    }
+    cursor = end;
+  }
+
+  return {
+    hashMatches: sha256Hex(shoe.serverSeed) === shoe.serverSeedHash,
+    seedIncluded: observed?.clientSeed ? shoe.clientSeeds.some(c => c.seed === observed.clientSeed) : null,
+    traysValid: rebuilt !== null,
+    roundsChecked: rounds.length,
+    cardsChecked: seen.size,
+    mismatchRound,
+    rebuilt: rebuilt ?? [],
+    seen,
+  };
+};
@@ -0,0 +1,99 @@
+import { Action, Card, HandOutcome, PlayerHand, Rank, TableRules } from '../types';
+import { calculateHandValue, isBlackjack } from './deck';
+import { dealerShouldHit, isSplitAllowed } from './rules';
+import { settleHand } from '../core/settlement';
+
+// ─── Play-through training ────────────────────────────────────────────────────
+// The hand goes on after a correct Hit or Split: each new card (and each hand of
+// a split) is another graded decision, asked with the split context the strategy
+// engine needs. Once every hand is finished the dealer plays out and the hands
+// are settled, so the drill ends on a real result.
+
+/** Stake per hand; results are shown in units of it */
+const UNIT_BET = 10;
+
+export interface HandSettlement {
+  result: HandOutcome | 'surrendered';
+  units: number; // won (+) or lost (-), in opening bets
+}
+
+export const startHands = (cards: Card[]): PlayerHand[] => [{ id: 'hand-1', cards, bet: UNIT_BET, status: 'playing' }];
+
+/** Hands that need no decision stand on their own: 21, a bust, split Aces that cannot be resplit */
+const finishIfDone = (hand: PlayerHand, handCount: number, rules: TableRules): PlayerHand => {
+  if (hand.status !== 'playing') return hand;
+  const { total } = calculateHandValue(hand.cards);
+  if (total > 21) return { ...hand, status: 'busted' };
+  if (total === 21) return { ...hand, status: 'standing' };
+  if (hand.splitAces && !isSplitAllowed(hand.cards, handCount, rules, true)) return { ...hand, status: 'standing' };
+  return hand;
+};
+
+/** Play a (legal, already graded) action on one hand, drawing cards as needed */
+export const applyAction = (
+  hands: PlayerHand[], index: number, action: Action, draw: () => Card, rules: TableRules,
+): PlayerHand[] => {
+  const hand = hands[index];
+  let played: PlayerHand[];
+
+  switch (action) {
+    case Action.Hit:
+      played = [{ ...hand, cards: [...hand.cards, draw()] }];
+      break;
+    case Action.Stand:
+      played = [{ ...hand, status: !hand.isSplit && isBlackjack(hand.cards) ? 'blackjack' : 'standing' }];
+      break;
+    case Action.Double: {
+      const cards = [...hand.cards, draw()];
+      played = [{ ...hand, cards, bet: hand.bet * 2, status: calculateHandValue(cards).total > 21 ? 'busted' : 'doubled' }];
+      break;
+    }
+    case Action.Surrender:
+      played = [{ ...hand, status: 'surrendered' }];
+      break;
+    case Action.Split: {
+      const splitAces = hand.cards[0].rank === Rank.Ace;
+      played = hand.cards.map((card, i) => ({
+        id: `${hand.id}.${i + 1}`,
+        cards: [card, draw()],
+        bet: hand.bet,
+        status: 'playing' as const,
+        isSplit: true,
+        splitAces,
+      }));
+      break;
+    }
+  }
+
+  const next = [...hands.slice(0, index), ...played, ...hands.slice(index + 1)];
+  return next.map(h => finishIfDone(h, next.length, rules));
+};
+
+/** The hand to ask about next (split hands are played left to right), or -1 when all are finished */
+export const nextHandIndex = (hands: PlayerHand[], from: number): number =>
+  hands.findIndex((h, i) => i >= from && h.status === 'playing');
+
+/**
+ * Turn the hole card and draw to the rules. A dealer who peeks has already shown
+ * there is no blackjack (the hand would have ended before any decision), so the
+ * hole card is the next one that does not make one; draw(fits) must leave the
+ * cards it passes over in the shoe.
+ */
+export const playDealer = (
+  upcard: Card, hands: PlayerHand[], draw: (fits?: (card: Card) => boolean) => Card, rules: TableRules,
+): Card[] => {
+  const hole = rules.dealerPeek ? draw(card => !isBlackjack([upcard, card])) : draw();
+  const cards = [upcard, hole];
+
+  if (hands.every(h => h.status === 'busted' || h.status === 'surrendered')) return cards;
+  while (dealerShouldHit(cards, rules)) cards.push(draw());
+  return cards;
+};
+
+export const settlePlayThrough = (hands: PlayerHand[], dealerCards: Card[], rules: TableRules): HandSettlement[] =>
+  hands.map(hand => {
+    if (hand.status === 'surrendered') return { result: 'surrendered', units: -0.5 };
+    if (hand.status === 'busted') return { result: 'loss', units: -hand.bet / UNIT_BET };
+    const { result, payout } = settleHand(hand, dealerCards, rules);
+    return { result, units: (payout - hand.bet) / UNIT_BET };
+  });
@@ -0,0 +1,176 @@
+import { TableRules } from '../types';
+import { isDoubleTotalAllowed } from './rules';
+
+// ─── Expected-value engine ────────────────────────────────────────────────────
+// Card values are indexed 1-10 (1 = Ace, 10 = any ten-value card).
+//
+// The dealer's final-total distribution is computed exactly for the shoe with the
+// upcard and the player's own cards removed, drawing without replacement. Player
+// draws use that same shoe composition (cards drawn after the first ones are not
+// removed again), which is how published total-dependent strategy charts are
+// built. The removed cards only matter at all in one- and two-deck games.
+
+export const CARD_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as const;
+
+export interface DealerOdds {
+  totals: number[]; // totals[t] = P(dealer finishes on t), t = 17..21
+  bust: number;
+  blackjack: number;     // 0 when the dealer has already peeked
+  holeBlackjack: number; // P(hole card completes a blackjack) before any peek
+}
+
+export interface HandEvaluator {
+  odds: DealerOdds;
+  drawProbability: (value: number) => number;
+  stand: (total: number) => number;
+  hit: (total: number, isSoft: boolean) => number;
+  double: (total: number, isSoft: boolean) => number;
+  split: (pairValue: number) => number;
+  /** Best of stand/hit — the value of a hand that can no longer double or split */
+  best: (total: number, isSoft: boolean) => number;
+  /** Probability that a single hit busts the hand */
+  bustOnHit: (total: number, isSoft: boolean) => number;
+}
+
+/** Cards left per value once the upcard and the player's cards (values 1-10) are out of the shoe */
+const shoeCounts = (decks: number, upValue: number, playerCards: number[]): number[] => {
+  const counts = new Array(11).fill(0);
+  for (const v of CARD_VALUES) counts[v] = v === 10 ? 16 * decks : 4 * decks;
+  for (const v of [upValue, ...playerCards]) counts[v] = Math.max(0, counts[v] - 1);
+  return counts;
+};
+
+/** Add one card to a (total, soft) state, counting an Ace as 11 when it fits */
+export const addCard = (total: number, isSoft: boolean, value: number): [number, boolean] => {
+  let t = total + value;
+  let soft = isSoft;
+  if (value === 1 && !soft && t + 10 <= 21) {
+    t += 10;
+    soft = true;
+  }
+  if (t > 21 && soft) {
+    t -= 10;
+    soft = false;
+  }
+  return [t, soft];
+};
+
+export const computeDealerOdds = (upValue: number, rules: TableRules, playerCards: number[] = []): DealerOdds => {
+  const counts = shoeCounts(rules.decks, upValue, playerCards);
+  const blackjackRank = upValue === 1 ? 10 : upValue === 10 ? 1 : 0;
+  const odds: DealerOdds = {
+    totals: new Array(22).fill(0),
+    bust: 0,
+    blackjack: 0,
+    holeBlackjack: blackjackRank ? counts[blackjackRank] / counts.reduce((a, b) => a + b, 0) : 0,
+  };
+
+  // After a peek the hole card is known not to complete a blackjack
+  const peekedRank = rules.dealerPeek ? blackjackRank : 0;
+
+  const walk = (total: number, isSoft: boolean, cardCount: number, prob: number) => {
+    if (cardCount === 2 && total === 21) { odds.blackjack += prob; return; }
+    if (total > 21) { odds.bust += prob; return; }
+    if (total > 17 || (total === 17 && !(isSoft && rules.dealerHitsSoft17))) {
+      odds.totals[total] += prob;
+      return;
+    }
+
+    let remaining = counts.reduce((a, b) => a + b, 0);
+    if (cardCount === 1 && peekedRank) remaining -= counts[peekedRank];
+
+    for (const v of CARD_VALUES) {
+      if (counts[v] === 0 || (cardCount === 1 && v === peekedRank)) continue;
+      const p = counts[v] / remaining;
+      counts[v] -= 1;
+      const [t, soft] = addCard(total, isSoft, v);
+      walk(t, soft, cardCount + 1, prob * p);
+      counts[v] += 1;
+    }
+  };
+
+  const [t0, soft0] = addCard(0, false, upValue);
+  walk(t0, soft0, 1, 1);
+  return odds;
+};
+
+export const createEvaluator = (upValue: number, rules: TableRules, playerCards: number[] = []): HandEvaluator => {
+  const odds = computeDealerOdds(upValue, rules, playerCards);
+  const counts = shoeCounts(rules.decks, upValue, playerCards);
+  const shoeSize = counts.reduce((a, b) => a + b, 0);
+  const drawProbability = (value: number) => counts[value] / shoeSize;
+
+  const stand = (total: number): number => {
+    if (total > 21) return -1;
+    let ev = odds.bust - odds.blackjack;
+    for (let t = 17; t <= 21; t++) {
+      if (total > t) ev += odds.totals[t];
+      else if (total < t) ev -= odds.totals[t];
+    }
+    return ev;
+  };
+
+  const bestMemo = new Map<string, number>();
+  const best = (total: number, isSoft: boolean): number => {
+    if (total > 21) return -1;
+    const key = `${total}${isSoft ? 's' : 'h'}`;
+    const cached = bestMemo.get(key);
+    if (cached !== undefined) return cached;
+    const ev = Math.max(stand(total), hit(total, isSoft));
+    bestMemo.set(key, ev);
+    return ev;
+  };
+
+  const hit = (total: number, isSoft: boolean): number => {
+    let ev = 0;
+    for (const v of CARD_VALUES) {
+      const [t, soft] = addCard(total, isSoft, v);
+      ev += drawProbability(v) * best(t, soft);
+    }
+    return ev;
+  };
+
+  const double = (total: number, isSoft: boolean): number => {
+    let ev = 0;
+    for (const v of CARD_VALUES) {
+      const [t] = addCard(total, isSoft, v);
+      ev += drawProbability(v) * stand(t);
+    }
+    return 2 * ev;
+  };
+
+  const bustOnHit = (total: number, isSoft: boolean): number => {
+    let p = 0;
+    for (const v of CARD_VALUES) {
+      if (addCard(total, isSoft, v)[0] > 21) p += drawProbability(v);
+    }
+    return p;
+  };
+
+  // One post-split hand, allowing up to `resplits` further splits of a matching card
+  const splitHand = (pairValue: number, resplits: number): number => {
+    const [t1, s1] = addCard(0, false, pairValue);
+    let ev = 0;
+    for (const v of CARD_VALUES) {
+      const [t, soft] = addCard(t1, s1, v);
+      const canResplit = v === pairValue && resplits > 0 && (pairValue !== 1 || rules.resplitAces);
+      const resplitEV = canResplit ? 2 * splitHand(pairValue, resplits - 1) : -Infinity;
+      let handEV: number;
+      if (pairValue === 1) {
+        // Split Aces get one card and must stand
+        handEV = Math.max(stand(t), resplitEV);
+      } else {
+        handEV = Math.max(stand(t), hit(t, soft), resplitEV);
+        if (rules.doubleAfterSplit && isDoubleTotalAllowed(t, soft, rules)) {
+          handEV = Math.max(handEV, double(t, soft));
+        }
+      }
+      ev += drawProbability(v) * handEV;
+    }
+    return ev;
+  };
+
+  const split = (pairValue: number): number => 2 * splitHand(pairValue, Math.max(0, rules.maxSplitHands - 2));
+
+  return { odds, drawProbability, stand, hit, double, split, best, bustOnHit };
+};
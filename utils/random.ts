@@ -0,0 +1,20 @@
+import type { Rng } from '../core/cards';
+
+// The seeded generator is shared with the server, so a seed deals the same shoe on both sides
+export { createRng } from '../core/random';
+
+// ─── Random sources ───────────────────────────────────────────────────────────
+// Everything that shuffles or names cards takes an Rng, so a shoe can be rebuilt
+// exactly from its seed (sharing a hand, replaying a round). Unseeded callers
+// fall back to Math.random.
+
+/** Uniform float in [0, 1) */
+export type { Rng };
+
+/** A short shareable seed, e.g. "k3v9x0q2ma" */
+export const randomSeed = (): string => {
+  const bytes = new Uint8Array(10);
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) crypto.getRandomValues(bytes);
+  else bytes.forEach((_, i) => { bytes[i] = Math.floor(Math.random() * 256); });
+  return Array.from(bytes, b => (b % 36).toString(36)).join('');
+};
@@ -0,0 +1,42 @@
+import { TableRules } from '../types';
+import { DEFAULT_RULES, normalizeRules } from '../core/rules';
+
+// ─── Table rules ──────────────────────────────────────────────────────────────
+// The rule set and its checks are shared with the server (core/rules.ts); this
+// module adds what only the browser needs: persistence and labels.
+
+export {
+  DEFAULT_RULES, DECK_OPTIONS, PAYOUT_OPTIONS, DOUBLE_OPTIONS, SPLIT_HAND_OPTIONS, SURRENDER_OPTIONS, PENETRATION_OPTIONS,
+  normalizeRules, blackjackWinnings, dealerShouldHit, isDoubleTotalAllowed, isDoubleAllowed, isSurrenderAllowed,
+  isInsuranceOffered, maxInsuranceBet, isEarlySurrenderOffered, isSplitAllowed,
+} from '../core/rules';
+
+const RULES_STORAGE_KEY = 'bj_rules';
+
+export const loadRules = (): TableRules => {
+  try {
+    const stored = localStorage.getItem(RULES_STORAGE_KEY);
+    return stored ? normalizeRules(JSON.parse(stored)) : DEFAULT_RULES;
+  } catch {
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: TableRules) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+/** Short label used in footers and lobbies, e.g. "H17 • 6 Decks • BJ 3:2 • DAS • No Surrender" */
+export const describeRules = (rules: TableRules): string => {
+  const parts = [
+    rules.dealerHitsSoft17 ? 'H17' : 'S17',
+    `${rules.decks} Deck${rules.decks === 1 ? '' : 's'}`,
+    `BJ ${rules.blackjackPayout}`,
+    rules.doubleAfterSplit ? 'DAS' : 'No DAS',
+  ];
+  if (rules.doubleOn === '9-11') parts.push('Double 9-11');
+  if (rules.resplitAces) parts.push('RSA');
+  if (!rules.dealerPeek) parts.push('No Peek');
+  parts.push(rules.surrender === 'late' ? 'Late Surrender' : rules.surrender === 'early' ? 'Early Surrender' : 'No Surrender');
+  return parts.join(' • ');
+};
@@ -0,0 +1,27 @@
+import { TableRules } from '../types';
+import { Shoe, createShoe as committedShoe, isCutCardOut, nextShoe, shuffleShoe } from '../core/shoe';
+import { randomSeed } from './random';
+
+// ─── Shoe ─────────────────────────────────────────────────────────────────────
+// The shoe model (draw, discard tray, cut card, tray reshuffles) is shared with
+// the server (core/shoe.ts). A drill has nobody to commit to, so its shoes are
+// shuffled as soon as they are made, from their seed alone: the same seed deals
+// the same shoe again.
+
+export type { Shoe } from '../core/shoe';
+export { cardsDealt, discardCards, drawCard, drawCardWhere, isCutCardOut, shoeInfo } from '../core/shoe';
+
+const shuffled = (shoe: Shoe): Shoe => {
+  shuffleShoe(shoe, []);
+  return shoe;
+};
+
+export const createShoe = (rules: TableRules, seed: string = randomSeed()): Shoe =>
+  shuffled(committedShoe(rules, seed));
+
+/** Between rounds: shuffle a fresh shoe if the cut card came out. Returns true when it did. */
+export const shuffleIfCutCardOut = (shoe: Shoe): boolean => {
+  if (!isCutCardOut(shoe)) return false;
+  Object.assign(shoe, shuffled(nextShoe(shoe, randomSeed())));
+  return true;
+};
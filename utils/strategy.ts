@@ -1,248 +1,377 @@
-import { Action, Card } from '../types';
+import { Action, Card, TableRules } from '../types';
 import { calculateHandValue, isStrictPair } from './deck';
+import { DEFAULT_RULES, isDoubleAllowed, isDoubleTotalAllowed, isSplitAllowed, isSurrenderAllowed } from './rules';
+import { HandEvaluator, createEvaluator } from './probability';
+import { IndexPlay, findIndexPlay, isIndexTriggered } from './deviations';
 
-// H17 Strategy: Dealer Hits Soft 17
-// 6 Decks
+// ─── Rule-aware basic strategy ────────────────────────────────────────────────
+// Every decision comes from the expected-value engine in probability.ts, so any
+// rule set gets its own tables and its own explanations without hand-written
+// branches.
 
-interface StrategyDecision {
+export interface StrategyDecision {
   action: Action;
   reason: string;
   analysis: string;
   example: string;
+  evs: Partial<Record<Action, number>>;
+  basicAction: Action;     // the play with no count information
+  indexPlay?: IndexPlay;   // count deviation available for this hand
+  isDeviation: boolean;    // the true count flipped the play away from basic strategy
 }
 
-const decision = (action: Action, reason: string, analysis: string, example: string): StrategyDecision => ({
-  action, reason, analysis, example
-});
+export type StrategyRow = Record<number, Action>; // dealer upcard (2-11) → action
 
-export const getCorrectAction = (playerHand: Card[], dealerUpCard: Card): StrategyDecision => {
-  const { total, isSoft } = calculateHandValue(playerHand);
-  const dealerVal = dealerUpCard.value; // 2-11 (A is 11)
-  const isPairHand = isStrictPair(playerHand);
-  
-  // 1. PAIR SPLITTING
-  if (isPairHand) {
-    const pairVal = playerHand[0].value; // 2-11 (Ace is 11)
-    
-    // Aces
-    if (pairVal === 11) {
-        return decision(Action.Split, "Always split Aces.", 
-        "Splitting Aces turns one mediocre soft hand (12) into two powerful starting hands. Each Ace counts as 11, meaning any 10-value card gives you 21.", 
-        "Example: Player [A, A] vs Dealer [8]");
-    }
-    // 8s
-    if (pairVal === 8) {
-        return decision(Action.Split, "Always split 8s.", 
-        "A hard 16 is widely considered the worst hand in Blackjack. Splitting 8s breaks this up and gives you two hands starting with 8, which has a much higher expected value than playing the 16.", 
-        "Example: Player [8, 8] vs Dealer [10]");
-    }
-    // 2s and 3s
-    if (pairVal === 2 || pairVal === 3) {
-      if (dealerVal >= 2 && dealerVal <= 7) {
-          return decision(Action.Split, `Split ${pairVal}s against dealer 2-7.`, 
-          "Against a weak dealer card, splitting small pairs allows you to put more money on the table with decent starting hands. Hitting would just give you one weak total.", 
-          `Example: Player [${pairVal}, ${pairVal}] vs Dealer [5]`);
-      }
-      return decision(Action.Hit, `Hit ${pairVal}s against dealer ${dealerVal}.`, 
-      "Against a strong dealer card (8+), splitting is too risky as you are likely to end up with two losing hands. Hitting gives you a safer chance to improve without doubling your exposure.", 
-      `Example: Player [${pairVal}, ${pairVal}] vs Dealer [9]`);
-    }
-    // 4s
-    if (pairVal === 4) {
-      return decision(Action.Hit, "Hit pair of 4s.", 
-      "A pair of 4s equals 8, which is a decent platform to hit from. Splitting leaves you with two hands starting with 4, which often result in stiff totals (14) if you catch a 10.", 
-      "Example: Player [4, 4] vs Dealer [6]");
-    }
-    // 5s (Total 10)
-    if (pairVal === 5) {
-      if (dealerVal <= 9) {
-          return decision(Action.Double, "Double pair of 5s (Hard 10) against 2-9.", 
-          "A pair of 5s is mathematically a Hard 10. This is a very strong total. You should double to maximize profit against a dealer who isn't showing a 10 or Ace.", 
-          "Example: Player [5, 5] vs Dealer [7]");
-      }
-      return decision(Action.Hit, "Hit pair of 5s (Hard 10) against 10 or Ace.", 
-      "While 10 is strong, doubling against a dealer 10 or Ace is too risky. Simply hit to take a card.", 
-      "Example: Player [5, 5] vs Dealer [A]");
-    }
-    // 6s
-    if (pairVal === 6) {
-        if (dealerVal >= 2 && dealerVal <= 6) {
-            return decision(Action.Split, "Split 6s against 2-6.", 
-            "A hard 12 is a difficult hand. Against a weak dealer who might bust, splitting 6s reduces your chance of busting immediately and gives you two shots at a better total.", 
-            "Example: Player [6, 6] vs Dealer [4]");
-        }
-        return decision(Action.Hit, "Hit 6s against 7+.", 
-        "Against a strong dealer, splitting 6s is suicidal. You are better off playing the 12 and hoping for a decent hit than paying double to start with two 6s.", 
-        "Example: Player [6, 6] vs Dealer [8]");
-    }
-    // 7s
-    if (pairVal === 7) {
-        if (dealerVal >= 2 && dealerVal <= 7) {
-            return decision(Action.Split, "Split 7s against 2-7.", 
-            "A hard 14 is a 'stiff' hand. Splitting 7s against a dealer 2-7 is offensive; you turn a likely loser into two hands that can easily become 17s.", 
-            "Example: Player [7, 7] vs Dealer [5]");
-        }
-        return decision(Action.Hit, "Hit 7s against 8+.", 
-        "14 is a bad hand, but splitting into two 7s against a dealer 8, 9, or 10 just creates two losing hands. Hit and hope for a small card.", 
-        "Example: Player [7, 7] vs Dealer [K]");
-    }
-    // 9s
-    if (pairVal === 9) {
-        if ((dealerVal >= 2 && dealerVal <= 6) || (dealerVal >= 8 && dealerVal <= 9)) {
-            return decision(Action.Split, "Split 9s against 2-6 and 8-9.", 
-            "18 is a good hand, but starting with 9 is often better. You split vs 2-6 to extract value, and vs 8-9 because your 18 might lose or push, but starting with 9 gives you a chance to beat their potential 18/19.", 
-            "Example: Player [9, 9] vs Dealer [9]");
-        }
-        return decision(Action.Stand, "Stand on 9s against 7, 10, or Ace.", 
-        "Against a 7, your 18 likely wins. Against 10 or A, your 18 is an underdog, but splitting just exposes more money to a likely loss.", 
-        "Example: Player [9, 9] vs Dealer [7]");
-    }
-    // 10s
-    if (pairVal === 10) {
-        return decision(Action.Stand, "Always stand on 20.", 
-        "20 is the second-best hand in the game. Never risk splitting it. You will win the vast majority of these hands.", 
-        "Example: Player [K, J] vs Dealer [6]");
-    }
+export interface StrategyTables {
+  hard: Record<number, StrategyRow>;  // hard totals 5-20
+  soft: Record<number, StrategyRow>;  // soft 13 (A,2) – soft 20 (A,9)
+  pairs: Record<number, StrategyRow>; // pair card value 2-11 (11 = Aces)
+}
+
+export interface HandContext {
+  isSplit?: boolean;    // hand came from a split (double after split rules apply)
+  splitAces?: boolean;  // split Aces may only stand or resplit
+  handCount?: number;   // hands the player currently holds (resplit limit)
+  trueCount?: number;   // Hi-Lo true count; enables index plays
+}
+
+export const DEALER_UPCARDS = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11] as const;
+export const HARD_TOTALS = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20] as const;
+export const SOFT_TOTALS = [13, 14, 15, 16, 17, 18, 19, 20] as const;
+export const PAIR_VALUES = [2, 3, 4, 5, 6, 7, 8, 9, 10, 11] as const;
+
+// Order used to break exact EV ties — prefer the simpler play
+const ACTION_ORDER = [Action.Stand, Action.Hit, Action.Double, Action.Split, Action.Surrender];
+
+// ── Evaluator cache (one per rule set + dealer upcard + player's cards) ───────
+const evaluatorCache = new Map<string, HandEvaluator>();
+
+// Penetration only decides when the shoe is shuffled; it never changes a play
+const rulesKey = (rules: TableRules): string => JSON.stringify({ ...rules, penetration: undefined });
+
+/** Card values as the evaluator indexes them (Ace = 1), in a fixed order for the cache key */
+const shoeValues = (cardValues: number[]): number[] => cardValues.map(v => (v === 11 ? 1 : v)).sort((a, b) => a - b);
+
+const getEvaluator = (upcard: number, rules: TableRules, playerCards: number[]): HandEvaluator => {
+  const removed = shoeValues(playerCards);
+  const key = `${rulesKey(rules)}|${upcard}|${removed.join(',')}`;
+  let evaluator = evaluatorCache.get(key);
+  if (!evaluator) {
+    evaluator = createEvaluator(upcard === 11 ? 1 : upcard, rules, removed);
+    evaluatorCache.set(key, evaluator);
   }
+  return evaluator;
+};
 
-  // 2. SOFT TOTALS
-  if (isSoft) {
-    // Soft 20 (A,9)
-    if (total >= 20) return decision(Action.Stand, "Always stand on Soft 20 or greater.", 
-        "You have an excellent total. There is no mathematical reason to mess with a winning hand.", 
-        "Example: Player [A, 9] vs Dealer [5]");
-    
-    // Soft 19 (A,8)
-    if (total === 19) {
-        if (dealerVal === 6) {
-            return decision(Action.Double, "Double Soft 19 against 6 (H17 rule).", 
-            "Under H17 rules, doubling Soft 19 against a 6 is slightly profitable because the dealer is very weak. In S17 games, you would stand.", 
-            "Example: Player [A, 8] vs Dealer [6]");
-        }
-        return decision(Action.Stand, "Stand on Soft 19.", 
-        "19 is a strong winning total. Take the likely win.", 
-        "Example: Player [A, 8] vs Dealer [9]");
-    }
+/**
+ * The two-card hands (values 2-11) that make a chart row, weighted by how often
+ * they are dealt: every non-pair way to make a hard total, an Ace and a card for
+ * soft totals, the pair itself for pairs.
+ */
+const rowHands = (kind: 'hard' | 'soft' | 'pair', total: number): { cards: number[]; weight: number }[] => {
+  if (kind === 'pair') return [{ cards: [total, total], weight: 1 }];
+  if (kind === 'soft') return [{ cards: [11, total - 11], weight: 1 }];
+  const hands: { cards: number[]; weight: number }[] = [];
+  for (let a = 2; a <= 10; a++) {
+    const b = total - a;
+    if (b < a || b > 10 || (a === b && a !== 10)) continue; // a ten-value 20 can be two different ranks
+    hands.push({ cards: [a, b], weight: (a === 10 ? 4 : 1) * (b === 10 ? 4 : 1) });
+  }
+  return hands;
+};
 
-    // Soft 18 (A,7)
-    if (total === 18) {
-        if (dealerVal >= 2 && dealerVal <= 6) {
-            return decision(Action.Double, "Double Soft 18 against 2-6.", 
-            "You have a decent hand (18), but the dealer is weak. Doubling allows you to buy a chance for a great hand (using the Ace flexibility) while capitalizing on the dealer's bust potential.", 
-            "Example: Player [A, 7] vs Dealer [4]");
-        }
-        if (dealerVal >= 9) {
-            return decision(Action.Hit, "Hit Soft 18 against 9, 10, A.", 
-            "18 is often a losing hand against a strong dealer card (who likely has 19 or 20). You must hit to try and get 19, 20, or 21.", 
-            "Example: Player [A, 7] vs Dealer [K]");
-        }
-        return decision(Action.Stand, "Stand Soft 18 against 7, 8.", 
-        "Against a dealer 7 or 8, your 18 is likely a winner or push. Doubling is too risky, and hitting is unnecessary.", 
-        "Example: Player [A, 7] vs Dealer [7]");
+/** A chart row's EVs: the weighted average over the two-card hands that make it */
+const rowEVs = (
+  kind: 'hard' | 'soft' | 'pair', total: number, isSoft: boolean, upcard: number, rules: TableRules,
+  options: { canHit: boolean; canDouble: boolean; canSurrender: boolean; splitValue?: number },
+): Partial<Record<Action, number>> => {
+  const hands = rowHands(kind, kind === 'pair' ? options.splitValue! : total);
+  const totalWeight = hands.reduce((sum, h) => sum + h.weight, 0);
+  const evs: Partial<Record<Action, number>> = {};
+  for (const hand of hands) {
+    const handEv = handEVs(total, isSoft, upcard, rules, hand.cards, options);
+    for (const a of ACTION_ORDER) {
+      if (handEv[a] !== undefined) evs[a] = (evs[a] ?? 0) + handEv[a]! * hand.weight / totalWeight;
     }
+  }
+  return evs;
+};
 
-    // Soft 17 (A,6)
-    if (total === 17) {
-        if (dealerVal >= 3 && dealerVal <= 6) {
-            return decision(Action.Double, "Double Soft 17 against 3-6.", 
-            "Soft 17 is a weak hand (it only pushes vs 17). Against a weak dealer, double down to put more money on the table, hoping for a 10 (making 17 hard) or A-4 (improving total).", 
-            "Example: Player [A, 6] vs Dealer [4]");
-        }
-        return decision(Action.Hit, "Hit Soft 17 otherwise.", 
-        "Soft 17 is essentially a drawing hand. Always try to improve it if you can't double.", 
-        "Example: Player [A, 6] vs Dealer [8]");
-    }
+const bestAction = (evs: Partial<Record<Action, number>>): Action => {
+  let best = Action.Stand;
+  for (const a of ACTION_ORDER) {
+    const ev = evs[a];
+    if (ev !== undefined && ev > (evs[best] ?? -Infinity) + 1e-9) best = a;
+  }
+  return best;
+};
 
-    // Soft 15/16
-    if (total === 15 || total === 16) {
-        if (dealerVal >= 4 && dealerVal <= 6) {
-            return decision(Action.Double, `Double Soft ${total} against 4-6.`, 
-            "The dealer is at their weakest showing 4, 5, or 6. Use the flexibility of your Ace to double your bet.", 
-            `Example: Player [A, ${total - 11}] vs Dealer [5]`);
-        }
-        return decision(Action.Hit, `Hit Soft ${total} otherwise.`, 
-        "This soft total is too low to win. You must hit to improve. Since you cannot bust, it's a free chance to upgrade.", 
-        `Example: Player [A, ${total - 11}] vs Dealer [2]`);
+const handEVs = (
+  total: number, isSoft: boolean, upcard: number, rules: TableRules, playerCards: number[],
+  options: { canHit: boolean; canDouble: boolean; canSurrender: boolean; splitValue?: number },
+): Partial<Record<Action, number>> => {
+  const ev = getEvaluator(upcard, rules, playerCards);
+  const evs: Partial<Record<Action, number>> = { [Action.Stand]: ev.stand(total) };
+  if (options.canHit) evs[Action.Hit] = ev.hit(total, isSoft);
+  if (options.canDouble) evs[Action.Double] = ev.double(total, isSoft);
+  if (options.splitValue !== undefined) evs[Action.Split] = ev.split(options.splitValue === 11 ? 1 : options.splitValue);
+  if (options.canSurrender) {
+    // Early surrender is decided before the peek, so every play is valued including
+    // the dealer blackjacks the peek would otherwise have removed (original bet lost)
+    const p = rules.surrender === 'early' && rules.dealerPeek ? ev.odds.holeBlackjack : 0;
+    for (const a of ACTION_ORDER) {
+      if (evs[a] !== undefined) evs[a] = -p + (1 - p) * evs[a]!;
     }
+    evs[Action.Surrender] = -0.5;
+  }
+  return evs;
+};
 
-    // Soft 13/14
-    if (total === 13 || total === 14) {
-        if (dealerVal >= 5 && dealerVal <= 6) {
-            return decision(Action.Double, `Double Soft ${total} against 5-6.`, 
-            "Similar to other soft hands, capitalize on the dealer's maximum weakness (5 or 6) by doubling.", 
-            `Example: Player [A, ${total - 11}] vs Dealer [6]`);
-        }
-        return decision(Action.Hit, `Hit Soft ${total} otherwise.`, 
-        "You need to improve this total. Hit freely.", 
-        `Example: Player [A, ${total - 11}] vs Dealer [8]`);
-    }
+// ── Table generation ──────────────────────────────────────────────────────────
+const tableCache = new Map<string, StrategyTables>();
+
+export const getStrategyTables = (rules: TableRules = DEFAULT_RULES): StrategyTables => {
+  const key = rulesKey(rules);
+  const cached = tableCache.get(key);
+  if (cached) return cached;
+
+  const row = (fn: (up: number) => Action): StrategyRow =>
+    Object.fromEntries(DEALER_UPCARDS.map(up => [up, fn(up)]));
+
+  const canSurrender = rules.surrender !== 'none';
+  const tables: StrategyTables = { hard: {}, soft: {}, pairs: {} };
+  for (const total of HARD_TOTALS) {
+    tables.hard[total] = row(up => bestAction(rowEVs('hard', total, false, up, rules, {
+      canHit: true, canDouble: isDoubleTotalAllowed(total, false, rules), canSurrender,
+    })));
+  }
+  for (const total of SOFT_TOTALS) {
+    tables.soft[total] = row(up => bestAction(rowEVs('soft', total, true, up, rules, {
+      canHit: true, canDouble: isDoubleTotalAllowed(total, true, rules), canSurrender,
+    })));
+  }
+  for (const value of PAIR_VALUES) {
+    const [total, isSoft] = value === 11 ? [12, true] : [value * 2, false];
+    tables.pairs[value] = row(up => bestAction(rowEVs('pair', total, isSoft, up, rules, {
+      canHit: true, canDouble: isDoubleTotalAllowed(total, isSoft, rules), canSurrender, splitValue: value,
+    })));
   }
 
-  // 3. HARD TOTALS
-  // Hard 17+
-  if (total >= 17) {
-      return decision(Action.Stand, "Always stand on Hard 17+.", 
-      "The risk of busting is enormous (you need an Ace, 2, 3, or 4). The dealer will bust often enough that standing is the only prudent play.", 
-      "Example: Player [10, 7] vs Dealer [A]");
+  tableCache.set(key, tables);
+  return tables;
+};
+
+// ── Explanation text ──────────────────────────────────────────────────────────
+const upcardLabel = (up: number) => (up === 11 ? 'A' : String(up));
+const pct = (p: number) => `${Math.round(p * 100)}%`;
+const formatEV = (ev: number) => `${ev >= 0 ? '+' : '−'}${Math.abs(ev).toFixed(3)}`;
+const formatCount = (tc: number) => `${tc >= 0 ? '+' : '−'}${Number(Math.abs(tc).toFixed(1))}`;
+
+const ACTION_VERB: Record<Action, string> = {
+  [Action.Hit]: 'Hit',
+  [Action.Stand]: 'Stand on',
+  [Action.Double]: 'Double',
+  [Action.Split]: 'Split',
+  [Action.Surrender]: 'Surrender',
+};
+
+/** "2-6", "2-6, 8-9", "A" — compresses a set of dealer upcards into ranges */
+const upcardRanges = (ups: number[]): string => {
+  const parts: string[] = [];
+  for (let i = 0; i < ups.length; i++) {
+    let j = i;
+    while (j + 1 < ups.length && ups[j + 1] === ups[j] + 1) j++;
+    parts.push(i === j ? upcardLabel(ups[i]) : `${upcardLabel(ups[i])}-${upcardLabel(ups[j])}`);
+    i = j;
   }
-  
-  // Hard 13-16
-  if (total >= 13) {
-    if (dealerVal >= 2 && dealerVal <= 6) {
-        return decision(Action.Stand, `Stand on Hard ${total} against dealer 2-6.`, 
-        "Dealer is showing a 'bust card'. They have a high probability of busting (drawing to over 21). Don't risk busting yourself; let them do the work.", 
-        `Example: Player [10, ${total - 10}] vs Dealer [5]`);
+  return parts.join(', ');
+};
+
+const pairLabel = (value: number) => (value === 11 ? 'Aces' : `${value}s`);
+
+export const handLabel = (total: number, isSoft: boolean, pairValue?: number): string =>
+  pairValue !== undefined ? pairLabel(pairValue) : `${isSoft ? 'Soft' : 'Hard'} ${total}`;
+
+const describeRule = (action: Action, label: string, up: number, row?: StrategyRow): string => {
+  const verb = ACTION_VERB[action];
+  if (!row) return `${verb} ${label} against dealer ${upcardLabel(up)}.`;
+  const matching = DEALER_UPCARDS.filter(u => row[u] === action);
+  if (matching.length === DEALER_UPCARDS.length) return `Always ${verb.toLowerCase()} ${label}.`;
+  return `${verb} ${label} against dealer ${upcardRanges(matching)}.`;
+};
+
+const describeAnalysis = (
+  action: Action, total: number, isSoft: boolean, up: number, rules: TableRules,
+  evs: Partial<Record<Action, number>>, playerCards: number[], pairValue?: number,
+): string => {
+  const ev = getEvaluator(up, rules, playerCards);
+  const sentences: string[] = [];
+
+  sentences.push(`Showing ${upcardLabel(up)}, the dealer busts ${pct(ev.odds.bust)} of the time${ev.odds.blackjack > 0 ? ` and has blackjack ${pct(ev.odds.blackjack)} of the time (no peek)` : ''}.`);
+
+  switch (action) {
+    case Action.Stand: {
+      const bust = ev.bustOnHit(total, isSoft);
+      sentences.push(bust > 0
+        ? `A hit would bust you ${pct(bust)} of the time, which costs more than it gains — let the dealer take the risk.`
+        : `Your total is already strong enough that drawing is more likely to make it worse than better.`);
+      break;
     }
-    return decision(Action.Hit, `Hit Hard ${total} against dealer 7+.`, 
-    `You are in a bad spot. The dealer likely has 17+. Your only hope is to draw a card to improve, even though you might bust. Standing is effectively surrendering the hand.`, 
-    `Example: Player [10, ${total - 10}] vs Dealer [9]`);
-  }
-  
-  // Hard 12
-  if (total === 12) {
-    if (dealerVal >= 4 && dealerVal <= 6) {
-        return decision(Action.Stand, "Stand on Hard 12 against 4-6.", 
-        "Dealer is weak. 12 is a dangerous hand to hit (only 4 cards bust you: 10, J, Q, K). Against a weak dealer, play it safe.", 
-        "Example: Player [10, 2] vs Dealer [4]");
+    case Action.Hit: {
+      const bust = ev.bustOnHit(total, isSoft);
+      sentences.push(bust === 0
+        ? `You cannot bust with one card, so taking a card is free improvement.`
+        : `Standing on ${total} only wins when the dealer busts or finishes lower, so improving the hand is worth the ${pct(bust)} bust risk.`);
+      break;
     }
-    return decision(Action.Hit, "Hit Hard 12 against 2, 3 or 7+.", 
-    "Dealer 2 and 3 are safer for the dealer than they look. You should hit 12 to try to improve, as the dealer is less likely to bust than with 4-6.", 
-    "Example: Player [8, 4] vs Dealer [2]");
+    case Action.Double:
+      sentences.push(`You are the favourite here, so putting out a second bet for exactly one card earns more than playing the hand normally.`);
+      break;
+    case Action.Surrender: {
+      const played = ACTION_ORDER.filter(a => a !== Action.Surrender && evs[a] !== undefined)
+        .reduce((best, a) => Math.max(best, evs[a]!), -Infinity);
+      sentences.push(`Played out, this hand loses about ${Math.round(-played * 100)} units per 100 bet. Giving up half the bet now costs only 50${rules.surrender === 'early' ? ', and early surrender lets you do it before the dealer checks for blackjack' : ''}.`);
+      break;
+    }
+    case Action.Split:
+      sentences.push(`Two hands that each start with ${pairValue === 11 || pairValue === 8 ? 'an' : 'a'} ${pairValue === 11 ? 'Ace' : pairValue} are worth more than playing ${handLabel(total, isSoft)} as one hand.`);
+      break;
   }
 
-  // Hard 11
-  if (total === 11) {
-      return decision(Action.Double, "Always double Hard 11.", 
-      "This is one of the most profitable positions in Blackjack. You are extremely likely to make a 21 or 20. Double down to maximize value.", 
-      "Example: Player [6, 5] vs Dealer [6]");
+  const ranked = ACTION_ORDER
+    .filter(a => evs[a] !== undefined)
+    .sort((a, b) => evs[b]! - evs[a]!);
+  sentences.push(`Expected return per unit bet: ${ranked.map(a => `${a} ${formatEV(evs[a]!)}`).join(', ')}.`);
+  if (ranked.length > 1) {
+    const margin = evs[ranked[0]]! - evs[ranked[1]]!;
+    sentences.push(`${ranked[0]} beats ${ranked[1]} by ${(margin * 100).toFixed(1)} units per 100 bet.`);
   }
+  return sentences.join(' ');
+};
 
-  // Hard 10
-  if (total === 10) {
-    if (dealerVal <= 9) {
-        return decision(Action.Double, "Double Hard 10 against 2-9.", 
-        "You have a big advantage. The dealer does not have a 10 or Ace showing, so they are unlikely to beat your probable 20.", 
-        "Example: Player [6, 4] vs Dealer [8]");
-    }
-    return decision(Action.Hit, "Hit Hard 10 against 10 or Ace.", 
-    "Dealer is showing strength. If you double and catch a small card, you lose twice as much. Just hit.", 
-    "Example: Player [7, 3] vs Dealer [K]");
+/** "Stand on Hard 16 against dealer 10 at a true count of +0 or higher." */
+export const describeIndexPlay = (p: IndexPlay): string => {
+  const label = handLabel(p.total, false, p.kind === 'pair' ? p.total : undefined);
+  const when = p.direction === 'above'
+    ? `at a true count of ${formatCount(p.index)} or higher`
+    : `when the true count drops below ${formatCount(p.index)}`;
+  return `${ACTION_VERB[p.play]} ${label} against dealer ${upcardLabel(p.upcard)} ${when}.`;
+};
+
+const describeDeviation = (p: IndexPlay, trueCount: number, triggered: boolean): string => {
+  if (!triggered) {
+    return `${p.set} index: ${describeIndexPlay(p)} At ${formatCount(trueCount)} basic strategy (${p.basic}) still holds.`;
   }
+  return p.direction === 'above'
+    ? `At a true count of ${formatCount(trueCount)} the shoe is rich enough in tens and Aces that ${p.play} overtakes ${p.basic} (${p.set} index ${formatCount(p.index)}).`
+    : `At a true count of ${formatCount(trueCount)} the shoe is short of tens and Aces, so ${p.play} overtakes ${p.basic} (${p.set} index ${formatCount(p.index)}).`;
+};
 
-  // Hard 9
-  if (total === 9) {
-    if (dealerVal >= 3 && dealerVal <= 6) {
-        return decision(Action.Double, "Double Hard 9 against 3-6.", 
-        "Dealer is weak. You can double confidently knowing a 10 gives you 19, a strong winning hand.", 
-        "Example: Player [5, 4] vs Dealer [5]");
-    }
-    return decision(Action.Hit, "Hit Hard 9 otherwise.", 
-    "Dealer 2 is a bit too safe to double against with 9. Dealer 7+ is too strong. Just hit.", 
-    "Example: Player [5, 4] vs Dealer [2]");
+const cardLabel = (card: Card) => card.rank;
+
+// ── Public API ────────────────────────────────────────────────────────────────
+export const getCorrectAction = (
+  playerHand: Card[], dealerUpCard: Card, rules: TableRules = DEFAULT_RULES, context: HandContext = {},
+): StrategyDecision => {
+  const { total, isSoft } = calculateHandValue(playerHand);
+  const up = dealerUpCard.value; // 2-11 (A is 11)
+  const handCount = context.handCount ?? 1;
+
+  const canSplit = isSplitAllowed(playerHand, handCount, rules, context.splitAces);
+  const pairValue = canSplit ? playerHand[0].value : undefined;
+  const playerCards = playerHand.map(c => c.value);
+  const isOpening = playerHand.length === 2 && !context.isSplit;
+  const options = {
+    canHit: !context.splitAces,
+    canDouble: !context.splitAces && isDoubleAllowed(playerHand, rules, context.isSplit),
+    canSurrender: isSurrenderAllowed(playerHand, rules, context.isSplit, handCount),
+    splitValue: pairValue,
+  };
+  // Opening hands are played by the chart (total-dependent); later hands by the cards actually held
+  const evs = isOpening
+    ? rowEVs(pairValue !== undefined ? 'pair' : isSoft ? 'soft' : 'hard', total, isSoft, up, rules, options)
+    : handEVs(total, isSoft, up, rules, playerCards, options);
+  const basicAction = bestAction(evs);
+
+  // Count deviations apply only when their play is legal for this hand
+  const found = findIndexPlay(total, isSoft, pairValue, up, basicAction);
+  const indexPlay = found && evs[found.play] !== undefined ? found : undefined;
+  const isDeviation = indexPlay !== undefined && context.trueCount !== undefined && isIndexTriggered(indexPlay, context.trueCount);
+  const action = isDeviation ? indexPlay!.play : basicAction;
+
+  // Opening two-card hands read their rule off the generated table row
+  const tables = getStrategyTables(rules);
+  const row = !isOpening ? undefined
+    : isStrictPair(playerHand) ? tables.pairs[playerHand[0].value]
+      : isSoft ? tables.soft[total]
+        : tables.hard[total];
+
+  const label = handLabel(total, isSoft, basicAction === Action.Split ? pairValue : undefined);
+  const basicReason = describeRule(basicAction, label, up, row && row[up] === basicAction ? row : undefined);
+  const basicAnalysis = describeAnalysis(basicAction, total, isSoft, up, rules, evs, playerCards, pairValue);
+  const countNote = indexPlay && context.trueCount !== undefined
+    ? describeDeviation(indexPlay, context.trueCount, isDeviation)
+    : '';
+
+  return {
+    action,
+    reason: isDeviation ? `Index play (${indexPlay!.set}): ${describeIndexPlay(indexPlay!)}` : basicReason,
+    analysis: isDeviation
+      ? `${countNote} In a neutral shoe: ${basicAnalysis}`
+      : [basicAnalysis, countNote].filter(Boolean).join(' '),
+    example: `Example: Player [${playerHand.map(cardLabel).join(', ')}] vs Dealer [${dealerUpCard.rank}]`,
+    evs,
+    basicAction,
+    indexPlay,
+    isDeviation,
+  };
+};
+
+// ── Insurance ─────────────────────────────────────────────────────────────────
+/** Hi-Lo true count at which insurance (and even money) becomes a profitable bet */
+export const INSURANCE_INDEX = 3;
+
+export interface InsuranceDecision {
+  take: boolean;
+  reason: string;
+  analysis: string;
+  example: string;
+  ev: number; // expected return per unit insured, from the cards in view
+}
+
+export const getInsuranceDecision = (
+  playerHand: Card[], dealerUpCard: Card, rules: TableRules = DEFAULT_RULES, trueCount?: number,
+): InsuranceDecision => {
+  const isBlackjack = playerHand.length === 2 && calculateHandValue(playerHand).total === 21;
+  const name = isBlackjack ? 'even money' : 'insurance';
+
+  // Unseen cards off the top: the shoe minus the dealer's Ace and the player's cards
+  const unseen = rules.decks * 52 - 1 - playerHand.length;
+  const tens = rules.decks * 16 - playerHand.filter(c => c.value === 10).length;
+  const p = tens / unseen;
+  const ev = 3 * p - 1; // wins 2 units when the hole card is a ten, loses 1 otherwise
+  const take = trueCount !== undefined && trueCount >= INSURANCE_INDEX;
+
+  const sentences = [
+    `Insurance pays 2:1, so it only breaks even when the hole card is a ten more than 1 time in 3.`,
+    `Off the top of the shoe, ${tens} of the ${unseen} unseen cards are tens (${pct(p)}), so each unit of ${name} returns ${formatEV(ev)}.`,
+  ];
+  if (isBlackjack) sentences.push(`Taking even money is the same wager as insuring your blackjack.`);
+  if (trueCount !== undefined) {
+    sentences.push(take
+      ? `At a true count of ${formatCount(trueCount)} the shoe is rich enough in tens that the bet turns profitable.`
+      : `A true count of ${formatCount(trueCount)} is still below the ${formatCount(INSURANCE_INDEX)} index.`);
   }
 
-  // Hard 8 or less
-  return decision(Action.Hit, "Always hit Hard 8 or less.", 
-  "You cannot bust. You must take a card to improve your hand.", 
-  "Example: Player [3, 4] vs Dealer [5]");
-};
\ No newline at end of file
+  return {
+    take,
+    reason: take
+      ? `Take ${name} at a true count of ${formatCount(INSURANCE_INDEX)} or higher.`
+      : trueCount === undefined
+        ? `Never take ${name} — without a count it is a losing side bet.`
+        : `Decline ${name} below a true count of ${formatCount(INSURANCE_INDEX)}.`,
+    analysis: sentences.join(' '),
+    example: `Example: Player [${playerHand.map(cardLabel).join(', ')}] vs Dealer [${dealerUpCard.rank}]`,
+    ev,
+  };
+};